@@ -0,0 +1,169 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GoFindMeClient } from './client.js';
+import { GoFindMeError } from './errors.js';
+
+type Handler = (request: IncomingMessage & { body: string }, response: ServerResponse) => void;
+
+describe('GoFindMeClient', () => {
+  let server: Server;
+  let handler: Handler;
+  let requests: { method?: string; url?: string; body: string }[];
+  let client: GoFindMeClient;
+
+  beforeEach(async () => {
+    requests = [];
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        requests.push({ method: request.method, url: request.url, body });
+        handler(Object.assign(request, { body }), response);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    client = new GoFindMeClient({
+      apiKey: 'test-key',
+      baseUrl: `http://127.0.0.1:${port}`,
+      autoConnect: false,
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function respond(status: number, body: unknown): Handler {
+    return (_request, response) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+  }
+
+  describe('submitLocations', () => {
+    it('should post every location in one batch and return the per-item results', async () => {
+      const result = {
+        accepted: 1,
+        rejected: 1,
+        items: [
+          {
+            index: 0,
+            status: 'accepted',
+            id: 'location-1',
+            receivedAt: '2026-01-01T12:00:05.000Z',
+          },
+          {
+            index: 1,
+            status: 'rejected',
+            error: 'Location rejected by quality policy: low_accuracy',
+          },
+        ],
+      };
+      handler = respond(202, result);
+
+      const response = await client.submitLocations([
+        {
+          deviceId: 'phone-1',
+          latitude: 1,
+          longitude: 2,
+          recordedAt: new Date('2026-01-01T12:00:00Z'),
+          clientId: 'fix-1',
+        },
+        { deviceId: 'phone-1', latitude: 1, longitude: 2, recordedAt: '2026-01-01T12:00:01Z' },
+      ]);
+
+      expect(response).toEqual(result);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({ method: 'POST', url: '/api/v1/locations/batch' });
+      expect(JSON.parse(requests[0].body)).toEqual({
+        items: [
+          {
+            deviceId: 'phone-1',
+            latitude: 1,
+            longitude: 2,
+            recordedAt: '2026-01-01T12:00:00.000Z',
+            clientId: 'fix-1',
+          },
+          { deviceId: 'phone-1', latitude: 1, longitude: 2, recordedAt: '2026-01-01T12:00:01Z' },
+        ],
+      });
+    });
+
+    it('should throw a GoFindMeError when the whole batch fails', async () => {
+      handler = respond(403, { message: 'User is not a member of any groups' });
+
+      const error = await client
+        .submitLocations([
+          { deviceId: 'phone-1', latitude: 1, longitude: 2, recordedAt: new Date() },
+        ])
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(GoFindMeError);
+      expect(error).toMatchObject({
+        statusCode: 403,
+        message: 'User is not a member of any groups',
+      });
+    });
+  });
+
+  describe('locationHistory', () => {
+    const location = (id: string) => ({
+      id,
+      deviceId: 'phone-1',
+      latitude: 1,
+      longitude: 2,
+      recordedAt: '2026-01-01T12:00:00.000Z',
+    });
+
+    it('should follow next cursors until the last page', async () => {
+      const pages: Record<string, unknown> = {
+        '': { items: [location('a'), location('b')], nextCursor: 'cursor-1' },
+        'cursor-1': { items: [location('c')], nextCursor: 'cursor-2' },
+        'cursor-2': { items: [], nextCursor: null },
+      };
+      handler = (request, response) => {
+        const cursor = new URL(request.url ?? '', 'http://localhost').searchParams.get('cursor');
+        respond(200, pages[cursor ?? ''])(request, response);
+      };
+
+      const ids: string[] = [];
+      for await (const item of client.locationHistory({ deviceId: 'phone-1', limit: 2 })) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(['a', 'b', 'c']);
+      expect(requests.map((request) => request.url)).toEqual([
+        '/api/v1/locations/history?deviceId=phone-1&limit=2',
+        '/api/v1/locations/history?deviceId=phone-1&limit=2&cursor=cursor-1',
+        '/api/v1/locations/history?deviceId=phone-1&limit=2&cursor=cursor-2',
+      ]);
+    });
+
+    it('should stop at the page whose request fails', async () => {
+      handler = (request, response) => {
+        if (request.url?.includes('cursor=')) {
+          respond(400, { error: { statusCode: 400, message: 'Invalid cursor' } })(
+            request,
+            response
+          );
+        } else {
+          respond(200, { items: [location('a')], nextCursor: 'stale' })(request, response);
+        }
+      };
+
+      const ids: string[] = [];
+      const error = await (async () => {
+        for await (const item of client.locationHistory()) {
+          ids.push(item.id);
+        }
+      })().catch((caught: unknown) => caught);
+
+      expect(ids).toEqual(['a']);
+      expect(error).toBeInstanceOf(GoFindMeError);
+      expect(error).toMatchObject({ statusCode: 400 });
+    });
+  });
+});
@@ -2,9 +2,16 @@ import { GoFindMeError } from './errors.js';
 import type {
   GoFindMeClientConfig,
   HealthResponse,
+  LocationBatchResponse,
   LocationEvent,
+  LocationHistoryOptions,
+  LocationHistoryPage,
   LocationResponse,
   LocationUpdatePayload,
+  StreamEventType,
+  StreamFilter,
+  StreamSubscription,
+  StreamTransport,
 } from './types.js';
 
 /**
@@ -42,7 +49,14 @@ export class GoFindMeClient {
   private readonly onDataHandler?: (event: { type: string; data: unknown }) => void;
   private abortController: AbortController | null = null;
   private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private readonly transport: StreamTransport;
+  private readonly filter: StreamFilter;
+  private socket: WebSocket | null = null;
+  /** WebSocket subscriptions by id, re-sent whenever the socket (re)connects */
+  private subscriptions = new Map<string, StreamSubscription>();
   private isClosed = false;
+  /** ID of the last stream event received, sent as Last-Event-ID when reconnecting */
+  private lastEventId: string | null = null;
   private eventHandlers = new Map<
     string,
     Set<(event: { type: string; data: unknown }) => void>
@@ -59,6 +73,8 @@ export class GoFindMeClient {
    * @param config.onLocation - Optional callback for location events
    * @param config.onData - Optional callback for all stream events
    * @param config.autoConnect - Whether to automatically connect to the stream (defaults to true)
+   * @param config.transport - Stream transport: 'sse' (default) or 'ws'
+   * @param config.filter - Optional server-side filter for the stream
    */
   constructor(config: GoFindMeClientConfig) {
     if (!config.apiKey) {
@@ -69,6 +85,9 @@ export class GoFindMeClient {
     this.baseUrl = config.baseUrl || 'https://api.gofindme.com';
     this.onLocationHandler = config.onLocation;
     this.onDataHandler = config.onData;
+    this.transport = config.transport ?? 'sse';
+    this.filter = config.filter ?? {};
+    this.subscriptions.set('default', { ...this.filter, id: 'default' });
 
     // Auto-connect to stream if enabled (default: true)
     if (config.autoConnect !== false) {
@@ -122,38 +141,73 @@ export class GoFindMeClient {
     return response.json();
   }
 
+  /**
+   * Submit several location updates in one request
+   *
+   * Meant for devices that buffer fixes while offline. Up to 500 locations
+   * are accepted per call; only the newest location per device is pushed to
+   * live streams, but every location is stored.
+   *
+   * @param locations - Location data to submit
+   * @returns Promise resolving to per-item results
+   * @throws {GoFindMeError} If the request fails
+   *
+   * @example
+   * ```typescript
+   * const result = await client.submitLocations(bufferedFixes);
+   * const failed = result.items.filter((item) => item.status === 'rejected');
+   * ```
+   */
+  async submitLocations(
+    locations: LocationUpdatePayload[]
+  ): Promise<LocationBatchResponse> {
+    const response = await fetch(`${this.baseUrl}/api/v1/locations/batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': this.apiKey,
+      },
+      body: JSON.stringify({
+        items: locations.map((data) => ({
+          ...data,
+          recordedAt:
+            data.recordedAt instanceof Date
+              ? data.recordedAt.toISOString()
+              : data.recordedAt,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await GoFindMeError.fromResponse(response);
+    }
+
+    return response.json();
+  }
+
   /**
    * Connect to the location stream
    *
    * This method is called automatically on initialization unless autoConnect is set to false.
-   * You can also call it manually to reconnect after closing the stream.
+   * You can also call it manually to reconnect after closing the stream. A reconnect sends
+   * the ID of the last event received, and the server replays locations missed in between.
    */
   connect(): void {
-    if (!this.isClosed && this.abortController) {
+    if (!this.isClosed && (this.abortController || this.socket)) {
       // Already connected
       return;
     }
 
     this.isClosed = false;
-    const url = `${this.baseUrl}/api/v1/stream`;
 
-    const emit = (type: string, data: unknown) => {
-      // Call registered event handlers
-      const handlers = this.eventHandlers.get(type);
-      if (handlers) {
-        handlers.forEach((handler) => handler({ type, data }));
-      }
-
-      // Call onData handler if provided
-      if (this.onDataHandler) {
-        this.onDataHandler({ type, data });
-      }
+    if (this.transport === 'ws') {
+      this.connectWebSocket();
+      return;
+    }
 
-      // Call onLocation handler for location events
-      if (type === 'location' && this.onLocationHandler) {
-        this.onLocationHandler(data as LocationEvent);
-      }
-    };
+    const query = this.streamQuery().toString();
+    const url = `${this.baseUrl}/api/v1/stream${query ? `?${query}` : ''}`;
+    const emit = (type: string, data: unknown) => this.emitEvent(type, data);
 
     // Start the stream
     this.abortController = new AbortController();
@@ -162,6 +216,8 @@ export class GoFindMeClient {
       headers: {
         'X-API-Key': this.apiKey,
         Accept: 'text/event-stream',
+        // Resume after the last event we saw so the server replays anything missed
+        ...(this.lastEventId && { 'Last-Event-ID': this.lastEventId }),
       },
       signal: this.abortController.signal,
     })
@@ -208,7 +264,7 @@ export class GoFindMeClient {
                 let eventType = 'message';
                 let eventData = '';
 
-                // Parse SSE format: "event: <type>\ndata: <data>"
+                // Parse SSE format: "id: <id>\nevent: <type>\ndata: <data>"
                 for (const line of eventString.split('\n')) {
                   const colonIndex = line.indexOf(':');
                   if (colonIndex === -1) continue;
@@ -220,15 +276,20 @@ export class GoFindMeClient {
                     eventType = value;
                   } else if (field === 'data') {
                     eventData = value;
+                  } else if (field === 'id') {
+                    this.lastEventId = value;
                   }
                 }
 
+                // Blocks without data (e.g. the retry hint) are not events
+                if (!eventData) continue;
+
                 try {
                   const parsedData = JSON.parse(eventData);
-                  emit(eventType as 'location' | 'ready' | 'heartbeat', parsedData);
+                  emit(eventType, parsedData);
                 } catch {
                   // If parsing fails, emit raw data
-                  emit(eventType as 'location' | 'ready' | 'heartbeat', eventData);
+                  emit(eventType, eventData);
                 }
               }
             }
@@ -255,6 +316,150 @@ export class GoFindMeClient {
       });
   }
 
+  /**
+   * Open the WebSocket transport
+   *
+   * Authenticates with an auth frame (browsers cannot set headers on WebSocket
+   * requests) and re-sends every subscription, so a reconnect restores the
+   * previous scope.
+   */
+  private connectWebSocket(): void {
+    const url = `${this.baseUrl.replace(/^http/, 'ws')}/api/v1/stream/ws`;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'auth', apiKey: this.apiKey }));
+      this.subscriptions.forEach((subscription) => {
+        socket.send(JSON.stringify({ type: 'subscribe', ...subscription }));
+      });
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        const frame = JSON.parse(String(message.data)) as {
+          type: string;
+          data: unknown;
+        };
+        this.emitEvent(frame.type, frame.data);
+      } catch {
+        // If parsing fails, emit raw data
+        this.emitEvent('message', message.data);
+      }
+    };
+
+    socket.onerror = () => {
+      if (!this.isClosed) {
+        this.emitEvent('error', { message: 'WebSocket error' });
+      }
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+
+      if (!this.isClosed) {
+        this.emitEvent('error', {
+          code: event.code,
+          message: event.reason || `WebSocket closed (${event.code})`,
+        });
+        this.close();
+      }
+    };
+  }
+
+  /**
+   * Deliver a stream event to registered handlers and the configured callbacks
+   */
+  private emitEvent(type: string, data: unknown): void {
+    // Call registered event handlers
+    const handlers = this.eventHandlers.get(type);
+    if (handlers) {
+      handlers.forEach((handler) => handler({ type, data }));
+    }
+
+    // Call onData handler if provided
+    if (this.onDataHandler) {
+      this.onDataHandler({ type, data });
+    }
+
+    // Call onLocation handler for location events
+    if (type === 'location' && this.onLocationHandler) {
+      this.onLocationHandler(data as LocationEvent);
+    }
+  }
+
+  /**
+   * Subscribe to part of the group's stream (WebSocket transport only)
+   *
+   * Subscriptions are identified by `id` (defaults to 'default'); subscribing
+   * again with the same id replaces it. An event is delivered if it matches any
+   * subscription. The client starts with a 'default' subscription covering the
+   * whole group.
+   *
+   * @param subscription - Devices and/or bounding box to receive events for
+   * @throws {Error} If the client uses the SSE transport
+   *
+   * @example
+   * ```typescript
+   * // Only receive events for two devices
+   * client.subscribe({ deviceIds: ['device-1', 'device-2'] });
+   *
+   * // Additionally receive everything inside a bounding box
+   * client.subscribe({ id: 'downtown', bbox: [-122.42, 37.77, -122.39, 37.8] });
+   * ```
+   */
+  subscribe(subscription: StreamSubscription = {}): void {
+    if (this.transport !== 'ws') {
+      throw new Error("subscribe() requires the 'ws' transport");
+    }
+
+    const id = subscription.id ?? 'default';
+    this.subscriptions.set(id, { ...subscription, id });
+    this.sendFrame({ type: 'subscribe', ...subscription, id });
+  }
+
+  /**
+   * Remove a subscription (WebSocket transport only)
+   *
+   * @param id - Subscription id (defaults to 'default')
+   * @throws {Error} If the client uses the SSE transport
+   */
+  unsubscribe(id = 'default'): void {
+    if (this.transport !== 'ws') {
+      throw new Error("unsubscribe() requires the 'ws' transport");
+    }
+
+    this.subscriptions.delete(id);
+    this.sendFrame({ type: 'unsubscribe', id });
+  }
+
+  /**
+   * Query parameters for the configured filter on the SSE endpoint
+   */
+  private streamQuery(): URLSearchParams {
+    const { deviceIds, bbox, minDistanceMeters, minIntervalSeconds } =
+      this.filter;
+    const params = new URLSearchParams();
+    if (deviceIds?.length) params.set('deviceIds', deviceIds.join(','));
+    if (bbox) params.set('bbox', bbox.join(','));
+    if (minDistanceMeters !== undefined) {
+      params.set('minDistanceMeters', String(minDistanceMeters));
+    }
+    if (minIntervalSeconds !== undefined) {
+      params.set('minIntervalSeconds', String(minIntervalSeconds));
+    }
+    return params;
+  }
+
+  private sendFrame(frame: Record<string, unknown>): void {
+    // Frames sent before the socket opens are covered by the subscriptions
+    // replayed on open
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(frame));
+    }
+  }
+
   /**
    * Close the stream connection
    */
@@ -262,6 +467,9 @@ export class GoFindMeClient {
     if (this.isClosed) return;
     this.isClosed = true;
     this.abortController?.abort();
+    this.abortController = null;
+    this.socket?.close(1000);
+    this.socket = null;
     this.reader?.cancel().catch(() => {
       // Ignore cancel errors
     });
@@ -279,10 +487,15 @@ export class GoFindMeClient {
    * client.addEventListener('location', (event) => {
    *   console.log('Location:', event.data);
    * });
+   *
+   * client.addEventListener('geofence.enter', (event) => {
+   *   const { deviceId, geofenceName } = event.data as GeofenceEvent;
+   *   console.log(`${deviceId} entered ${geofenceName}`);
+   * });
    * ```
    */
   addEventListener(
-    event: 'location' | 'ready' | 'heartbeat' | 'error',
+    event: StreamEventType,
     handler: (event: { type: string; data: unknown }) => void
   ): void {
     if (!this.eventHandlers.has(event)) {
@@ -298,7 +511,7 @@ export class GoFindMeClient {
    * @param handler - Event handler function to remove
    */
   removeEventListener(
-    event: 'location' | 'ready' | 'heartbeat' | 'error',
+    event: StreamEventType,
     handler: (event: { type: string; data: unknown }) => void
   ): void {
     this.eventHandlers.get(event)?.delete(handler);
@@ -354,6 +567,83 @@ export class GoFindMeClient {
     return response.json();
   }
 
+  /**
+   * Get a single page of location history
+   *
+   * Returns stored locations in chronological order. Use `nextCursor` to fetch
+   * the following page, or use `locationHistory()` to iterate over all pages.
+   *
+   * @param options - Query options
+   * @returns Promise resolving to a page of locations and the cursor for the next page
+   * @throws {GoFindMeError} If the request fails
+   *
+   * @example
+   * ```typescript
+   * const page = await client.getLocationHistory({
+   *   deviceId: 'device-123',
+   *   from: new Date(Date.now() - 60 * 60 * 1000),
+   * });
+   * ```
+   */
+  async getLocationHistory(options: LocationHistoryOptions = {}): Promise<LocationHistoryPage> {
+    const params = new URLSearchParams();
+    if (options.deviceId) {
+      params.append('deviceId', options.deviceId);
+    }
+    if (options.from) {
+      params.append('from', toIsoString(options.from));
+    }
+    if (options.to) {
+      params.append('to', toIsoString(options.to));
+    }
+    if (options.limit) {
+      params.append('limit', options.limit.toString());
+    }
+    if (options.cursor) {
+      params.append('cursor', options.cursor);
+    }
+
+    const url = `${this.baseUrl}/api/v1/locations/history${params.toString() ? `?${params.toString()}` : ''}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'X-API-Key': this.apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      throw await GoFindMeError.fromResponse(response);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Iterate over location history, fetching pages on demand
+   *
+   * @param options - Query options (`limit` controls the page size)
+   * @returns Async iterator yielding locations in chronological order
+   * @throws {GoFindMeError} If a page request fails
+   *
+   * @example
+   * ```typescript
+   * for await (const location of client.locationHistory({ deviceId: 'device-123' })) {
+   *   console.log(location.latitude, location.longitude);
+   * }
+   * ```
+   */
+  async *locationHistory(
+    options: LocationHistoryOptions = {}
+  ): AsyncGenerator<LocationEvent, void, undefined> {
+    let cursor = options.cursor;
+
+    do {
+      const page = await this.getLocationHistory({ ...options, cursor });
+      yield* page.items;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
   /**
    * Check the health status of the GoFindMe API
    *
@@ -376,3 +666,7 @@ export class GoFindMeClient {
     return response.json();
   }
 }
+
+function toIsoString(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
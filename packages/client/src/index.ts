@@ -2,7 +2,17 @@ export { GoFindMeClient } from './client.js';
 export type {
   LocationUpdatePayload,
   LocationResponse,
+  LocationBatchItemResult,
+  LocationBatchResponse,
   LocationEvent,
+  GeofenceEvent,
+  ShareEndedEvent,
+  StreamEventType,
+  StreamFilter,
+  StreamSubscription,
+  StreamTransport,
+  LocationHistoryOptions,
+  LocationHistoryPage,
   GoFindMeClientConfig,
   HealthResponse,
 } from './types.js';
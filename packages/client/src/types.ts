@@ -22,6 +22,11 @@ export interface LocationUpdatePayload {
   payloadVersion?: string;
   /** Optional array of group IDs to target (optional) */
   groupIds?: string[];
+  /**
+   * Idempotency key, unique per device (optional, up to 128 characters).
+   * Resubmitting a key returns the original response instead of storing the location again.
+   */
+  clientId?: string;
 }
 
 /**
@@ -34,6 +39,34 @@ export interface LocationResponse {
   receivedAt: string;
 }
 
+/**
+ * Outcome of one item of a location batch
+ */
+export interface LocationBatchItemResult {
+  /** Position of the item in the submitted batch */
+  index: number;
+  /** `rejected` when the item targets a group the user is not an active member of */
+  status: 'accepted' | 'rejected';
+  /** Location record ID (accepted items only) */
+  id?: string;
+  /** ISO 8601 timestamp when the batch was received (accepted items only) */
+  receivedAt?: string;
+  /** Why the item was rejected */
+  error?: string;
+}
+
+/**
+ * Response from submitting a batch of location updates
+ */
+export interface LocationBatchResponse {
+  /** Number of items stored */
+  accepted: number;
+  /** Number of items rejected */
+  rejected: number;
+  /** Per-item results, in submission order */
+  items: LocationBatchItemResult[];
+}
+
 /**
  * Location event received from the stream
  */
@@ -62,6 +95,119 @@ export interface LocationEvent {
   metadata?: Record<string, unknown> | null;
 }
 
+/**
+ * Geofence event received from the stream
+ * (`geofence.enter`, `geofence.exit` or `geofence.dwell`)
+ */
+export interface GeofenceEvent {
+  /** Group ID the geofence belongs to */
+  groupId: string;
+  /** Geofence that was entered, exited or dwelled in */
+  geofenceId: string;
+  /** Geofence name at the time of the event */
+  geofenceName: string;
+  /** Device ID that triggered the event */
+  deviceId: string;
+  /** Latitude of the location that triggered the event */
+  latitude: number;
+  /** Longitude of the location that triggered the event */
+  longitude: number;
+  /** ISO 8601 timestamp of the location that triggered the event */
+  recordedAt: string;
+  /** Seconds the device has been inside the geofence (dwell events only) */
+  dwellSeconds?: number;
+}
+
+/**
+ * Emitted when a person stops sharing their location with the group (`share.ended`)
+ */
+export interface ShareEndedEvent {
+  /** Group ID the share belonged to */
+  groupId: string;
+  /** Location share that ended */
+  shareId: string;
+  /** User who was sharing */
+  userId: string;
+  /** Device the share was limited to (null when it covered all of the user's devices) */
+  deviceId: string | null;
+  /** `expired` when the share's duration elapsed, `ended` when the user ended it */
+  reason: 'expired' | 'ended';
+  /** ISO 8601 timestamp of when the share started */
+  startedAt: string;
+  /** ISO 8601 timestamp of when the share ended */
+  endedAt: string;
+}
+
+/**
+ * Event types emitted by the location stream
+ */
+export type StreamEventType =
+  | 'location'
+  | 'subscribed'
+  | 'unsubscribed'
+  | 'geofence.enter'
+  | 'geofence.exit'
+  | 'geofence.dwell'
+  | 'share.ended'
+  | 'ready'
+  | 'heartbeat'
+  | 'error';
+
+/**
+ * Transport used for the location stream
+ * - sse: Server-Sent Events (one-way)
+ * - ws: WebSocket, supports changing subscriptions without reconnecting
+ */
+export type StreamTransport = 'sse' | 'ws';
+
+/**
+ * Server-side filter for the location stream
+ */
+export interface StreamFilter {
+  /** Only receive events for these devices (optional) */
+  deviceIds?: string[];
+  /** Only receive events inside [minLng, minLat, maxLng, maxLat] (optional) */
+  bbox?: [number, number, number, number];
+  /** Skip locations closer than this to the last one received for the device (optional) */
+  minDistanceMeters?: number;
+  /** Skip locations recorded sooner than this after the last one for the device (optional) */
+  minIntervalSeconds?: number;
+}
+
+/**
+ * Part of the group's stream to receive over the WebSocket transport
+ */
+export interface StreamSubscription extends StreamFilter {
+  /** Subscription id, used to replace or remove it (defaults to 'default') */
+  id?: string;
+}
+
+/**
+ * Options for querying location history
+ */
+export interface LocationHistoryOptions {
+  /** Only return locations for this device (optional) */
+  deviceId?: string;
+  /** Start of the time range, inclusive (ISO 8601 string or Date, optional) */
+  from?: Date | string;
+  /** End of the time range, inclusive (ISO 8601 string or Date, optional) */
+  to?: Date | string;
+  /** Page size (default: 100, max: 1000) */
+  limit?: number;
+  /** Cursor returned as nextCursor by a previous page (optional) */
+  cursor?: string;
+}
+
+/**
+ * A page of location history
+ */
+export interface LocationHistoryPage {
+  /** Locations in chronological order (oldest first) */
+  items: LocationEvent[];
+  /** Cursor for the next page, or null when there are no more results */
+  nextCursor: string | null;
+}
+
 /**
  * Configuration for the GoFindMe client
  */
@@ -76,6 +222,10 @@ export interface GoFindMeClientConfig {
   onData?: (event: { type: string; data: unknown }) => void;
   /** Whether to automatically connect to the stream on initialization (defaults to true) */
   autoConnect?: boolean;
+  /** Stream transport (defaults to 'sse') */
+  transport?: StreamTransport;
+  /** Filter applied to the stream; with 'ws' it becomes the default subscription */
+  filter?: StreamFilter;
 }
 
 /**
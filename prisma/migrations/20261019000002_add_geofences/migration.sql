@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "geofences" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shape" TEXT NOT NULL,
+    "center_latitude" DOUBLE PRECISION,
+    "center_longitude" DOUBLE PRECISION,
+    "radius_meters" DOUBLE PRECISION,
+    "polygon" TEXT,
+    "dwell_seconds" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geofences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "geofence_device_states" (
+    "id" TEXT NOT NULL,
+    "geofence_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "inside" BOOLEAN NOT NULL DEFAULT false,
+    "entered_at" TIMESTAMP(3),
+    "dwell_notified" BOOLEAN NOT NULL DEFAULT false,
+    "last_recorded_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geofence_device_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "geofences_group_id_idx" ON "geofences"("group_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "geofence_device_states_geofence_id_device_id_key" ON "geofence_device_states"("geofence_id", "device_id");
+
+-- AddForeignKey
+ALTER TABLE "geofences" ADD CONSTRAINT "geofences_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "geofence_device_states" ADD CONSTRAINT "geofence_device_states_geofence_id_fkey" FOREIGN KEY ("geofence_id") REFERENCES "geofences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
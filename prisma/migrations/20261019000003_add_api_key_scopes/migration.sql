@@ -0,0 +1,4 @@
+-- AlterTable
+-- Existing keys keep full access to their group
+ALTER TABLE "api_keys" ADD COLUMN "scopes" TEXT[] DEFAULT ARRAY['locations:read', 'locations:history', 'stream', 'webhooks:manage']::TEXT[],
+ADD COLUMN "device_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
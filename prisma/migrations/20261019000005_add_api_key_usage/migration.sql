@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "api_keys" ADD COLUMN "rate_limit_max" INTEGER,
+ADD COLUMN "daily_request_quota" INTEGER;
+
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "api_rate_limit_max" INTEGER,
+ADD COLUMN "api_daily_request_quota" INTEGER;
+
+-- CreateTable
+CREATE TABLE "api_key_usage" (
+    "api_key_id" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "stream_seconds" INTEGER NOT NULL DEFAULT 0,
+    "locations_delivered" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_key_usage_pkey" PRIMARY KEY ("api_key_id","day")
+);
+
+-- AddForeignKey
+ALTER TABLE "api_key_usage" ADD CONSTRAINT "api_key_usage_api_key_id_fkey" FOREIGN KEY ("api_key_id") REFERENCES "api_keys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
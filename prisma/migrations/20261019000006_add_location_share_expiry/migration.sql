@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "location_shares" ADD COLUMN "expires_at" TIMESTAMP(3);
+
+-- Backfill shares that were started with a duration
+UPDATE "location_shares"
+SET "expires_at" = "started_at" + "duration" * INTERVAL '1 second'
+WHERE "duration" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "location_shares_is_active_expires_at_idx" ON "location_shares"("is_active", "expires_at");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "delivery_policy" TEXT NOT NULL DEFAULT 'both';
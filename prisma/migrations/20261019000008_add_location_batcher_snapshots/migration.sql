@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "location_batcher_snapshots" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "frequency_seconds" INTEGER NOT NULL,
+    "last_published_at" TIMESTAMP(3),
+    "updates" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_batcher_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "location_batcher_snapshots_group_id_idx" ON "location_batcher_snapshots"("group_id");
+
+-- AddForeignKey
+ALTER TABLE "location_batcher_snapshots" ADD CONSTRAINT "location_batcher_snapshots_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN "client_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "locations_device_id_client_id_key" ON "locations"("device_id", "client_id");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN     "quality_action" TEXT NOT NULL DEFAULT 'off',
+ADD COLUMN     "quality_max_speed_mps" DOUBLE PRECISION DEFAULT 100,
+ADD COLUMN     "quality_max_accuracy_m" DOUBLE PRECISION DEFAULT 500,
+ADD COLUMN     "quality_max_future_seconds" INTEGER DEFAULT 60,
+ADD COLUMN     "quality_max_age_seconds" INTEGER DEFAULT 86400;
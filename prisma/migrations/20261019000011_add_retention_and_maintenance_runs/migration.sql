@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "location_retention_days" INTEGER;
+
+-- CreateTable
+CREATE TABLE "maintenance_runs" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "locations_deleted" INTEGER NOT NULL DEFAULT 0,
+    "anonymous_sessions_deleted" INTEGER NOT NULL DEFAULT 0,
+    "share_links_deleted" INTEGER NOT NULL DEFAULT 0,
+    "invitations_deleted" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+
+    CONSTRAINT "maintenance_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "maintenance_runs_started_at_idx" ON "maintenance_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "locations_group_id_recorded_at_idx" ON "locations"("group_id", "recorded_at");
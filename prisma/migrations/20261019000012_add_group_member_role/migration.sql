@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "group_members" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'member';
+
+-- Owners who are also members of their group
+UPDATE "group_members" AS gm
+SET "role" = 'owner'
+FROM "groups" AS g
+WHERE g."id" = gm."group_id" AND g."owner_id" = gm."user_id";
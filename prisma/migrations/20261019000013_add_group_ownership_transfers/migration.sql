@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "group_ownership_transfers" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "from_user_id" TEXT NOT NULL,
+    "to_user_id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL DEFAULT 'transfer',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "responded_at" TIMESTAMP(3),
+
+    CONSTRAINT "group_ownership_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "group_ownership_transfers_group_id_created_at_idx" ON "group_ownership_transfers"("group_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "group_ownership_transfers_to_user_id_status_idx" ON "group_ownership_transfers"("to_user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "group_ownership_transfers" ADD CONSTRAINT "group_ownership_transfers_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
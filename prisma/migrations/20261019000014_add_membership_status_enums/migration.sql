@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "membership_status" AS ENUM ('pending_request', 'invited', 'active', 'suspended', 'left', 'removed');
+
+-- CreateEnum
+CREATE TYPE "invitation_status" AS ENUM ('pending', 'accepted', 'rejected');
+
+-- AlterTable: 'pending' memberships were join requests, 'accepted' was used interchangeably with
+-- 'active', and anything else (such as 'rejected') no longer grants access
+ALTER TABLE "group_members" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "group_members" ALTER COLUMN "status" TYPE "membership_status" USING (
+    CASE "status"
+        WHEN 'pending' THEN 'pending_request'
+        WHEN 'active' THEN 'active'
+        WHEN 'accepted' THEN 'active'
+        ELSE 'removed'
+    END
+)::"membership_status";
+ALTER TABLE "group_members" ALTER COLUMN "status" SET DEFAULT 'pending_request';
+
+-- AlterTable
+ALTER TABLE "group_invitations" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "group_invitations" ALTER COLUMN "status" TYPE "invitation_status" USING (
+    CASE WHEN "status" IN ('pending', 'accepted', 'rejected') THEN "status" ELSE 'rejected' END
+)::"invitation_status";
+ALTER TABLE "group_invitations" ALTER COLUMN "status" SET DEFAULT 'pending';
+
+-- Users with a pending invitation and no membership are now invited members
+INSERT INTO "group_members" ("id", "group_id", "user_id", "status", "role", "created_at")
+SELECT gen_random_uuid()::text, gi."group_id", gi."user_id", 'invited', 'member', gi."created_at"
+FROM "group_invitations" AS gi
+WHERE gi."status" = 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM "group_members" AS gm
+    WHERE gm."group_id" = gi."group_id" AND gm."user_id" = gi."user_id"
+  );
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "locations" ADD COLUMN "user_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "locations_user_id_idx" ON "locations"("user_id");
@@ -1,9 +1,10 @@
 import { FastifyInstance } from 'fastify';
-import rateLimit from '@fastify/rate-limit';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
+import websocket from '@fastify/websocket';
 import { registerCors } from './plugins/cors.js';
 import { registerHelmet } from './plugins/helmet.js';
+import { registerRateLimit } from './plugins/rate-limit.js';
 import { healthRoutes } from './routes/health.js';
 import { registerInternalRoutes } from './routes/internal/index.js';
 import { registerPublicRoutes } from './routes/public/index.js';
@@ -15,11 +16,11 @@ export async function buildApp(fastify: FastifyInstance) {
   await registerHelmet(fastify);
   await registerCors(fastify);
 
-  // Register rate limiting
-  await fastify.register(rateLimit, {
-    max: env.RATE_LIMIT_MAX ?? 300,
-    timeWindow: env.RATE_LIMIT_WINDOW ?? '1 minute',
-  });
+  // Register rate limiting (per API key, share token or IP)
+  await registerRateLimit(fastify);
+
+  // WebSocket support (must be registered before the routes that use it)
+  await fastify.register(websocket);
 
   // Register Swagger with enhanced config
   await fastify.register(swagger, {
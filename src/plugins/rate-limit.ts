@@ -0,0 +1,86 @@
+import crypto from 'node:crypto';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import rateLimit from '@fastify/rate-limit';
+import { env } from '../config/env.js';
+import { apiKeyUsage, DEFAULT_RATE_LIMIT_MAX } from '../services/api-key-usage.js';
+import { identifyApiKey } from '../services/api-keys.js';
+import { decryptWithSecret } from '../utils/encrypt.js';
+
+const API_KEY_BUCKET = 'api-key:';
+// Verified raw keys are remembered briefly so limiting does not cost a query per request
+const VERIFIED_KEY_TTL_MS = 60 * 1000;
+const verifiedKeys = new Map<string, { keyId: string; expiresAt: number }>();
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function digest(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+async function apiKeyBucket(rawKey: string): Promise<string | null> {
+  const hash = digest(rawKey);
+  const cached = verifiedKeys.get(hash);
+  if (cached && cached.expiresAt > Date.now()) {
+    return API_KEY_BUCKET + cached.keyId;
+  }
+
+  // When the key cannot be checked the request falls back to its IP bucket
+  const keyId = await identifyApiKey(rawKey).catch(() => null);
+  if (!keyId) {
+    return null;
+  }
+
+  verifiedKeys.set(hash, { keyId, expiresAt: Date.now() + VERIFIED_KEY_TTL_MS });
+  return API_KEY_BUCKET + keyId;
+}
+
+function shareTokenBucket(request: FastifyRequest): string | null {
+  const body = request.body as { encryptedShareToken?: unknown } | undefined;
+  const encrypted =
+    firstHeader(request.headers['x-location-token']) ??
+    (typeof body?.encryptedShareToken === 'string' ? body.encryptedShareToken : undefined);
+  if (!encrypted || !env.FRONTEND_APP_SECRET) {
+    return null;
+  }
+
+  try {
+    // The same share token encrypts differently every time, so bucket by the plain token
+    return `share:${digest(decryptWithSecret(encrypted, env.FRONTEND_APP_SECRET))}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rate limiting bucket for a request
+ * - API key requests share one bucket per key, whatever IP they come from
+ * - location ingestion with a share token gets one bucket per share token
+ * - everything else (and invalid credentials) is limited by IP
+ */
+async function rateLimitKey(request: FastifyRequest): Promise<string> {
+  const rawKey = firstHeader(request.headers['x-api-key']);
+  return (
+    (rawKey ? await apiKeyBucket(rawKey) : null) ?? shareTokenBucket(request) ?? `ip:${request.ip}`
+  );
+}
+
+export async function registerRateLimit(fastify: FastifyInstance) {
+  await fastify.register(rateLimit, {
+    // Runs after body parsing so a share token sent in the body can pick the bucket
+    hook: 'preHandler',
+    timeWindow: env.RATE_LIMIT_WINDOW ?? '1 minute',
+    keyGenerator: rateLimitKey,
+    // API keys use their own limit (or their group's); other buckets use the default
+    max: async (_request, key) => {
+      if (!key.startsWith(API_KEY_BUCKET)) {
+        return DEFAULT_RATE_LIMIT_MAX;
+      }
+      const limits = await apiKeyUsage
+        .getLimits(key.slice(API_KEY_BUCKET.length))
+        .catch(() => null);
+      return limits?.rateLimitMax ?? DEFAULT_RATE_LIMIT_MAX;
+    },
+  });
+}
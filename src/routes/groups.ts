@@ -128,7 +128,7 @@ export async function registerGroupRoutes(app: FastifyInstance) {
         ),
         response: {
           202: zodToJsonSchemaFastify(
-            z.object({ status: z.literal('pending'), memberId: z.string() })
+            z.object({ status: z.literal('pending_request'), memberId: z.string() })
           ),
         },
       },
@@ -163,14 +163,14 @@ export async function registerGroupRoutes(app: FastifyInstance) {
         create: {
           group_id: groupId,
           user_id: user.id,
-          status: 'pending',
+          status: 'pending_request',
         },
         update: {
-          status: 'pending',
+          status: 'pending_request',
         },
       });
 
-      reply.code(202).send({ status: 'pending', memberId: member.id });
+      reply.code(202).send({ status: 'pending_request', memberId: member.id });
     }
   );
 }
@@ -0,0 +1,184 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { env } from '../../config/env.js';
+import { prisma as db } from '../../db.js';
+import { locationBus } from '../../services/bus.js';
+import { locationBatcher } from '../../services/location-batcher.js';
+import { maintenanceScheduler } from '../../services/maintenance.js';
+import { requireAdmin } from '../../utils/auth.js';
+import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
+
+const statsResponse = z.object({
+  batcher: z.object({
+    activeGroups: z.number().int(),
+    queuedUpdates: z.number().int(),
+    frequencies: z.array(z.number()),
+  }),
+  bus: z.object({
+    adapter: z.string(),
+    groupsWithSubscribers: z.array(
+      z.object({
+        groupId: z.string(),
+        subscribers: z.number().int(),
+      })
+    ),
+  }),
+});
+
+const maintenanceReport = z.object({
+  locationsDeleted: z.number().int(),
+  anonymousSessionsDeleted: z.number().int(),
+  shareLinksDeleted: z.number().int(),
+  invitationsDeleted: z.number().int(),
+});
+
+const maintenanceRunResponse = maintenanceReport.extend({
+  id: z.string(),
+  trigger: z.enum(['schedule', 'manual']),
+  startedAt: z.string(),
+  finishedAt: z.string().nullable(),
+  error: z.string().nullable(),
+});
+
+const maintenanceResponse = z.object({
+  locationRetentionDays: z.number().int().nullable(),
+  intervalMs: z.number().int(),
+  groupOverrides: z.array(
+    z.object({
+      groupId: z.string(),
+      locationRetentionDays: z.number().int(),
+    })
+  ),
+  runs: z.array(maintenanceRunResponse),
+});
+
+type MaintenanceRunRow = {
+  id: string;
+  trigger: string;
+  started_at: Date;
+  finished_at: Date | null;
+  locations_deleted: number;
+  anonymous_sessions_deleted: number;
+  share_links_deleted: number;
+  invitations_deleted: number;
+  error: string | null;
+};
+
+function toMaintenanceRunResponse(run: MaintenanceRunRow): z.infer<typeof maintenanceRunResponse> {
+  return {
+    id: run.id,
+    trigger: run.trigger as 'schedule' | 'manual',
+    startedAt: run.started_at.toISOString(),
+    finishedAt: run.finished_at?.toISOString() ?? null,
+    locationsDeleted: run.locations_deleted,
+    anonymousSessionsDeleted: run.anonymous_sessions_deleted,
+    shareLinksDeleted: run.share_links_deleted,
+    invitationsDeleted: run.invitations_deleted,
+    error: run.error,
+  };
+}
+
+/**
+ * Internal routes for operating the server
+ * These require an Auth0 user listed in ADMIN_USER_IDS
+ */
+export async function registerAdminRoutes(app: FastifyInstance): Promise<void> {
+  // Runtime stats of this instance
+  app.get(
+    '/admin/stats',
+    {
+      schema: {
+        tags: ['Internal - Admin'],
+        summary: '[Internal] Get runtime stats',
+        description:
+          'Batcher queues and stream subscribers of the instance that answers the request; ' +
+          'with several instances each one reports its own. Requires an admin user (ADMIN_USER_IDS).',
+        response: {
+          200: zodToJsonSchemaFastify(statsResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      await requireAdmin(request, reply);
+
+      reply.send({
+        batcher: locationBatcher.getStats(),
+        bus: {
+          adapter: locationBus.adapterName,
+          groupsWithSubscribers: locationBus.getGroupsWithSubscribers().map((groupId) => ({
+            groupId,
+            subscribers: locationBus.getSubscriberCount(groupId),
+          })),
+        },
+      });
+    }
+  );
+
+  // Retention settings and recent maintenance runs (of every instance)
+  app.get(
+    '/admin/maintenance',
+    {
+      schema: {
+        tags: ['Internal - Admin'],
+        summary: '[Internal] Get data retention settings and maintenance runs',
+        description:
+          'The global location retention (LOCATION_RETENTION_DAYS), groups that override it and the ' +
+          'last 20 maintenance runs with what each one deleted. Requires an admin user (ADMIN_USER_IDS).',
+        response: {
+          200: zodToJsonSchemaFastify(maintenanceResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      await requireAdmin(request, reply);
+
+      const [overrides, runs] = await Promise.all([
+        db.groups.findMany({
+          where: { location_retention_days: { not: null } },
+          select: { id: true, location_retention_days: true },
+          orderBy: { created_at: 'asc' },
+        }),
+        db.maintenance_runs.findMany({
+          orderBy: { started_at: 'desc' },
+          take: 20,
+        }),
+      ]);
+
+      reply.send({
+        locationRetentionDays: env.LOCATION_RETENTION_DAYS ?? null,
+        intervalMs: env.MAINTENANCE_INTERVAL_MS,
+        groupOverrides: overrides.map((group) => ({
+          groupId: group.id,
+          locationRetentionDays: group.location_retention_days as number,
+        })),
+        runs: runs.map(toMaintenanceRunResponse),
+      });
+    }
+  );
+
+  // Run maintenance now instead of waiting for the schedule
+  app.post(
+    '/admin/maintenance/run',
+    {
+      schema: {
+        tags: ['Internal - Admin'],
+        summary: '[Internal] Run maintenance now',
+        description:
+          'Purges locations past their retention and expired anonymous sessions, share links and ' +
+          'invitations, then returns what was deleted. Joins a run already in progress on this instance. ' +
+          'Requires an admin user (ADMIN_USER_IDS).',
+        response: {
+          200: zodToJsonSchemaFastify(maintenanceReport),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      await requireAdmin(request, reply);
+
+      reply.send(await maintenanceScheduler.run('manual'));
+    }
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import { buildApp } from '../../app.js';
+
+describe('API key rotation route', () => {
+  let fastify: ReturnType<typeof Fastify>;
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await buildApp(fastify);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('should accept a rotate request without a body', async () => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/internal/api-keys/key-1/rotate',
+    });
+
+    // Passes validation and stops at authentication
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should still validate a body when one is sent', async () => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/internal/api-keys/key-1/rotate',
+      payload: { gracePeriodSeconds: -1 },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -1,8 +1,20 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { prisma as db } from '../../db.js';
-import { createApiKey } from '../../services/api-keys.js';
+import { env } from '../../config/env.js';
+import { apiKeyUsage, resolveApiKeyLimits, usageDay } from '../../services/api-key-usage.js';
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  rotateApiKey,
+  type ApiKeyScope,
+} from '../../services/api-keys.js';
 import { requireAuth } from '../../utils/auth.js';
+import {
+  groupsWithPermission,
+  hasGroupPermission,
+  requireGroupPermission,
+} from '../../utils/group-permissions.js';
 import { findOrCreateUser } from '../../utils/user-helpers.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
@@ -12,8 +24,94 @@ const apiKeyResponse = z.object({
   createdAt: z.string(),
   lastUsedAt: z.string().nullable(),
   groupId: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  deviceIds: z.array(z.string()),
+  expiresAt: z.string().nullable(),
+  rotatedFromId: z.string().nullable(),
+  rateLimitMax: z.number().int().nullable(),
+  dailyRequestQuota: z.number().int().nullable(),
 });
 
+// Limits set on a key override its group's; null falls back to the group (or server default)
+const rateLimitMax = z.number().int().min(1).max(100000).nullable();
+const dailyRequestQuota = z.number().int().min(1).nullable();
+
+const usageQuery = z.object({
+  from: z.string().date().optional(),
+  to: z.string().date().optional(),
+});
+
+type ApiKeyRow = {
+  id: string;
+  label: string;
+  created_at: Date;
+  last_used_at: Date | null;
+  group_id: string;
+  scopes: string[];
+  device_ids: string[];
+  expires_at: Date | null;
+  rotated_from_id: string | null;
+  rate_limit_max: number | null;
+  daily_request_quota: number | null;
+};
+
+function toApiKeyResponse(row: ApiKeyRow) {
+  return {
+    id: row.id,
+    label: row.label,
+    createdAt: row.created_at.toISOString(),
+    lastUsedAt: row.last_used_at?.toISOString() ?? null,
+    groupId: row.group_id,
+    scopes: row.scopes,
+    deviceIds: row.device_ids,
+    expiresAt: row.expires_at?.toISOString() ?? null,
+    rotatedFromId: row.rotated_from_id,
+    rateLimitMax: row.rate_limit_max,
+    dailyRequestQuota: row.daily_request_quota,
+  };
+}
+
+/**
+ * Load an API key and verify the authenticated user manages the API keys of its group
+ * Sends 404/403 and throws when the key is missing or out of their reach
+ */
+async function requireOwnedApiKey(request: FastifyRequest, reply: FastifyReply, keyId: string) {
+  const auth = await requireAuth(request, reply);
+  const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+  const apiKey = await db.api_keys.findFirst({
+    where: { id: keyId, revoked_at: null },
+    include: { groups: true },
+  });
+
+  if (!apiKey) {
+    reply.code(404);
+    throw new Error('API key not found');
+  }
+
+  if (!(await hasGroupPermission(apiKey.group_id, user.id, 'api-keys:manage'))) {
+    reply.code(403);
+    throw new Error('You do not have permission to manage this API key');
+  }
+
+  return apiKey;
+}
+
+/**
+ * Parse an optional expiresAt body field, which must lie in the future
+ * Sends 400 and throws otherwise
+ */
+function parseExpiresAt(reply: FastifyReply, value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (date <= new Date()) {
+    reply.code(400);
+    throw new Error('expiresAt must be in the future');
+  }
+  return date;
+}
+
 /**
  * Internal routes for API key management
  * These are only accessible to authenticated users via Auth0 (your Next.js frontend)
@@ -27,11 +125,21 @@ export async function registerInternalApiKeyRoutes(app: FastifyInstance): Promis
       schema: {
         tags: ['Internal - API Keys'],
         summary: '[Internal] Issue a new API key for a group',
-        description: 'Internal endpoint for creating API keys. Requires Auth0 authentication.',
+        description:
+          'Internal endpoint for creating API keys. Scopes default to all of ' +
+          `${API_KEY_SCOPES.join(', ')}; deviceIds restricts the key to those devices, ` +
+          'and expiresAt makes it stop working after that time. rateLimitMax (requests per rate limit window) ' +
+          "and dailyRequestQuota override the group's limits for this key. " +
+          'Requires Auth0 authentication.',
         body: zodToJsonSchemaFastify(
           z.object({
             groupId: z.string().min(4),
             label: z.string().min(3),
+            scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).optional(),
+            deviceIds: z.array(z.string().min(3).max(128)).max(100).optional(),
+            expiresAt: z.string().datetime().optional(),
+            rateLimitMax: rateLimitMax.optional(),
+            dailyRequestQuota: dailyRequestQuota.optional(),
           })
         ),
         response: {
@@ -43,35 +151,36 @@ export async function registerInternalApiKeyRoutes(app: FastifyInstance): Promis
     async (request: FastifyRequest, reply: FastifyReply) => {
       // Verify Auth0 access token and get user's sub
       const auth = await requireAuth(request, reply);
-      const body = request.body as { groupId: string; label: string };
+      const body = request.body as {
+        groupId: string;
+        label: string;
+        scopes?: ApiKeyScope[];
+        deviceIds?: string[];
+        expiresAt?: string;
+        rateLimitMax?: number | null;
+        dailyRequestQuota?: number | null;
+      };
 
       // auth.sub is guaranteed to exist from requireAuth
       const userId = auth.sub;
 
       // Find or create user in database using the sub from token
       const user = await findOrCreateUser(userId, auth.email, auth.name);
+      const expiresAt = parseExpiresAt(reply, body.expiresAt);
 
-      // Upsert group - create if it doesn't exist, otherwise verify ownership
-      let group = await db.groups.findFirst({
-        where: {
-          id: body.groupId,
-          owner_id: user.id, // Use the user ID (which is the Auth0 sub)
-        },
+      // Upsert group - create if it doesn't exist, otherwise verify the user manages its keys
+      let group = await db.groups.findUnique({
+        where: { id: body.groupId },
       });
 
-      if (!group) {
-        // Check if group exists but is owned by someone else
-        const existingGroup = await db.groups.findUnique({
-          where: { id: body.groupId },
-        });
-
-        if (existingGroup) {
-          reply.code(403);
-          throw new Error(
-            'Group exists but you do not have permission to create API keys for this group'
-          );
-        }
+      if (group && !(await hasGroupPermission(group.id, user.id, 'api-keys:manage'))) {
+        reply.code(403);
+        throw new Error(
+          'Group exists but you do not have permission to create API keys for this group'
+        );
+      }
 
+      if (!group) {
         // Create the group if it doesn't exist
         group = await db.groups.create({
           data: {
@@ -83,7 +192,13 @@ export async function registerInternalApiKeyRoutes(app: FastifyInstance): Promis
       }
 
       // Issue API key for the user (identified by their Auth0 sub)
-      const apiKey = await createApiKey(group.id, body.label, user.id);
+      const apiKey = await createApiKey(group.id, body.label, user.id, {
+        scopes: body.scopes && [...new Set(body.scopes)],
+        deviceIds: body.deviceIds && [...new Set(body.deviceIds)],
+        expiresAt,
+        rateLimitMax: body.rateLimitMax ?? undefined,
+        dailyRequestQuota: body.dailyRequestQuota ?? undefined,
+      });
       reply.code(201).send({ apiKey });
     }
   );
@@ -120,24 +235,13 @@ export async function registerInternalApiKeyRoutes(app: FastifyInstance): Promis
 
       const where: { group_id?: string; revoked_at: null } = { revoked_at: null };
       if (groupId) {
-        // Verify user owns the group (using sub from token)
-        const group = await db.groups.findFirst({
-          where: {
-            id: groupId,
-            owner_id: user.id, // Use the user ID (which is the Auth0 sub)
-          },
-        });
-
-        if (!group) {
-          reply.code(404);
-          throw new Error('Group not found');
-        }
+        await requireGroupPermission(reply, groupId, user.id, 'api-keys:manage');
 
         where.group_id = groupId;
       } else {
-        // Get all groups owned by user (using sub from token), then get their API keys
+        // Get all groups whose API keys the user manages, then get their API keys
         const userGroups = await db.groups.findMany({
-          where: { owner_id: user.id }, // Use the user ID (which is the Auth0 sub)
+          where: groupsWithPermission(user.id, 'api-keys:manage'),
           select: { id: true },
         });
 
@@ -154,44 +258,205 @@ export async function registerInternalApiKeyRoutes(app: FastifyInstance): Promis
           },
         });
 
-        reply.send({
-          items: rows.map(
-            (row: {
-              id: string;
-              label: string;
-              created_at: Date;
-              last_used_at: Date | null;
-              group_id: string;
-            }) => ({
-              id: row.id,
-              label: row.label,
-              createdAt: row.created_at.toISOString(),
-              lastUsedAt: row.last_used_at?.toISOString() ?? null,
-              groupId: row.group_id,
-            })
-          ),
-        });
+        reply.send({ items: rows.map(toApiKeyResponse) });
         return;
       }
 
       const rows = await db.api_keys.findMany({ where });
 
-      reply.send({
-        items: rows.map(
-          (row: {
-            id: string;
-            label: string;
-            created_at: Date;
-            last_used_at: Date | null;
-            group_id: string;
-          }) => ({
-            id: row.id,
-            label: row.label,
-            createdAt: row.created_at.toISOString(),
-            lastUsedAt: row.last_used_at?.toISOString() ?? null,
-            groupId: row.group_id,
+      reply.send({ items: rows.map(toApiKeyResponse) });
+    }
+  );
+
+  // Rotate API key
+  app.post(
+    '/api-keys/:keyId/rotate',
+    {
+      schema: {
+        tags: ['Internal - API Keys'],
+        summary: '[Internal] Rotate an API key',
+        description:
+          'Issues a successor key with the same group, label, scopes and device allow-list, and moves the ' +
+          'webhooks of the old key to it. The old key keeps working for gracePeriodSeconds ' +
+          `(defaults to ${env.API_KEY_ROTATION_GRACE_SECONDS}) so integrations can switch without downtime. ` +
+          'Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        body: zodToJsonSchemaFastify(
+          z
+            .object({
+              gracePeriodSeconds: z
+                .number()
+                .int()
+                .min(0)
+                .max(30 * 24 * 60 * 60)
+                .optional(),
+              expiresAt: z.string().datetime().optional(),
+            })
+            // Every field is optional, so the body may be left out
+            .nullable()
+        ),
+        response: {
+          201: zodToJsonSchemaFastify(
+            z.object({
+              apiKey: z.string(),
+              id: z.string(),
+              previousKeyExpiresAt: z.string(),
+            })
+          ),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const body = (request.body ?? {}) as { gracePeriodSeconds?: number; expiresAt?: string };
+
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+      const expiresAt = parseExpiresAt(reply, body.expiresAt);
+
+      if (apiKey.expires_at && apiKey.expires_at <= new Date()) {
+        reply.code(409);
+        throw new Error('API key has expired');
+      }
+
+      const successor = await db.api_keys.findUnique({
+        where: { rotated_from_id: keyId },
+        select: { id: true },
+      });
+      if (successor) {
+        reply.code(409);
+        throw new Error('API key has already been rotated');
+      }
+
+      const rotated = await rotateApiKey(keyId, {
+        gracePeriodSeconds: body.gracePeriodSeconds ?? env.API_KEY_ROTATION_GRACE_SECONDS,
+        expiresAt,
+      });
+
+      reply.code(201).send({
+        apiKey: rotated.apiKey,
+        id: rotated.id,
+        previousKeyExpiresAt: rotated.previousExpiresAt.toISOString(),
+      });
+    }
+  );
+
+  // Update API key label and limits
+  app.patch(
+    '/api-keys/:keyId',
+    {
+      schema: {
+        tags: ['Internal - API Keys'],
+        summary: '[Internal] Update an API key',
+        description:
+          'Change the label, rate limit (requests per rate limit window) or daily request quota of an API key. ' +
+          "Set a limit to null to fall back to the group's limit. Requires Auth0 authentication.",
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        body: zodToJsonSchemaFastify(
+          z.object({
+            label: z.string().min(3).optional(),
+            rateLimitMax: rateLimitMax.optional(),
+            dailyRequestQuota: dailyRequestQuota.optional(),
           })
         ),
+        response: {
+          200: zodToJsonSchemaFastify(apiKeyResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const body = request.body as {
+        label?: string;
+        rateLimitMax?: number | null;
+        dailyRequestQuota?: number | null;
+      };
+
+      await requireOwnedApiKey(request, reply, keyId);
+
+      const updated = await db.api_keys.update({
+        where: { id: keyId },
+        data: {
+          ...(body.label && { label: body.label }),
+          ...(body.rateLimitMax !== undefined && { rate_limit_max: body.rateLimitMax }),
+          ...(body.dailyRequestQuota !== undefined && {
+            daily_request_quota: body.dailyRequestQuota,
+          }),
+        },
+      });
+      apiKeyUsage.invalidateLimits(keyId);
+
+      reply.send(toApiKeyResponse(updated));
+    }
+  );
+
+  // Daily usage of an API key
+  app.get(
+    '/api-keys/:keyId/usage',
+    {
+      schema: {
+        tags: ['Internal - API Keys'],
+        summary: '[Internal] Get daily usage of an API key',
+        description:
+          'Returns requests, stream minutes and locations delivered per UTC day (days without usage are omitted), ' +
+          'together with the limits in effect for the key. Defaults to the last 30 days. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        querystring: zodToJsonSchemaFastify(usageQuery),
+        response: {
+          200: zodToJsonSchemaFastify(
+            z.object({
+              keyId: z.string(),
+              limits: z.object({
+                rateLimitMax: z.number().int(),
+                dailyRequestQuota: z.number().int().nullable(),
+              }),
+              items: z.array(
+                z.object({
+                  date: z.string(),
+                  requests: z.number().int(),
+                  streamMinutes: z.number(),
+                  locationsDelivered: z.number().int(),
+                })
+              ),
+            })
+          ),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const query = usageQuery.parse(request.query);
+
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+
+      const to = query.to ? new Date(query.to) : usageDay();
+      const from = query.from
+        ? new Date(query.from)
+        : new Date(to.getTime() - 29 * 24 * 60 * 60 * 1000);
+      if (from > to) {
+        reply.code(400);
+        throw new Error('from must not be after to');
+      }
+
+      // Include counters this instance has not written yet
+      await apiKeyUsage.flush();
+
+      const rows = await db.api_key_usage.findMany({
+        where: { api_key_id: keyId, day: { gte: from, lte: to } },
+        orderBy: { day: 'asc' },
+      });
+
+      reply.send({
+        keyId,
+        limits: resolveApiKeyLimits(apiKey, apiKey.groups),
+        items: rows.map((row) => ({
+          date: row.day.toISOString().slice(0, 10),
+          requests: row.requests,
+          streamMinutes: Math.round((row.stream_seconds / 60) * 10) / 10,
+          locationsDelivered: row.locations_delivered,
+        })),
       });
     }
   );
@@ -238,15 +503,15 @@ export async function registerInternalApiKeyRoutes(app: FastifyInstance): Promis
         }
 
         request.log.info(
-          { keyId, groupOwnerId: apiKey.groups.owner_id, userId: user.id },
-          'Checking API key ownership'
+          { keyId, groupId: apiKey.group_id, userId: user.id },
+          'Checking API key permission'
         );
 
-        // Verify user owns the group (using sub from token)
-        if (apiKey.groups.owner_id !== user.id) {
+        // Verify user manages the API keys of the group
+        if (!(await hasGroupPermission(apiKey.group_id, user.id, 'api-keys:manage'))) {
           request.log.warn(
-            { keyId, groupOwnerId: apiKey.groups.owner_id, userId: user.id },
-            'Permission denied: user does not own the group'
+            { keyId, groupId: apiKey.group_id, userId: user.id },
+            'Permission denied: user does not manage the API keys of the group'
           );
           reply.code(403);
           throw new Error('You do not have permission to revoke this API key');
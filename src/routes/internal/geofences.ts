@@ -0,0 +1,357 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma as db } from '../../db.js';
+import { GEOFENCE_SHAPES, type GeofenceShape } from '../../services/geofences.js';
+import { requireAuth } from '../../utils/auth.js';
+import type { Position } from '../../utils/geo.js';
+import { requireGroupPermission, type GroupPermission } from '../../utils/group-permissions.js';
+import { findOrCreateUser } from '../../utils/user-helpers.js';
+import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
+
+const point = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+const geofenceResponse = z.object({
+  id: z.string(),
+  groupId: z.string(),
+  name: z.string(),
+  shape: z.enum(GEOFENCE_SHAPES),
+  latitude: z.number().nullable(),
+  longitude: z.number().nullable(),
+  radiusMeters: z.number().nullable(),
+  polygon: z.array(point).nullable(),
+  dwellSeconds: z.number().nullable(),
+  active: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Geometry fields are flat and optional; which ones are required depends on `shape`
+// and is checked in the handler (see resolveGeometry)
+const createGeofenceBody = z.object({
+  name: z.string().min(1).max(100),
+  shape: z.enum(GEOFENCE_SHAPES),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  radiusMeters: z.number().min(1).max(100000).optional(),
+  polygon: z.array(point).min(3).max(500).optional(),
+  dwellSeconds: z.number().int().min(1).nullable().optional(),
+  active: z.boolean().default(true),
+});
+
+const updateGeofenceBody = createGeofenceBody.partial().extend({
+  active: z.boolean().optional(),
+});
+
+type GeofenceRow = {
+  id: string;
+  group_id: string;
+  name: string;
+  shape: string;
+  center_latitude: number | null;
+  center_longitude: number | null;
+  radius_meters: number | null;
+  polygon: string | null;
+  dwell_seconds: number | null;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+};
+
+function toGeofenceResponse(row: GeofenceRow): z.infer<typeof geofenceResponse> {
+  const ring = row.polygon ? (JSON.parse(row.polygon) as Position[]) : null;
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    name: row.name,
+    shape: row.shape as GeofenceShape,
+    latitude: row.center_latitude,
+    longitude: row.center_longitude,
+    radiusMeters: row.radius_meters,
+    polygon: ring?.map(([longitude, latitude]) => ({ latitude, longitude })) ?? null,
+    dwellSeconds: row.dwell_seconds,
+    active: row.active,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+type GeometryInput = {
+  shape: GeofenceShape;
+  latitude?: number | null;
+  longitude?: number | null;
+  radiusMeters?: number | null;
+  polygon?: z.infer<typeof point>[] | null;
+};
+
+/**
+ * Turn request geometry into geofence columns, clearing the fields of the other shape
+ * Sends 400 and throws when the fields required by the shape are missing
+ */
+function resolveGeometry(reply: FastifyReply, input: GeometryInput) {
+  if (input.shape === 'circle') {
+    if (input.latitude == null || input.longitude == null || input.radiusMeters == null) {
+      reply.code(400);
+      throw new Error('Circle geofences require latitude, longitude and radiusMeters');
+    }
+
+    return {
+      shape: input.shape,
+      center_latitude: input.latitude,
+      center_longitude: input.longitude,
+      radius_meters: input.radiusMeters,
+      polygon: null,
+    };
+  }
+
+  if (!input.polygon || input.polygon.length < 3) {
+    reply.code(400);
+    throw new Error('Polygon geofences require at least 3 points');
+  }
+
+  const ring: Position[] = input.polygon.map((p) => [p.longitude, p.latitude]);
+  return {
+    shape: input.shape,
+    center_latitude: null,
+    center_longitude: null,
+    radius_meters: null,
+    polygon: JSON.stringify(ring),
+  };
+}
+
+/**
+ * Load a group and check the caller's role allows the permission
+ * Viewing needs any role in the group; managing geofences needs owner or admin
+ */
+async function requireGroupRole(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  groupId: string,
+  permission: GroupPermission
+) {
+  const auth = await requireAuth(request, reply);
+  const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+  const { group } = await requireGroupPermission(reply, groupId, user.id, permission);
+  return group;
+}
+
+/**
+ * Internal routes for group geofences
+ * Locations submitted to a group are checked against its active geofences and
+ * geofence.enter / geofence.exit / geofence.dwell events are published to the
+ * group's stream and webhooks (see services/geofences.ts)
+ * These require Auth0 authentication
+ */
+export async function registerGeofenceRoutes(app: FastifyInstance): Promise<void> {
+  // Create a geofence
+  app.post(
+    '/groups/:groupId/geofences',
+    {
+      schema: {
+        tags: ['Internal - Geofences'],
+        summary: '[Internal] Create a geofence',
+        description:
+          'Create a circle (latitude, longitude, radiusMeters) or polygon (at least 3 points) geofence for a group. ' +
+          'Set dwellSeconds to also receive geofence.dwell events. Only owners and admins of the group can create geofences. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
+        body: zodToJsonSchemaFastify(createGeofenceBody),
+        response: {
+          201: zodToJsonSchemaFastify(geofenceResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { groupId } = request.params as { groupId: string };
+      const group = await requireGroupRole(request, reply, groupId, 'geofences:manage');
+      const body = createGeofenceBody.parse(request.body);
+
+      const geofence = await db.geofences.create({
+        data: {
+          group_id: group.id,
+          name: body.name,
+          ...resolveGeometry(reply, body),
+          dwell_seconds: body.dwellSeconds ?? null,
+          active: body.active,
+        },
+      });
+
+      reply.code(201).send(toGeofenceResponse(geofence));
+    }
+  );
+
+  // List geofences for a group
+  app.get(
+    '/groups/:groupId/geofences',
+    {
+      schema: {
+        tags: ['Internal - Geofences'],
+        summary: '[Internal] List geofences for a group',
+        description:
+          'List the geofences of a group. Available to every role in the group. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ items: z.array(geofenceResponse) })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { groupId } = request.params as { groupId: string };
+      const group = await requireGroupRole(request, reply, groupId, 'group:view');
+
+      const geofences = await db.geofences.findMany({
+        where: { group_id: group.id },
+        orderBy: { created_at: 'asc' },
+      });
+
+      reply.send({ items: geofences.map(toGeofenceResponse) });
+    }
+  );
+
+  // Get a single geofence
+  app.get(
+    '/groups/:groupId/geofences/:geofenceId',
+    {
+      schema: {
+        tags: ['Internal - Geofences'],
+        summary: '[Internal] Get a geofence',
+        description:
+          'Get a geofence of a group. Available to every role in the group. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), geofenceId: z.string().min(1) })
+        ),
+        response: {
+          200: zodToJsonSchemaFastify(geofenceResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { groupId, geofenceId } = request.params as { groupId: string; geofenceId: string };
+      const group = await requireGroupRole(request, reply, groupId, 'group:view');
+
+      const geofence = await db.geofences.findFirst({
+        where: { id: geofenceId, group_id: group.id },
+      });
+
+      if (!geofence) {
+        reply.code(404);
+        throw new Error('Geofence not found');
+      }
+
+      reply.send(toGeofenceResponse(geofence));
+    }
+  );
+
+  // Update a geofence
+  app.patch(
+    '/groups/:groupId/geofences/:geofenceId',
+    {
+      schema: {
+        tags: ['Internal - Geofences'],
+        summary: '[Internal] Update a geofence',
+        description:
+          'Change the name, geometry, dwell time or active flag of a geofence. ' +
+          'Changing the geometry resets the tracked inside/outside state of every device. Only owners and admins of the group can update geofences. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), geofenceId: z.string().min(1) })
+        ),
+        body: zodToJsonSchemaFastify(updateGeofenceBody),
+        response: {
+          200: zodToJsonSchemaFastify(geofenceResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { groupId, geofenceId } = request.params as { groupId: string; geofenceId: string };
+      const group = await requireGroupRole(request, reply, groupId, 'geofences:manage');
+      const body = updateGeofenceBody.parse(request.body);
+
+      const geofence = await db.geofences.findFirst({
+        where: { id: geofenceId, group_id: group.id },
+      });
+
+      if (!geofence) {
+        reply.code(404);
+        throw new Error('Geofence not found');
+      }
+
+      const geometryChanged =
+        body.shape !== undefined ||
+        body.latitude !== undefined ||
+        body.longitude !== undefined ||
+        body.radiusMeters !== undefined ||
+        body.polygon !== undefined;
+
+      // Unspecified geometry fields keep their stored values
+      const current = toGeofenceResponse(geofence);
+      const geometry = geometryChanged
+        ? resolveGeometry(reply, {
+            shape: body.shape ?? current.shape,
+            latitude: body.latitude ?? current.latitude,
+            longitude: body.longitude ?? current.longitude,
+            radiusMeters: body.radiusMeters ?? current.radiusMeters,
+            polygon: body.polygon ?? current.polygon,
+          })
+        : {};
+
+      const updated = await db.$transaction(async (tx) => {
+        if (geometryChanged) {
+          await tx.geofence_device_states.deleteMany({ where: { geofence_id: geofence.id } });
+        }
+
+        return tx.geofences.update({
+          where: { id: geofence.id },
+          data: {
+            ...(body.name !== undefined && { name: body.name }),
+            ...geometry,
+            ...(body.dwellSeconds !== undefined && { dwell_seconds: body.dwellSeconds }),
+            ...(body.active !== undefined && { active: body.active }),
+          },
+        });
+      });
+
+      reply.send(toGeofenceResponse(updated));
+    }
+  );
+
+  // Delete a geofence
+  app.delete(
+    '/groups/:groupId/geofences/:geofenceId',
+    {
+      schema: {
+        tags: ['Internal - Geofences'],
+        summary: '[Internal] Delete a geofence',
+        description:
+          'Delete a geofence and its tracked device state. Only owners and admins of the group can delete geofences. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), geofenceId: z.string().min(1) })
+        ),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ success: z.boolean() })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { groupId, geofenceId } = request.params as { groupId: string; geofenceId: string };
+      const group = await requireGroupRole(request, reply, groupId, 'geofences:manage');
+
+      const result = await db.geofences.deleteMany({
+        where: { id: geofenceId, group_id: group.id },
+      });
+
+      if (result.count === 0) {
+        reply.code(404);
+        throw new Error('Geofence not found');
+      }
+
+      reply.send({ success: true });
+    }
+  );
+}
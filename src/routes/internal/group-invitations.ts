@@ -1,8 +1,20 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
-import { nanoid } from 'nanoid';
 import { z } from 'zod';
+import { env } from '../../config/env.js';
 import { prisma as db } from '../../db.js';
+import {
+  sendInvitationAcceptedEmail,
+  sendInvitationEmail,
+} from '../../services/invitation-emails.js';
+import {
+  INVITATION_STATUSES,
+  answerInvitation,
+  inviteToGroup,
+  type InvitationStatus,
+} from '../../services/memberships.js';
 import { requireAuth } from '../../utils/auth.js';
+import { requireGroupPermission } from '../../utils/group-permissions.js';
+import { verifyInvitationToken } from '../../utils/invitation-links.js';
 import { findOrCreateUser } from '../../utils/user-helpers.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
@@ -34,7 +46,7 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         tags: ['Internal - Group Invitations'],
         summary: '[Internal] Create a group invitation',
         description:
-          'Invite a user to join a group. This creates an INVITATION (owner → user) that the user can accept. This is different from a join request (user → owner). Requires Auth0 authentication.',
+          'Invite a user to join a group. This creates an INVITATION (owner → user) that the user can accept, and emails it with a signed accept link. This is different from a join request (user → owner). Requires Auth0 authentication.',
         params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
         body: zodToJsonSchemaFastify(
           z.object({
@@ -58,18 +70,7 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
       // Find or create user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify group exists and user is owner
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: user.id,
-        },
-      });
-
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found or you are not the owner');
-      }
+      await requireGroupPermission(reply, groupId, user.id, 'members:manage');
 
       // Verify target user exists
       const targetUser = await db.users.findUnique({
@@ -96,18 +97,14 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         throw new Error('Invitation already exists and is pending');
       }
 
-      // Create invitation
-      const invitation = await db.group_invitations.create({
-        data: {
-          id: nanoid(),
-          group_id: groupId,
-          user_id: body.userId,
-          invited_by: user.id,
-          status: 'pending',
-          expires_at: body.expiresAt,
-          updated_at: new Date(),
-        },
+      // Create invitation; fails with 409 when the user is a member already
+      const invitation = await inviteToGroup({
+        groupId,
+        userId: body.userId,
+        invitedBy: user.id,
+        expiresAt: body.expiresAt,
       });
+      void sendInvitationEmail(invitation.id);
 
       reply.code(201).send({
         id: invitation.id,
@@ -136,7 +133,7 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
         querystring: zodToJsonSchemaFastify(
           z.object({
-            status: z.enum(['pending', 'accepted', 'rejected']).optional(),
+            status: z.enum(INVITATION_STATUSES).optional(),
           })
         ),
         response: {
@@ -148,27 +145,16 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
     async (request: FastifyRequest, reply: FastifyReply) => {
       const auth = await requireAuth(request, reply);
       const { groupId } = request.params as { groupId: string };
-      const query = request.query as { status?: string };
+      const query = request.query as { status?: InvitationStatus };
 
       const userId = auth.sub;
 
       // Find or create user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify group exists and user is owner
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: user.id,
-        },
-      });
+      await requireGroupPermission(reply, groupId, user.id, 'members:manage');
 
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found or you are not the owner');
-      }
-
-      const where: { group_id: string; status?: string } = {
+      const where: { group_id: string; status?: InvitationStatus } = {
         group_id: groupId,
       };
 
@@ -209,7 +195,7 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
           'List all INVITATIONS for the authenticated user (owner → user). These are invitations sent by group owners to the user. This is different from join requests (user → owner). Requires Auth0 authentication.',
         querystring: zodToJsonSchemaFastify(
           z.object({
-            status: z.enum(['pending', 'accepted', 'rejected']).optional(),
+            status: z.enum(INVITATION_STATUSES).optional(),
           })
         ),
         response: {
@@ -220,14 +206,14 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const auth = await requireAuth(request, reply);
-      const query = request.query as { status?: string };
+      const query = request.query as { status?: InvitationStatus };
 
       const userId = auth.sub;
 
       // Find or create user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
-      const where: { user_id: string; status?: string } = {
+      const where: { user_id: string; status?: InvitationStatus } = {
         user_id: user.id,
       };
 
@@ -265,8 +251,9 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         tags: ['Internal - Group Invitations'],
         summary: '[Internal] Accept a group invitation',
         description:
-          'Accept a group INVITATION (owner → user). This accepts an invitation sent by a group owner. Requires Auth0 authentication.',
+          'Accept a group INVITATION (owner → user). This accepts an invitation sent by a group owner. Pass the token from the accept link in an invitation email to have it checked; a link that was tampered with, replaced by a newer invitation or is past its expiry fails with 400. The inviter is emailed once the invitation is accepted. Requires Auth0 authentication.',
         params: zodToJsonSchemaFastify(z.object({ invitationId: z.string().min(4) })),
+        querystring: zodToJsonSchemaFastify(z.object({ token: z.string().min(1).optional() })),
         response: {
           200: zodToJsonSchemaFastify(invitationResponse),
         },
@@ -276,6 +263,7 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
     async (request: FastifyRequest, reply: FastifyReply) => {
       const auth = await requireAuth(request, reply);
       const { invitationId } = request.params as { invitationId: string };
+      const query = request.query as { token?: string };
 
       const userId = auth.sub;
 
@@ -298,6 +286,17 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         throw new Error('This invitation does not belong to you');
       }
 
+      if (
+        query.token !== undefined &&
+        !(
+          env.INVITATION_LINK_SECRET &&
+          verifyInvitationToken(invitation.id, query.token, env.INVITATION_LINK_SECRET)
+        )
+      ) {
+        reply.code(400);
+        throw new Error('Invalid or expired invitation link');
+      }
+
       // Check if already accepted/rejected
       if (invitation.status !== 'pending') {
         reply.code(400);
@@ -310,33 +309,9 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         throw new Error('Invitation has expired');
       }
 
-      // Update invitation
-      const updated = await db.group_invitations.update({
-        where: { id: invitationId },
-        data: {
-          status: 'accepted',
-          accepted_at: new Date(),
-          updated_at: new Date(),
-        },
-      });
-
-      // Create group membership
-      await db.group_members.upsert({
-        where: {
-          group_id_user_id: {
-            group_id: invitation.group_id,
-            user_id: user.id,
-          },
-        },
-        create: {
-          group_id: invitation.group_id,
-          user_id: user.id,
-          status: 'active',
-        },
-        update: {
-          status: 'active',
-        },
-      });
+      // Update invitation and make the user an active member
+      const updated = await answerInvitation(invitation, 'accepted');
+      void sendInvitationAcceptedEmail(updated.id);
 
       reply.send({
         id: updated.id,
@@ -400,15 +375,8 @@ export async function registerGroupInvitationRoutes(app: FastifyInstance): Promi
         throw new Error(`Invitation has already been ${invitation.status}`);
       }
 
-      // Update invitation
-      const updated = await db.group_invitations.update({
-        where: { id: invitationId },
-        data: {
-          status: 'rejected',
-          rejected_at: new Date(),
-          updated_at: new Date(),
-        },
-      });
+      // Update invitation; the membership moves from invited to left
+      const updated = await answerInvitation(invitation, 'rejected');
 
       reply.send({
         id: updated.id,
@@ -1,8 +1,35 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
-import { nanoid } from 'nanoid';
 import { z } from 'zod';
 import { prisma as db } from '../../db.js';
+import { apiKeyUsage } from '../../services/api-key-usage.js';
+import {
+  GROUP_DELIVERY_POLICIES,
+  type GroupDeliveryPolicy,
+} from '../../services/location-delivery.js';
+import { sendInvitationEmail } from '../../services/invitation-emails.js';
+import {
+  LOCATION_QUALITY_ACTIONS,
+  toLocationQualityPolicy,
+  type LocationQualityAction,
+} from '../../services/location-quality.js';
+import {
+  MEMBERSHIP_STATUSES,
+  checkMemberRevocation,
+  inviteToGroup,
+  revokeMembership,
+  transitionMembership,
+  type MembershipStatus,
+} from '../../services/memberships.js';
+import { applyOwnershipTransfer, findSuccessor } from '../../services/ownership-transfers.js';
 import { requireAuth } from '../../utils/auth.js';
+import {
+  ASSIGNABLE_GROUP_ROLES,
+  GROUP_ROLES,
+  groupsWithPermission,
+  requireGroupPermission,
+  type AssignableGroupRole,
+  type GroupRole,
+} from '../../utils/group-permissions.js';
 import { findOrCreateUser } from '../../utils/user-helpers.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
@@ -11,10 +38,110 @@ const groupResponse = z.object({
   name: z.string(),
   description: z.string().nullable(),
   apiBaseUrl: z.string().nullable(),
+  apiRateLimitMax: z.number().int().nullable(),
+  apiDailyRequestQuota: z.number().int().nullable(),
+  deliveryPolicy: z.enum(GROUP_DELIVERY_POLICIES),
+  qualityPolicy: z.object({
+    action: z.enum(LOCATION_QUALITY_ACTIONS),
+    maxSpeedMps: z.number().nullable(),
+    maxAccuracyMeters: z.number().nullable(),
+    maxFutureSeconds: z.number().int().nullable(),
+    maxAgeSeconds: z.number().int().nullable(),
+  }),
+  locationRetentionDays: z.number().int().nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
+type GroupRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  api_base_url: string | null;
+  api_rate_limit_max: number | null;
+  api_daily_request_quota: number | null;
+  delivery_policy: string;
+  quality_action: string;
+  quality_max_speed_mps: number | null;
+  quality_max_accuracy_m: number | null;
+  quality_max_future_seconds: number | null;
+  quality_max_age_seconds: number | null;
+  location_retention_days: number | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+function toGroupResponse(group: GroupRow): z.infer<typeof groupResponse> {
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description ?? null,
+    apiBaseUrl: group.api_base_url ?? null,
+    apiRateLimitMax: group.api_rate_limit_max,
+    apiDailyRequestQuota: group.api_daily_request_quota,
+    deliveryPolicy: group.delivery_policy as GroupDeliveryPolicy,
+    qualityPolicy: toLocationQualityPolicy(group),
+    locationRetentionDays: group.location_retention_days,
+    createdAt: group.created_at.toISOString(),
+    updatedAt: group.updated_at.toISOString(),
+  };
+}
+
+const memberResponse = z.object({
+  userId: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  role: z.enum(GROUP_ROLES),
+  status: z.enum(['active', 'suspended']),
+  joinedAt: z.string(),
+});
+
+type MemberRow = {
+  user_id: string;
+  role: string;
+  status: MembershipStatus;
+  created_at: Date;
+  users: { email: string; name: string | null };
+};
+
+function toMemberResponse(member: MemberRow, ownerId: string): z.infer<typeof memberResponse> {
+  return {
+    userId: member.user_id,
+    email: member.users.email,
+    name: member.users.name ?? null,
+    role: (member.user_id === ownerId ? 'owner' : member.role) as GroupRole,
+    status: member.status as z.infer<typeof memberResponse>['status'],
+    joinedAt: member.created_at.toISOString(),
+  };
+}
+
+/**
+ * Check that a user may suspend or remove another member of a group
+ * Owners and admins manage members, but only the owner manages admins and nobody can
+ * remove or suspend the owner. Sends 400/403/404/409 and throws otherwise.
+ * @returns The target's membership
+ */
+async function requireManageableMember(
+  reply: FastifyReply,
+  groupId: string,
+  userId: string,
+  targetUserId: string
+) {
+  const { group, role } = await requireGroupPermission(reply, groupId, userId, 'members:manage');
+
+  const membership = await db.group_members.findUnique({
+    where: { group_id_user_id: { group_id: groupId, user_id: targetUserId } },
+  });
+
+  const check = checkMemberRevocation({ userId, role }, targetUserId, membership, group.owner_id);
+  if (!check.allowed) {
+    reply.code(check.statusCode);
+    throw new Error(check.message);
+  }
+
+  return check.membership;
+}
+
 /**
  * Internal routes for group management
  * These are only accessible to authenticated users via Auth0 (your Next.js frontend)
@@ -62,25 +189,20 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         },
       });
 
-      reply.code(201).send({
-        id: record.id,
-        name: record.name,
-        description: record.description ?? null,
-        apiBaseUrl: record.api_base_url ?? null,
-        createdAt: record.created_at.toISOString(),
-        updatedAt: record.updated_at.toISOString(),
-      });
+      reply.code(201).send(toGroupResponse(record));
     }
   );
 
-  // List groups owned by user
+  // List groups the user manages
   app.get(
     '/groups',
     {
       schema: {
         tags: ['Internal - Groups'],
-        summary: '[Internal] List groups you own',
-        description: 'Internal endpoint for listing groups. Requires Auth0 authentication.',
+        summary: '[Internal] List groups you own or administer',
+        description:
+          'Internal endpoint for listing the groups whose settings you can change: those you own and those ' +
+          'where you are an admin. Requires Auth0 authentication.',
         response: {
           200: zodToJsonSchemaFastify(z.object({ items: z.array(groupResponse) })),
         },
@@ -98,18 +220,11 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
       const rows = await db.groups.findMany({
-        where: { owner_id: user.id }, // Use the user ID (which is the Auth0 sub)
+        where: groupsWithPermission(user.id, 'group:update'),
       });
 
       reply.send({
-        items: rows.map((row) => ({
-          id: row.id,
-          name: row.name,
-          description: row.description ?? null,
-          apiBaseUrl: row.api_base_url ?? null,
-          createdAt: row.created_at.toISOString(),
-          updatedAt: row.updated_at.toISOString(),
-        })),
+        items: rows.map(toGroupResponse),
       });
     }
   );
@@ -121,7 +236,9 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       schema: {
         tags: ['Internal - Groups'],
         summary: '[Internal] Get a group by ID',
-        description: 'Internal endpoint for getting group details. Requires Auth0 authentication.',
+        description:
+          'Internal endpoint for getting group details. Available to every role in the group. ' +
+          'Requires Auth0 authentication.',
         params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
         response: {
           200: zodToJsonSchemaFastify(groupResponse),
@@ -132,35 +249,10 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
     async (request: FastifyRequest, reply: FastifyReply) => {
       const auth = await requireAuth(request, reply);
       const { groupId } = request.params as { groupId: string };
-      const ownerId = auth.sub ?? 'anonymous';
 
-      // Find user
-      let user = await db.users.findFirst({
-        where: {
-          OR: [{ email: auth.email as string }, { id: ownerId }],
-        },
-      });
-
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: user?.id ?? ownerId,
-        },
-      });
+      const { group } = await requireGroupPermission(reply, groupId, auth.sub, 'group:view');
 
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found');
-      }
-
-      reply.send({
-        id: group.id,
-        name: group.name,
-        description: group.description ?? null,
-        apiBaseUrl: group.api_base_url ?? null,
-        createdAt: group.created_at.toISOString(),
-        updatedAt: group.updated_at.toISOString(),
-      });
+      reply.send(toGroupResponse(group));
     }
   );
 
@@ -171,13 +263,36 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       schema: {
         tags: ['Internal - Groups'],
         summary: '[Internal] Update a group',
-        description: 'Internal endpoint for updating groups. Requires Auth0 authentication.',
+        description:
+          'Internal endpoint for updating groups. apiRateLimitMax (requests per rate limit window) and ' +
+          'apiDailyRequestQuota apply to every API key of the group that does not set its own; null removes them. ' +
+          'deliveryPolicy controls how locations reach the group: realtime (immediate pushes, at most one per share ' +
+          'frequency), batched (only the batched schedule) or both. qualityPolicy checks each submitted location ' +
+          'against the previous fix of the device (implied speed), its accuracy and its recordedAt (future or stale); ' +
+          'action decides what happens to a location failing a check: off, flag (stored and published, marked in ' +
+          'metadata.quality), suppress (stored and marked, but not published) or reject (422). A null threshold ' +
+          'disables that check. locationRetentionDays keeps locations of the group for that many days instead of ' +
+          'the server default (LOCATION_RETENTION_DAYS); null falls back to the default. Requires Auth0 ' +
+          'authentication.',
         params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
         body: zodToJsonSchemaFastify(
           z.object({
             name: z.string().min(3).optional(),
             description: z.string().optional(),
             apiBaseUrl: z.string().url().optional(),
+            apiRateLimitMax: z.number().int().min(1).max(100000).nullable().optional(),
+            apiDailyRequestQuota: z.number().int().min(1).nullable().optional(),
+            deliveryPolicy: z.enum(GROUP_DELIVERY_POLICIES).optional(),
+            qualityPolicy: z
+              .object({
+                action: z.enum(LOCATION_QUALITY_ACTIONS).optional(),
+                maxSpeedMps: z.number().min(0).nullable().optional(),
+                maxAccuracyMeters: z.number().min(0).nullable().optional(),
+                maxFutureSeconds: z.number().int().min(0).nullable().optional(),
+                maxAgeSeconds: z.number().int().min(1).nullable().optional(),
+              })
+              .optional(),
+            locationRetentionDays: z.number().int().min(1).max(3650).nullable().optional(),
           })
         ),
         response: {
@@ -190,25 +305,28 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       // Verify Auth0 access token and get user's sub
       const auth = await requireAuth(request, reply);
       const { groupId } = request.params as { groupId: string };
-      const body = request.body as { name?: string; description?: string; apiBaseUrl?: string };
-
-      // auth.sub is guaranteed to exist from requireAuth
-      const userId = auth.sub;
+      const body = request.body as {
+        name?: string;
+        description?: string;
+        apiBaseUrl?: string;
+        apiRateLimitMax?: number | null;
+        apiDailyRequestQuota?: number | null;
+        deliveryPolicy?: GroupDeliveryPolicy;
+        qualityPolicy?: {
+          action?: LocationQualityAction;
+          maxSpeedMps?: number | null;
+          maxAccuracyMeters?: number | null;
+          maxFutureSeconds?: number | null;
+          maxAgeSeconds?: number | null;
+        };
+        locationRetentionDays?: number | null;
+      };
+      const quality = body.qualityPolicy ?? {};
 
       // Find or create user using the sub from token
-      const user = await findOrCreateUser(userId, auth.email, auth.name);
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
 
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: user.id, // Use the user ID (which is the Auth0 sub)
-        },
-      });
-
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found');
-      }
+      await requireGroupPermission(reply, groupId, user.id, 'group:update');
 
       const updated = await db.groups.update({
         where: { id: groupId },
@@ -216,17 +334,33 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
           ...(body.name && { name: body.name }),
           ...(body.description !== undefined && { description: body.description }),
           ...(body.apiBaseUrl !== undefined && { api_base_url: body.apiBaseUrl }),
+          ...(body.apiRateLimitMax !== undefined && { api_rate_limit_max: body.apiRateLimitMax }),
+          ...(body.apiDailyRequestQuota !== undefined && {
+            api_daily_request_quota: body.apiDailyRequestQuota,
+          }),
+          ...(body.deliveryPolicy && { delivery_policy: body.deliveryPolicy }),
+          ...(quality.action && { quality_action: quality.action }),
+          ...(quality.maxSpeedMps !== undefined && { quality_max_speed_mps: quality.maxSpeedMps }),
+          ...(quality.maxAccuracyMeters !== undefined && {
+            quality_max_accuracy_m: quality.maxAccuracyMeters,
+          }),
+          ...(quality.maxFutureSeconds !== undefined && {
+            quality_max_future_seconds: quality.maxFutureSeconds,
+          }),
+          ...(quality.maxAgeSeconds !== undefined && {
+            quality_max_age_seconds: quality.maxAgeSeconds,
+          }),
+          ...(body.locationRetentionDays !== undefined && {
+            location_retention_days: body.locationRetentionDays,
+          }),
         },
       });
 
-      reply.send({
-        id: updated.id,
-        name: updated.name,
-        description: updated.description ?? null,
-        apiBaseUrl: updated.api_base_url ?? null,
-        createdAt: updated.created_at.toISOString(),
-        updatedAt: updated.updated_at.toISOString(),
-      });
+      if (body.apiRateLimitMax !== undefined || body.apiDailyRequestQuota !== undefined) {
+        apiKeyUsage.invalidateLimits();
+      }
+
+      reply.send(toGroupResponse(updated));
     }
   );
 
@@ -238,10 +372,16 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         tags: ['Internal - Groups'],
         summary: '[Internal] Leave a group',
         description:
-          'Leave a group by removing your membership. This deletes your membership record from the group. Requires Auth0 authentication.',
+          'Leave a group. Your membership is kept with status left, which also withdraws a pending join ' +
+          'request or declines an invitation. ' +
+          'When the owner leaves, the longest-standing admin becomes the owner (returned as newOwnerId and ' +
+          'recorded in the transfer history); without an admin the request fails with 409 and the owner has ' +
+          'to transfer the group or promote a member first. Requires Auth0 authentication.',
         params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
         response: {
-          200: zodToJsonSchemaFastify(z.object({ success: z.boolean() })),
+          200: zodToJsonSchemaFastify(
+            z.object({ success: z.boolean(), newOwnerId: z.string().optional() })
+          ),
           404: zodToJsonSchemaFastify(
             z.object({
               error: z.string(),
@@ -270,6 +410,37 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         throw new Error('Group not found');
       }
 
+      // The owner hands the group to the longest-standing admin on the way out
+      if (group.owner_id === user.id) {
+        const newOwnerId = await db.$transaction(async (tx) => {
+          const successor = await findSuccessor(tx, groupId, user.id, ['admin']);
+          if (
+            !successor ||
+            !(await applyOwnershipTransfer(tx, {
+              groupId,
+              fromUserId: user.id,
+              toUserId: successor,
+              reason: 'owner_left',
+            }))
+          ) {
+            return null;
+          }
+
+          await transitionMembership(groupId, user.id, 'left', { client: tx });
+          return successor;
+        });
+
+        if (!newOwnerId) {
+          reply.code(409);
+          throw new Error(
+            'The group has no admin to take over: transfer ownership or make a member an admin first'
+          );
+        }
+
+        reply.send({ success: true, newOwnerId });
+        return;
+      }
+
       // Check if user is a member of the group
       const membership = await db.group_members.findUnique({
         where: {
@@ -280,20 +451,13 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         },
       });
 
-      if (!membership) {
+      if (!membership || membership.status === 'left' || membership.status === 'removed') {
         reply.code(404);
         throw new Error('You are not a member of this group');
       }
 
-      // Delete the membership
-      await db.group_members.delete({
-        where: {
-          group_id_user_id: {
-            group_id: groupId,
-            user_id: user.id,
-          },
-        },
-      });
+      // Leaving also withdraws a join request or declines an invitation
+      await transitionMembership(groupId, user.id, 'left');
 
       reply.send({ success: true });
     }
@@ -319,23 +483,10 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       const auth = await requireAuth(request, reply);
       const { groupId } = request.params as { groupId: string };
 
-      // auth.sub is guaranteed to exist from requireAuth
-      const userId = auth.sub;
-
       // Find or create user using the sub from token
-      const user = await findOrCreateUser(userId, auth.email, auth.name);
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
 
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: user.id, // Use the user ID (which is the Auth0 sub)
-        },
-      });
-
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found');
-      }
+      await requireGroupPermission(reply, groupId, user.id, 'group:delete');
 
       await db.groups.delete({
         where: { id: groupId },
@@ -363,7 +514,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         ),
         response: {
           202: zodToJsonSchemaFastify(
-            z.object({ status: z.literal('pending'), memberId: z.string() })
+            z.object({ status: z.literal('pending_request'), memberId: z.string() })
           ),
         },
         security: [{ bearerAuth: [] }],
@@ -388,25 +539,10 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         });
       }
 
-      // Create or update membership
-      const member = await db.group_members.upsert({
-        where: {
-          group_id_user_id: {
-            group_id: groupId,
-            user_id: user.id,
-          },
-        },
-        create: {
-          group_id: groupId,
-          user_id: user.id,
-          status: 'pending',
-        },
-        update: {
-          status: 'pending',
-        },
-      });
+      // Members, and users removed from the group, cannot request again (409)
+      const member = await transitionMembership(groupId, user.id, 'pending_request');
 
-      reply.code(202).send({ status: 'pending', memberId: member.id });
+      reply.code(202).send({ status: 'pending_request', memberId: member.id });
     }
   );
 
@@ -418,7 +554,8 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         tags: ['Internal - Groups'],
         summary: "[Internal] Get user's active group memberships",
         description:
-          'Get all groups the authenticated user is an active member of. Requires Auth0 authentication.',
+          'Get all groups the authenticated user is an active member of, with their role in each. Requires ' +
+          'Auth0 authentication.',
         response: {
           200: zodToJsonSchemaFastify(
             z.object({
@@ -427,6 +564,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
                   id: z.string(),
                   name: z.string(),
                   description: z.string().nullable(),
+                  role: z.enum(GROUP_ROLES),
                 })
               ),
             })
@@ -458,6 +596,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
           id: membership.groups.id,
           name: membership.groups.name,
           description: membership.groups.description ?? null,
+          role: (membership.groups.owner_id === user.id ? 'owner' : membership.role) as GroupRole,
         })),
       });
     }
@@ -474,7 +613,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
           'Get all JOIN REQUESTS that the authenticated user has submitted to groups. These are requests from the user to join a group, which need to be approved by the group owner. This is different from invitations (owner → user). Requires Auth0 authentication.',
         querystring: zodToJsonSchemaFastify(
           z.object({
-            status: z.enum(['pending', 'active', 'rejected']).optional(),
+            status: z.enum(MEMBERSHIP_STATUSES).optional(),
           })
         ),
         response: {
@@ -486,7 +625,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
                   groupId: z.string(),
                   groupName: z.string(),
                   groupDescription: z.string().nullable(),
-                  status: z.string(),
+                  status: z.enum(MEMBERSHIP_STATUSES),
                   createdAt: z.string(),
                   type: z.literal('join_request'), // User → Owner: request to join
                 })
@@ -499,14 +638,14 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       const auth = await requireAuth(request, reply);
-      const query = request.query as { status?: string };
+      const query = request.query as { status?: MembershipStatus };
       const userId = auth.sub;
 
       // Find or create user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
       // Build where clause
-      const where: { user_id: string; status?: string } = {
+      const where: { user_id: string; status?: MembershipStatus } = {
         user_id: user.id,
       };
 
@@ -616,7 +755,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         tags: ['Internal - Groups'],
         summary: '[Internal] Invite user to group by email',
         description:
-          'Invite a user to a group by email address. This creates an INVITATION (owner → user) that the user can accept. This is different from a join request (user → owner). Requires Auth0 authentication.',
+          'Invite a user to a group by email address. This creates an INVITATION (owner → user) that the user can accept, and emails it with a signed accept link. This is different from a join request (user → owner). Requires Auth0 authentication.',
         params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
         body: zodToJsonSchemaFastify(
           z.object({
@@ -646,18 +785,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       // Find or create authenticated user
       const authenticatedUser = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify group exists and user is owner
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: authenticatedUser.id,
-        },
-      });
-
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found or you are not the owner');
-      }
+      await requireGroupPermission(reply, groupId, authenticatedUser.id, 'members:manage');
 
       // Find or create target user by email
       let targetUser = await db.users.findUnique({
@@ -686,18 +814,14 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         throw new Error('Invitation already exists and is pending');
       }
 
-      // Create invitation (owner → user)
-      const invitation = await db.group_invitations.create({
-        data: {
-          id: nanoid(),
-          group_id: groupId,
-          user_id: targetUser.id,
-          invited_by: authenticatedUser.id,
-          status: 'pending',
-          expires_at: body.expiresAt,
-          updated_at: new Date(),
-        },
+      // Create invitation (owner → user); fails with 409 when the user is a member already
+      const invitation = await inviteToGroup({
+        groupId,
+        userId: targetUser.id,
+        invitedBy: authenticatedUser.id,
+        expiresAt: body.expiresAt,
       });
+      void sendInvitationEmail(invitation.id);
 
       reply.send({
         success: true,
@@ -744,24 +868,13 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       // Find or create authenticated user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify group exists and user is owner
-      const group = await db.groups.findFirst({
-        where: {
-          id: groupId,
-          owner_id: user.id,
-        },
-      });
-
-      if (!group) {
-        reply.code(404);
-        throw new Error('Group not found or you are not the owner');
-      }
+      await requireGroupPermission(reply, groupId, user.id, 'members:manage');
 
       // Get pending memberships
       const pendingMembers = await db.group_members.findMany({
         where: {
           group_id: groupId,
-          status: 'pending',
+          status: 'pending_request',
         },
         include: {
           users: true,
@@ -783,6 +896,231 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
     }
   );
 
+  // List the members of a group with their roles
+  app.get(
+    '/groups/:groupId/members',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] List the members of a group',
+        description:
+          'List the active and suspended members of a group with their role: owner, admin, member or ' +
+          'viewer. The owner is listed first, followed by the members in the order they joined. Available ' +
+          'to every role in the group. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ items: z.array(memberResponse) })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId } = request.params as { groupId: string };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      const { group } = await requireGroupPermission(reply, groupId, user.id, 'group:view');
+
+      const [owner, members] = await Promise.all([
+        db.users.findUnique({ where: { id: group.owner_id } }),
+        db.group_members.findMany({
+          where: {
+            group_id: groupId,
+            status: { in: ['active', 'suspended'] },
+            user_id: { not: group.owner_id },
+          },
+          include: { users: true },
+          orderBy: { created_at: 'asc' },
+        }),
+      ]);
+
+      // The owner needs no membership row, so they are listed from the group
+      const items = members.map((member) => toMemberResponse(member, group.owner_id));
+      if (owner) {
+        items.unshift(
+          toMemberResponse(
+            {
+              user_id: owner.id,
+              role: 'owner',
+              status: 'active',
+              created_at: group.created_at,
+              users: owner,
+            },
+            group.owner_id
+          )
+        );
+      }
+
+      reply.send({ items });
+    }
+  );
+
+  // Change the role of a member
+  app.patch(
+    '/groups/:groupId/members/:userId/role',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: "[Internal] Change a member's role",
+        description:
+          'Set the role of an active member to admin, member or viewer. Owners and admins can change roles, ' +
+          'but only the owner can grant or revoke admin; an admin can step down to member or viewer. The ' +
+          'role of the owner cannot be changed. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), userId: z.string().min(1) })
+        ),
+        body: zodToJsonSchemaFastify(z.object({ role: z.enum(ASSIGNABLE_GROUP_ROLES) })),
+        response: {
+          200: zodToJsonSchemaFastify(memberResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId, userId: targetUserId } = request.params as {
+        groupId: string;
+        userId: string;
+      };
+      const body = request.body as { role: AssignableGroupRole };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      const { group, role } = await requireGroupPermission(
+        reply,
+        groupId,
+        user.id,
+        'members:manage'
+      );
+
+      if (targetUserId === group.owner_id) {
+        reply.code(409);
+        throw new Error('The role of the group owner cannot be changed');
+      }
+
+      const membership = await db.group_members.findUnique({
+        where: { group_id_user_id: { group_id: groupId, user_id: targetUserId } },
+      });
+
+      if (membership?.status !== 'active') {
+        reply.code(404);
+        throw new Error('Member not found');
+      }
+
+      // Admins manage the other roles; only the owner decides who is an admin
+      const stepsDown = targetUserId === user.id && body.role !== 'admin';
+      if (
+        role !== 'owner' &&
+        !stepsDown &&
+        (body.role === 'admin' || membership.role === 'admin')
+      ) {
+        reply.code(403);
+        throw new Error('Only the group owner can grant or revoke the admin role');
+      }
+
+      const updated = await db.group_members.update({
+        where: { id: membership.id },
+        data: { role: body.role },
+        include: { users: true },
+      });
+
+      reply.send(toMemberResponse(updated, group.owner_id));
+    }
+  );
+
+  // Remove a member from a group
+  app.delete(
+    '/groups/:groupId/members/:userId',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] Remove a member from a group',
+        description:
+          'Remove a member, a user with a pending invitation or a join request from the group. Their active ' +
+          'location shares with the group end, their locations are no longer published to it and a ' +
+          'member.removed event is emitted on the group stream. A removed user can only come back when ' +
+          'invited again. Owners and admins can remove members, but only the owner can remove an admin. ' +
+          'Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), userId: z.string().min(1) })
+        ),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ success: z.boolean() })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId, userId: targetUserId } = request.params as {
+        groupId: string;
+        userId: string;
+      };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      await requireManageableMember(reply, groupId, user.id, targetUserId);
+
+      await revokeMembership(groupId, targetUserId, 'removed', user.id);
+
+      reply.send({ success: true });
+    }
+  );
+
+  // Suspend or reinstate a member
+  app.patch(
+    '/groups/:groupId/members/:userId/suspension',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] Suspend or reinstate a member',
+        description:
+          'Set suspended to true to suspend an active member: they keep their role but lose access to the ' +
+          'group, their active location shares with it end, their locations are no longer published to it ' +
+          'and a member.removed event is emitted on the group stream. Set suspended to false to reinstate ' +
+          'a suspended member; their shares are not restarted. Owners and admins can suspend members, but ' +
+          'only the owner can suspend an admin. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), userId: z.string().min(1) })
+        ),
+        body: zodToJsonSchemaFastify(z.object({ suspended: z.boolean() })),
+        response: {
+          200: zodToJsonSchemaFastify(
+            z.object({ userId: z.string(), status: z.enum(['active', 'suspended']) })
+          ),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId, userId: targetUserId } = request.params as {
+        groupId: string;
+        userId: string;
+      };
+      const body = request.body as { suspended: boolean };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      const membership = await requireManageableMember(reply, groupId, user.id, targetUserId);
+
+      if (membership.status !== 'active' && membership.status !== 'suspended') {
+        reply.code(409);
+        throw new Error(`Cannot suspend or reinstate a membership that is ${membership.status}`);
+      }
+
+      // Asking for the current state changes nothing and emits no event
+      if (body.suspended && membership.status === 'active') {
+        await revokeMembership(groupId, targetUserId, 'suspended', user.id);
+      } else if (!body.suspended && membership.status === 'suspended') {
+        await transitionMembership(groupId, targetUserId, 'active');
+      }
+
+      reply.send({ userId: targetUserId, status: body.suspended ? 'suspended' : 'active' });
+    }
+  );
+
   // Batch invite users to groups (owner invites users - creates invitations)
   app.post(
     '/groups/batch-invite',
@@ -791,7 +1129,7 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
         tags: ['Internal - Groups'],
         summary: '[Internal] Batch invite users to groups',
         description:
-          'Invite multiple users to multiple groups in one request. This creates INVITATIONS (owner → users) that users can accept. This is different from join requests (users → owner). Requires Auth0 authentication.',
+          'Invite multiple users to multiple groups in one request. This creates INVITATIONS (owner → users) that users can accept and emails each of them with a signed accept link. This is different from join requests (users → owner). Requires Auth0 authentication.',
         body: zodToJsonSchemaFastify(
           z.object({
             userEmails: z.array(z.string().email()),
@@ -830,17 +1168,17 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
       // Find or create authenticated user
       const authenticatedUser = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify all groups exist and user is owner
+      // Verify all groups exist and the user may invite to each of them
       const groups = await db.groups.findMany({
         where: {
           id: { in: body.groupIds },
-          owner_id: authenticatedUser.id,
+          ...groupsWithPermission(authenticatedUser.id, 'members:manage'),
         },
       });
 
-      if (groups.length !== body.groupIds.length) {
+      if (groups.length !== new Set(body.groupIds).size) {
         reply.code(403);
-        throw new Error('One or more groups not found or you are not the owner');
+        throw new Error('One or more groups not found or you cannot invite members to them');
       }
 
       const errors: Array<{ email: string; error: string }> = [];
@@ -874,17 +1212,13 @@ export async function registerInternalGroupRoutes(app: FastifyInstance): Promise
 
             // Only create if it doesn't exist or is not pending
             if (!existing || existing.status !== 'pending') {
-              await db.group_invitations.create({
-                data: {
-                  id: nanoid(),
-                  group_id: groupId,
-                  user_id: targetUser.id,
-                  invited_by: authenticatedUser.id,
-                  status: 'pending',
-                  expires_at: body.expiresAt,
-                  updated_at: new Date(),
-                },
+              const invitation = await inviteToGroup({
+                groupId,
+                userId: targetUser.id,
+                invitedBy: authenticatedUser.id,
+                expiresAt: body.expiresAt,
               });
+              void sendInvitationEmail(invitation.id);
             }
           }
 
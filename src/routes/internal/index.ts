@@ -1,11 +1,15 @@
 import type { FastifyInstance } from 'fastify';
+import { registerAdminRoutes } from './admin.js';
 import { registerInternalApiKeyRoutes } from './api-keys.js';
+import { registerGeofenceRoutes } from './geofences.js';
 import { registerInternalGroupRoutes } from './groups.js';
 import { registerGroupInvitationRoutes } from './group-invitations.js';
 import { registerInternalLocationRoutes } from './locations.js';
 import { registerLocationShareRoutes } from './location-shares.js';
+import { registerOwnershipTransferRoutes } from './ownership-transfers.js';
 import { registerInternalShareLinkRoutes } from './share-links.js';
 import { registerUserRoutes } from './users.js';
+import { registerInternalWebhookRoutes } from './webhooks.js';
 
 /**
  * Register all internal routes (for Next.js frontend / Auth0 users)
@@ -22,6 +26,9 @@ export async function registerInternalRoutes(app: FastifyInstance): Promise<void
   // Register API key routes directly (we're already in the /api/internal scope)
   await registerInternalApiKeyRoutes(app);
 
+  // Register group ownership transfer routes
+  await registerOwnershipTransferRoutes(app);
+
   // Register group invitation routes
   await registerGroupInvitationRoutes(app);
 
@@ -36,4 +43,13 @@ export async function registerInternalRoutes(app: FastifyInstance): Promise<void
 
   // Register user routes
   await registerUserRoutes(app);
+
+  // Register webhook subscription routes (per API key)
+  await registerInternalWebhookRoutes(app);
+
+  // Register group geofence routes
+  await registerGeofenceRoutes(app);
+
+  // Register admin routes (runtime stats)
+  await registerAdminRoutes(app);
 }
@@ -2,7 +2,9 @@ import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { nanoid } from 'nanoid';
 import { z } from 'zod';
 import { prisma as db } from '../../db.js';
+import { endLocationShare, shareExpiresAt } from '../../services/location-shares.js';
 import { requireAuth } from '../../utils/auth.js';
+import { getGroupRole, roleCan } from '../../utils/group-permissions.js';
 import { findOrCreateUser } from '../../utils/user-helpers.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
@@ -15,11 +17,31 @@ const locationShareResponse = z.object({
   duration: z.number().nullable(),
   startedAt: z.string(),
   endedAt: z.string().nullable(),
+  expiresAt: z.string().nullable(),
   isActive: z.boolean(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
+type LocationShareRow = NonNullable<Awaited<ReturnType<typeof db.location_shares.findUnique>>>;
+
+function toLocationShareResponse(share: LocationShareRow) {
+  return {
+    id: share.id,
+    userId: share.user_id,
+    groupId: share.group_id,
+    deviceId: share.device_id ?? null,
+    frequency: share.frequency,
+    duration: share.duration,
+    startedAt: share.started_at.toISOString(),
+    endedAt: share.ended_at?.toISOString() ?? null,
+    expiresAt: share.expires_at?.toISOString() ?? null,
+    isActive: share.is_active,
+    createdAt: share.created_at.toISOString(),
+    updatedAt: share.updated_at.toISOString(),
+  };
+}
+
 /**
  * Internal routes for location shares
  * These require Auth0 authentication
@@ -61,29 +83,16 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
       // Find or create user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify group exists
-      const group = await db.groups.findUnique({
-        where: { id: body.groupId },
-      });
+      const access = await getGroupRole(body.groupId, user.id);
 
-      if (!group) {
+      if (!access) {
         reply.code(404);
         throw new Error('Group not found');
       }
 
-      // Check if user is a member of the group
-      const membership = await db.group_members.findUnique({
-        where: {
-          group_id_user_id: {
-            group_id: body.groupId,
-            user_id: user.id,
-          },
-        },
-      });
-
-      if (!membership || membership.status !== 'active') {
+      if (!access.role || !roleCan(access.role, 'locations:share')) {
         reply.code(403);
-        throw new Error('You must be an active member of the group to share location');
+        throw new Error('Your role in the group does not allow sharing your location');
       }
 
       // End any existing active shares for this user/group
@@ -100,8 +109,8 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
         },
       });
 
-      // Create new location share
-      // Note: TypeScript types may not reflect new schema fields until migration is run
+      // Create new location share; a share with a duration is ended by the expiry scheduler
+      const startedAt = new Date();
       const share = await db.location_shares.create({
         data: {
           id: nanoid(),
@@ -110,24 +119,14 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
           device_id: body.deviceId,
           frequency: body.frequency ?? null,
           duration: body.duration ?? null,
+          started_at: startedAt,
+          expires_at: shareExpiresAt(startedAt, body.duration ?? null),
           is_active: true,
           updated_at: new Date(),
-        } as any,
+        },
       });
 
-      reply.code(201).send({
-        id: share.id,
-        userId: share.user_id,
-        groupId: share.group_id,
-        deviceId: share.device_id ?? null,
-        frequency: (share as any).frequency,
-        duration: (share as any).duration,
-        startedAt: share.started_at.toISOString(),
-        endedAt: share.ended_at?.toISOString() ?? null,
-        isActive: share.is_active,
-        createdAt: share.created_at.toISOString(),
-        updatedAt: share.updated_at.toISOString(),
-      });
+      reply.code(201).send(toLocationShareResponse(share));
     }
   );
 
@@ -161,30 +160,14 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
       // Find or create user
       const user = await findOrCreateUser(userId, auth.email, auth.name);
 
-      // Verify group exists
-      const group = await db.groups.findUnique({
-        where: { id: groupId },
-      });
+      const access = await getGroupRole(groupId, user.id);
 
-      if (!group) {
+      if (!access) {
         reply.code(404);
         throw new Error('Group not found');
       }
 
-      // Check if user is a member or owner
-      const membership = await db.group_members.findUnique({
-        where: {
-          group_id_user_id: {
-            group_id: groupId,
-            user_id: user.id,
-          },
-        },
-      });
-
-      const isOwner = group.owner_id === user.id;
-      const isMember = membership?.status === 'active';
-
-      if (!isOwner && !isMember) {
+      if (!access.role) {
         reply.code(403);
         throw new Error('You must be a member or owner of the group to view location shares');
       }
@@ -203,19 +186,7 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
       });
 
       reply.send({
-        items: shares.map((share) => ({
-          id: share.id,
-          userId: share.user_id,
-          groupId: share.group_id,
-          deviceId: share.device_id ?? null,
-          frequency: (share as any).frequency,
-          duration: (share as any).duration,
-          startedAt: share.started_at.toISOString(),
-          endedAt: share.ended_at?.toISOString() ?? null,
-          isActive: share.is_active,
-          createdAt: share.created_at.toISOString(),
-          updatedAt: share.updated_at.toISOString(),
-        })),
+        items: shares.map(toLocationShareResponse),
       });
     }
   );
@@ -268,19 +239,7 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
       });
 
       reply.send({
-        items: shares.map((share) => ({
-          id: share.id,
-          userId: share.user_id,
-          groupId: share.group_id,
-          deviceId: share.device_id ?? null,
-          frequency: (share as any).frequency,
-          duration: (share as any).duration,
-          startedAt: share.started_at.toISOString(),
-          endedAt: share.ended_at?.toISOString() ?? null,
-          isActive: share.is_active,
-          createdAt: share.created_at.toISOString(),
-          updatedAt: share.updated_at.toISOString(),
-        })),
+        items: shares.map(toLocationShareResponse),
       });
     }
   );
@@ -292,7 +251,8 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
       schema: {
         tags: ['Internal - Location Shares'],
         summary: '[Internal] End a location share',
-        description: 'Stop sharing location. Requires Auth0 authentication.',
+        description:
+          'Stop sharing location. Emits a share.ended event on the group stream. Requires Auth0 authentication.',
         params: zodToJsonSchemaFastify(z.object({ shareId: z.string().min(4) })),
         response: {
           200: zodToJsonSchemaFastify(locationShareResponse),
@@ -325,29 +285,13 @@ export async function registerLocationShareRoutes(app: FastifyInstance): Promise
         throw new Error('This location share does not belong to you');
       }
 
-      // Update share
-      const updated = await db.location_shares.update({
+      // Ending a share that has already ended leaves it (and its end time) unchanged
+      await endLocationShare(share, 'ended');
+      const updated = await db.location_shares.findUniqueOrThrow({
         where: { id: shareId },
-        data: {
-          is_active: false,
-          ended_at: new Date(),
-          updated_at: new Date(),
-        },
       });
 
-      reply.send({
-        id: updated.id,
-        userId: updated.user_id,
-        groupId: updated.group_id,
-        deviceId: updated.device_id ?? null,
-        frequency: (updated as any).frequency,
-        duration: (updated as any).duration,
-        startedAt: updated.started_at.toISOString(),
-        endedAt: updated.ended_at?.toISOString() ?? null,
-        isActive: updated.is_active,
-        createdAt: updated.created_at.toISOString(),
-        updatedAt: updated.updated_at.toISOString(),
-      });
+      reply.send(toLocationShareResponse(updated));
     }
   );
 }
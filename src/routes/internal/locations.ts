@@ -4,9 +4,18 @@ import { z } from 'zod';
 import { prisma as db } from '../../db.js';
 import { env } from '../../config/env.js';
 import { locationBus } from '../../services/bus.js';
+import { evaluateGeofences } from '../../services/geofences.js';
 import { locationBatcher } from '../../services/location-batcher.js';
+import { deliversBatched, deliversRealtime } from '../../services/location-delivery.js';
+import { checkLocationQuality, withQualityIssues } from '../../services/location-quality.js';
 import { validateShareLink } from '../../services/share-links.js';
 import { decryptWithSecret } from '../../utils/encrypt.js';
+import {
+  findSubmittedLocation,
+  getIdempotencyKey,
+  isUniqueViolation,
+  replaySubmittedLocation,
+} from '../../utils/idempotency.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
 const LOCATION_TOKEN_HEADER = 'x-location-token';
@@ -21,6 +30,7 @@ const locationPayload = z.object({
   recordedAt: z.coerce.date(),
   payloadVersion: z.string().default('v1'),
   metadata: z.record(z.any()).optional(),
+  clientId: z.string().min(1).max(128).optional(),
 });
 
 const ingestionResponse = z.object({
@@ -54,7 +64,8 @@ export async function registerInternalLocationRoutes(app: FastifyInstance): Prom
           'Submit a device location for the frontend app. The frontend encrypts the share token using the shared secret (FRONTEND_APP_SECRET) and sends the encrypted value. ' +
           'Backend decrypts with the same secret and validates the share token exists before proceeding. ' +
           'Provide encrypted share token via X-Location-Token header or encryptedShareToken in body. ' +
-          'Encryption: AES-256-GCM, key = SHA-256(secret), payload = base64url(iv + ciphertext + authTag).',
+          'Encryption: AES-256-GCM, key = SHA-256(secret), payload = base64url(iv + ciphertext + authTag). ' +
+          'An Idempotency-Key header (or clientId in body) makes retries safe: a repeated key for the same device returns the original 202 response.',
         body: zodToJsonSchemaFastify(
           locationPayload.and(
             z.object({
@@ -67,6 +78,8 @@ export async function registerInternalLocationRoutes(app: FastifyInstance): Prom
           400: zodToJsonSchemaFastify(z.object({ error: z.string() })),
           401: zodToJsonSchemaFastify(z.object({ error: z.string() })),
           404: zodToJsonSchemaFastify(z.object({ error: z.string() })),
+          409: zodToJsonSchemaFastify(z.object({ error: z.string() })),
+          422: zodToJsonSchemaFastify(z.object({ error: z.string() })),
           503: zodToJsonSchemaFastify(z.object({ error: z.string() })),
         },
       } as DocumentedSchema,
@@ -115,9 +128,34 @@ export async function registerInternalLocationRoutes(app: FastifyInstance): Prom
         recordedAt: rawBody.recordedAt,
         payloadVersion: rawBody.payloadVersion,
         metadata: rawBody.metadata,
+        clientId: rawBody.clientId,
       });
 
       const deviceId = body.deviceId;
+
+      const clientId = getIdempotencyKey(request, reply, body.clientId);
+      if (clientId) {
+        const original = await findSubmittedLocation(deviceId, clientId);
+        if (original) {
+          replaySubmittedLocation(reply, original);
+          return;
+        }
+      }
+
+      const quality = await checkLocationQuality(deviceId, body, [groupId]);
+      if (quality.rejected) {
+        reply.code(422).send({
+          error: `Location rejected by quality policy: ${quality.issues.join(', ')}`,
+        });
+        return;
+      }
+      const metadata = withQualityIssues(
+        body.metadata ?? null,
+        quality.issues,
+        quality.suppressedIn
+      );
+      const deliver = quality.deliverTo.length > 0;
+
       const payload = {
         id: nanoid(16),
         groupId,
@@ -129,28 +167,49 @@ export async function registerInternalLocationRoutes(app: FastifyInstance): Prom
         speed: body.speed ?? null,
         recordedAt: body.recordedAt,
         payloadVersion: body.payloadVersion,
-        metadata: body.metadata ? JSON.stringify(body.metadata) : null,
+        metadata: metadata ? JSON.stringify(metadata) : null,
         receivedAt: new Date(),
       };
 
-      await db.locations.create({
-        data: {
-          id: payload.id,
-          group_id: payload.groupId,
-          device_id: payload.deviceId,
-          latitude: payload.latitude,
-          longitude: payload.longitude,
-          accuracy: payload.accuracy,
-          heading: payload.heading,
-          speed: payload.speed,
-          recorded_at: payload.recordedAt,
-          received_at: payload.receivedAt,
-          payload_version: payload.payloadVersion,
-          metadata: payload.metadata,
-        },
-      });
+      const record = await db.locations
+        .create({
+          data: {
+            id: payload.id,
+            group_id: payload.groupId,
+            device_id: payload.deviceId,
+            latitude: payload.latitude,
+            longitude: payload.longitude,
+            accuracy: payload.accuracy,
+            heading: payload.heading,
+            speed: payload.speed,
+            recorded_at: payload.recordedAt,
+            received_at: payload.receivedAt,
+            payload_version: payload.payloadVersion,
+            metadata: payload.metadata,
+            client_id: clientId ?? null,
+          },
+        })
+        .catch((error: unknown) => {
+          if (clientId && isUniqueViolation(error)) {
+            return null;
+          }
+          throw error;
+        });
+
+      if (!record) {
+        const original = await findSubmittedLocation(deviceId, clientId as string);
+        if (!original) {
+          reply.code(409).send({
+            error: 'A location with this Idempotency-Key is being stored; retry shortly',
+          });
+          return;
+        }
+        replaySubmittedLocation(reply, original);
+        return;
+      }
 
       const locationUpdatePayload = {
+        id: payload.id,
         deviceId: payload.deviceId,
         latitude: body.latitude,
         longitude: body.longitude,
@@ -158,18 +217,38 @@ export async function registerInternalLocationRoutes(app: FastifyInstance): Prom
         heading: body.heading ?? null,
         speed: body.speed ?? null,
         recordedAt: body.recordedAt,
-        metadata: body.metadata ?? null,
+        metadata,
         payloadVersion: body.payloadVersion,
+        receivedAt: payload.receivedAt,
       };
 
-      locationBus.publishLocationToGroups([groupId], locationUpdatePayload);
-      locationBatcher.queueLocationUpdate(
-        groupId,
-        locationUpdatePayload,
-        deviceId,
-        deviceId,
-        30
-      );
+      // Share-link submitters have no location share, so pushes are not throttled;
+      // the group's delivery policy still decides between immediate pushes and batching
+      const group = await db.groups.findUnique({
+        where: { id: groupId },
+        select: { delivery_policy: true },
+      });
+      const policy = group?.delivery_policy ?? 'both';
+
+      // A suppressed fix is stored but not published or evaluated against geofences
+      if (deliver && deliversRealtime(policy)) {
+        locationBus.publishLocationToGroups([groupId], locationUpdatePayload);
+      }
+
+      // Geofence transitions are published as their own group events; a failure here
+      // must not reject a location that has already been stored
+      await evaluateGeofences(quality.deliverTo, locationUpdatePayload).catch((error) => {
+        console.error('[Locations] Failed to evaluate geofences', { deviceId, error });
+      });
+      if (deliver && deliversBatched(policy)) {
+        locationBatcher.queueLocationUpdate(
+          groupId,
+          locationUpdatePayload,
+          deviceId,
+          deviceId,
+          30
+        );
+      }
 
       reply.code(202).send({
         id: payload.id,
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { buildApp } from '../../app.js';
+import { env } from '../../config/env.js';
+import { prisma as db } from '../../db.js';
+import { generateFakeAuth0Token } from '../public/tests/helpers/test-auth.js';
+
+describe.skipIf(!env.DATABASE_URL)('Ownership transfer routes', () => {
+  const userIds = ['owner-transfer-owner', 'owner-transfer-admin', 'owner-transfer-member'];
+  const [ownerId, adminId, memberId] = userIds;
+  let fastify: ReturnType<typeof Fastify>;
+  let groupId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: { in: userIds } } });
+    await db.users.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  function as(userId: string, method: 'POST' | 'DELETE', url: string, payload?: object) {
+    return fastify.inject({
+      method,
+      url: `/api/internal${url}`,
+      headers: { authorization: `Bearer ${generateFakeAuth0Token(userId)}` },
+      ...(payload && { payload }),
+    });
+  }
+
+  async function requestTransfer(toUserId: string): Promise<string> {
+    const response = await as(ownerId, 'POST', `/groups/${groupId}/ownership-transfers`, {
+      toUserId,
+    });
+    expect(response.statusCode).toBe(201);
+    return response.json().id;
+  }
+
+  async function ownerOf(): Promise<string | undefined> {
+    return (await db.groups.findUnique({ where: { id: groupId } }))?.owner_id;
+  }
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await buildApp(fastify);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const id of userIds) {
+      await db.users.create({ data: { id, email: `${id}@test.example.com` } });
+    }
+    const group = await db.groups.create({ data: { name: 'Owner transfer', owner_id: ownerId } });
+    groupId = group.id;
+    await db.group_members.createMany({
+      data: [
+        { group_id: groupId, user_id: ownerId, status: 'active', role: 'owner' },
+        { group_id: groupId, user_id: adminId, status: 'active', role: 'admin' },
+        { group_id: groupId, user_id: memberId, status: 'active', role: 'member' },
+      ],
+    });
+  });
+
+  afterEach(cleanUp);
+
+  describe('accept', () => {
+    it('should make the member the owner', async () => {
+      const transferId = await requestTransfer(memberId);
+
+      const response = await as(memberId, 'POST', `/ownership-transfers/${transferId}/accept`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'accepted' });
+      expect(await ownerOf()).toBe(memberId);
+    });
+
+    it('should fail with 409 when the group changed owner since the request', async () => {
+      const transferId = await requestTransfer(memberId);
+      // The owner left in the meantime and the admin took over
+      await db.groups.update({ where: { id: groupId }, data: { owner_id: adminId } });
+
+      const response = await as(memberId, 'POST', `/ownership-transfers/${transferId}/accept`);
+
+      expect(response.statusCode).toBe(409);
+      expect(await ownerOf()).toBe(adminId);
+      expect(
+        await db.group_ownership_transfers.findUnique({ where: { id: transferId } })
+      ).toMatchObject({ status: 'cancelled' });
+    });
+
+    it('should fail with 409 when the member is no longer active', async () => {
+      const transferId = await requestTransfer(memberId);
+      await db.group_members.update({
+        where: { group_id_user_id: { group_id: groupId, user_id: memberId } },
+        data: { status: 'suspended' },
+      });
+
+      const response = await as(memberId, 'POST', `/ownership-transfers/${transferId}/accept`);
+
+      expect(response.statusCode).toBe(409);
+      expect(await ownerOf()).toBe(ownerId);
+    });
+  });
+
+  describe('leave', () => {
+    it('should hand the group to the admin when the owner leaves', async () => {
+      const response = await as(ownerId, 'POST', `/groups/${groupId}/leave`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true, newOwnerId: adminId });
+      expect(await ownerOf()).toBe(adminId);
+      expect(
+        await db.group_members.findUnique({
+          where: { group_id_user_id: { group_id: groupId, user_id: ownerId } },
+        })
+      ).toMatchObject({ status: 'left' });
+      expect(
+        await db.group_ownership_transfers.findFirst({ where: { group_id: groupId } })
+      ).toMatchObject({ to_user_id: adminId, reason: 'owner_left', status: 'accepted' });
+    });
+
+    it('should not let the owner leave without an admin to take over', async () => {
+      await db.group_members.update({
+        where: { group_id_user_id: { group_id: groupId, user_id: adminId } },
+        data: { role: 'member' },
+      });
+
+      const response = await as(ownerId, 'POST', `/groups/${groupId}/leave`);
+
+      expect(response.statusCode).toBe(409);
+      expect(await ownerOf()).toBe(ownerId);
+      expect(await db.group_ownership_transfers.count({ where: { group_id: groupId } })).toBe(0);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should let the owner cancel a pending transfer once', async () => {
+      const transferId = await requestTransfer(memberId);
+      const url = `/groups/${groupId}/ownership-transfers/${transferId}`;
+
+      const cancelled = await as(ownerId, 'DELETE', url);
+      expect(cancelled.statusCode).toBe(200);
+      expect(cancelled.json()).toMatchObject({ status: 'cancelled' });
+
+      expect((await as(ownerId, 'DELETE', url)).statusCode).toBe(400);
+      expect(
+        (await as(memberId, 'POST', `/ownership-transfers/${transferId}/accept`)).statusCode
+      ).toBe(400);
+    });
+
+    it('should cancel a pending transfer when a new one is requested', async () => {
+      const first = await requestTransfer(memberId);
+      await requestTransfer(adminId);
+
+      expect(await db.group_ownership_transfers.findUnique({ where: { id: first } })).toMatchObject(
+        { status: 'cancelled' }
+      );
+    });
+
+    it('should only let the owner cancel', async () => {
+      const transferId = await requestTransfer(memberId);
+      const url = `/groups/${groupId}/ownership-transfers/${transferId}`;
+
+      expect((await as(adminId, 'DELETE', url)).statusCode).toBe(403);
+      expect(
+        (await as(ownerId, 'DELETE', `/groups/${groupId}/ownership-transfers/unknown`)).statusCode
+      ).toBe(404);
+      expect(
+        await db.group_ownership_transfers.findUnique({ where: { id: transferId } })
+      ).toMatchObject({ status: 'pending' });
+    });
+  });
+});
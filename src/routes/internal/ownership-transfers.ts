@@ -0,0 +1,374 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { prisma as db } from '../../db.js';
+import {
+  OWNERSHIP_TRANSFER_TTL_MS,
+  applyOwnershipTransfer,
+  isTransferExpired,
+} from '../../services/ownership-transfers.js';
+import { requireAuth } from '../../utils/auth.js';
+import { requireGroupPermission } from '../../utils/group-permissions.js';
+import { findOrCreateUser } from '../../utils/user-helpers.js';
+import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
+
+const transferResponse = z.object({
+  id: z.string(),
+  groupId: z.string(),
+  fromUserId: z.string(),
+  toUserId: z.string(),
+  reason: z.enum(['transfer', 'owner_left', 'account_erased']),
+  status: z.enum(['pending', 'accepted', 'declined', 'cancelled']),
+  expiresAt: z.string().nullable(),
+  createdAt: z.string(),
+  respondedAt: z.string().nullable(),
+});
+
+type TransferRow = {
+  id: string;
+  group_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  reason: string;
+  status: string;
+  expires_at: Date | null;
+  created_at: Date;
+  responded_at: Date | null;
+};
+
+function toTransferResponse(row: TransferRow): z.infer<typeof transferResponse> {
+  return {
+    id: row.id,
+    groupId: row.group_id,
+    fromUserId: row.from_user_id,
+    toUserId: row.to_user_id,
+    reason: row.reason as z.infer<typeof transferResponse>['reason'],
+    status: row.status as z.infer<typeof transferResponse>['status'],
+    expiresAt: row.expires_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+    respondedAt: row.responded_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Load a pending transfer addressed to the authenticated user
+ * Sends 404/403/400 and throws when it is missing, addressed to someone else, or settled
+ */
+async function requireIncomingTransfer(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  transferId: string
+) {
+  const auth = await requireAuth(request, reply);
+  const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+  const transfer = await db.group_ownership_transfers.findUnique({
+    where: { id: transferId },
+  });
+
+  if (!transfer) {
+    reply.code(404);
+    throw new Error('Ownership transfer not found');
+  }
+
+  if (transfer.to_user_id !== user.id) {
+    reply.code(403);
+    throw new Error('This ownership transfer is not addressed to you');
+  }
+
+  if (transfer.status !== 'pending') {
+    reply.code(400);
+    throw new Error(`Ownership transfer has already been ${transfer.status}`);
+  }
+
+  return { transfer, user };
+}
+
+/**
+ * Internal routes for handing a group to another member
+ * The owner requests a transfer to an active member, who accepts or declines it.
+ * Every change of owner, including those made when an owner leaves or erases their
+ * account, is kept as the group's transfer history.
+ */
+export async function registerOwnershipTransferRoutes(app: FastifyInstance): Promise<void> {
+  // Request a transfer (owner → member)
+  app.post(
+    '/groups/:groupId/ownership-transfers',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] Request an ownership transfer',
+        description:
+          'Offer ownership of the group to an active member. The member becomes the owner once they accept ' +
+          '(within 7 days) and you stay on as an admin. A new request replaces a pending one. Only the owner ' +
+          'can transfer the group. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
+        body: zodToJsonSchemaFastify(z.object({ toUserId: z.string().min(1) })),
+        response: {
+          201: zodToJsonSchemaFastify(transferResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId } = request.params as { groupId: string };
+      const body = request.body as { toUserId: string };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      await requireGroupPermission(reply, groupId, user.id, 'ownership:transfer');
+
+      if (body.toUserId === user.id) {
+        reply.code(400);
+        throw new Error('You already own this group');
+      }
+
+      const membership = await db.group_members.findUnique({
+        where: { group_id_user_id: { group_id: groupId, user_id: body.toUserId } },
+      });
+
+      if (membership?.status !== 'active') {
+        reply.code(404);
+        throw new Error('Member not found');
+      }
+
+      const now = new Date();
+      const [, transfer] = await db.$transaction([
+        db.group_ownership_transfers.updateMany({
+          where: { group_id: groupId, status: 'pending' },
+          data: { status: 'cancelled', responded_at: now },
+        }),
+        db.group_ownership_transfers.create({
+          data: {
+            group_id: groupId,
+            from_user_id: user.id,
+            to_user_id: body.toUserId,
+            reason: 'transfer',
+            expires_at: new Date(now.getTime() + OWNERSHIP_TRANSFER_TTL_MS),
+          },
+        }),
+      ]);
+
+      reply.code(201).send(toTransferResponse(transfer));
+    }
+  );
+
+  // Transfer history of a group
+  app.get(
+    '/groups/:groupId/ownership-transfers',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] List ownership transfers of a group',
+        description:
+          'List the ownership transfers of a group, newest first: requested transfers in any status and the ' +
+          'changes of owner made when an owner left the group (owner_left) or erased their account ' +
+          '(account_erased). Available to owners and admins. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ groupId: z.string().min(4) })),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ items: z.array(transferResponse) })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId } = request.params as { groupId: string };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      await requireGroupPermission(reply, groupId, user.id, 'group:update');
+
+      const transfers = await db.group_ownership_transfers.findMany({
+        where: { group_id: groupId },
+        orderBy: { created_at: 'desc' },
+      });
+
+      reply.send({ items: transfers.map(toTransferResponse) });
+    }
+  );
+
+  // Cancel a pending transfer (owner)
+  app.delete(
+    '/groups/:groupId/ownership-transfers/:transferId',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] Cancel an ownership transfer',
+        description:
+          'Withdraw a pending ownership transfer. Only the owner can cancel it. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ groupId: z.string().min(4), transferId: z.string().min(1) })
+        ),
+        response: {
+          200: zodToJsonSchemaFastify(transferResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const { groupId, transferId } = request.params as { groupId: string; transferId: string };
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      await requireGroupPermission(reply, groupId, user.id, 'ownership:transfer');
+
+      const { count } = await db.group_ownership_transfers.updateMany({
+        where: { id: transferId, group_id: groupId, status: 'pending' },
+        data: { status: 'cancelled', responded_at: new Date() },
+      });
+
+      const transfer = await db.group_ownership_transfers.findFirst({
+        where: { id: transferId, group_id: groupId },
+      });
+
+      if (!transfer) {
+        reply.code(404);
+        throw new Error('Ownership transfer not found');
+      }
+
+      if (count === 0) {
+        reply.code(400);
+        throw new Error(`Ownership transfer has already been ${transfer.status}`);
+      }
+
+      reply.send(toTransferResponse(transfer));
+    }
+  );
+
+  // Transfers offered to the user
+  app.get(
+    '/ownership-transfers',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] List ownership transfers offered to you',
+        description:
+          'List the pending, unexpired ownership transfers addressed to the authenticated user. Requires ' +
+          'Auth0 authentication.',
+        response: {
+          200: zodToJsonSchemaFastify(
+            z.object({
+              items: z.array(transferResponse.extend({ groupName: z.string() })),
+            })
+          ),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+
+      const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+      const now = new Date();
+      const transfers = await db.group_ownership_transfers.findMany({
+        where: {
+          to_user_id: user.id,
+          status: 'pending',
+          OR: [{ expires_at: null }, { expires_at: { gt: now } }],
+        },
+        include: { groups: { select: { name: true } } },
+        orderBy: { created_at: 'desc' },
+      });
+
+      reply.send({
+        items: transfers.map((transfer) => ({
+          ...toTransferResponse(transfer),
+          groupName: transfer.groups.name,
+        })),
+      });
+    }
+  );
+
+  // Accept a transfer (member → owner)
+  app.post(
+    '/ownership-transfers/:transferId/accept',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] Accept an ownership transfer',
+        description:
+          'Become the owner of the group. The former owner stays on as an admin and other pending transfers ' +
+          'of the group are cancelled. Fails with 409 when you are no longer an active member or the group ' +
+          'changed owner since the request. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ transferId: z.string().min(1) })),
+        response: {
+          200: zodToJsonSchemaFastify(transferResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { transferId } = request.params as { transferId: string };
+      const { transfer, user } = await requireIncomingTransfer(request, reply, transferId);
+
+      if (isTransferExpired(transfer)) {
+        reply.code(400);
+        throw new Error('Ownership transfer has expired');
+      }
+
+      const membership = await db.group_members.findUnique({
+        where: { group_id_user_id: { group_id: transfer.group_id, user_id: user.id } },
+      });
+
+      if (membership?.status !== 'active') {
+        reply.code(409);
+        throw new Error('You are no longer an active member of this group');
+      }
+
+      const transferred = await db.$transaction((tx) =>
+        applyOwnershipTransfer(tx, {
+          groupId: transfer.group_id,
+          fromUserId: transfer.from_user_id,
+          toUserId: user.id,
+          reason: 'transfer',
+          transferId: transfer.id,
+        })
+      );
+
+      if (!transferred) {
+        await db.group_ownership_transfers.updateMany({
+          where: { id: transfer.id, status: 'pending' },
+          data: { status: 'cancelled', responded_at: new Date() },
+        });
+        reply.code(409);
+        throw new Error('The group changed owner since this transfer was requested');
+      }
+
+      const updated = await db.group_ownership_transfers.findUniqueOrThrow({
+        where: { id: transfer.id },
+      });
+      reply.send(toTransferResponse(updated));
+    }
+  );
+
+  // Decline a transfer
+  app.post(
+    '/ownership-transfers/:transferId/decline',
+    {
+      schema: {
+        tags: ['Internal - Groups'],
+        summary: '[Internal] Decline an ownership transfer',
+        description: 'Decline ownership of the group. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ transferId: z.string().min(1) })),
+        response: {
+          200: zodToJsonSchemaFastify(transferResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { transferId } = request.params as { transferId: string };
+      const { transfer } = await requireIncomingTransfer(request, reply, transferId);
+
+      const updated = await db.group_ownership_transfers.update({
+        where: { id: transfer.id },
+        data: { status: 'declined', responded_at: new Date() },
+      });
+
+      reply.send(toTransferResponse(updated));
+    }
+  );
+}
@@ -1,8 +1,8 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
-import { prisma as db } from '../../db.js';
 import { createShareLink } from '../../services/share-links.js';
 import { requireAuth } from '../../utils/auth.js';
+import { getGroupRole, roleCan } from '../../utils/group-permissions.js';
 import { findOrCreateUser } from '../../utils/user-helpers.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
@@ -40,30 +40,16 @@ export async function registerInternalShareLinkRoutes(app: FastifyInstance): Pro
 
       const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
 
-      const group = await db.groups.findUnique({
-        where: { id: body.groupId },
-      });
+      const access = await getGroupRole(body.groupId, user.id);
 
-      if (!group) {
+      if (!access) {
         reply.code(404);
         throw new Error('Group not found');
       }
 
-      const isOwner = group.owner_id === user.id;
-      const membership = await db.group_members.findUnique({
-        where: {
-          group_id_user_id: {
-            group_id: body.groupId,
-            user_id: user.id,
-          },
-        },
-      });
-
-      const isActiveMember = membership && ['active', 'accepted'].includes(membership.status);
-
-      if (!isOwner && !isActiveMember) {
+      if (!access.role || !roleCan(access.role, 'locations:share')) {
         reply.code(403);
-        throw new Error('You must be the group owner or an active member to create a share link');
+        throw new Error('Your role in the group does not allow creating share links');
       }
 
       const result = await createShareLink({
@@ -1,9 +1,26 @@
+import { Readable } from 'node:stream';
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { prisma as db } from '../../db.js';
+import { eraseUserData, exportUserData } from '../../services/user-data.js';
 import { requireAuth } from '../../utils/auth.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
+const erasureQuery = z.object({
+  ownedGroups: z.enum(['transfer', 'delete']).default('transfer'),
+});
+
+const erasureResponse = z.object({
+  groupsTransferred: z.array(z.object({ groupId: z.string(), newOwnerId: z.string() })),
+  groupsDeleted: z.array(z.string()),
+  locationsDeleted: z.number().int(),
+  locationSharesDeleted: z.number().int(),
+  membershipsDeleted: z.number().int(),
+  invitationsDeleted: z.number().int(),
+  shareLinksAnonymised: z.number().int(),
+  apiKeysAnonymised: z.number().int(),
+});
+
 /**
  * Internal routes for user management
  * These require Auth0 authentication
@@ -66,4 +83,70 @@ export async function registerUserRoutes(app: FastifyInstance): Promise<void> {
       }
     }
   );
+
+  // Download everything stored about the current user (subject access request)
+  app.get(
+    '/users/me/export',
+    {
+      schema: {
+        tags: ['Internal - Users'],
+        summary: '[Internal] Export your data',
+        description:
+          'Download a JSON archive of everything stored about you: your user record, owned groups, ' +
+          'memberships, invitations received and sent, location shares, share links and API keys you ' +
+          'created, and the locations of your devices (the user ID and every device you shared from). ' +
+          'Locations are streamed, so large histories do not time out. Requires Auth0 authentication.',
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+
+      const chunks = await exportUserData(auth.sub);
+      if (!chunks) {
+        reply.code(404);
+        throw new Error('User not found');
+      }
+
+      reply
+        .type('application/json')
+        .header('Content-Disposition', `attachment; filename="gofindme-export-${auth.sub}.json"`);
+      return reply.send(Readable.from(chunks));
+    }
+  );
+
+  // Erase the current user (right to erasure)
+  app.delete(
+    '/users/me',
+    {
+      schema: {
+        tags: ['Internal - Users'],
+        summary: '[Internal] Delete your account and data',
+        description:
+          'Erase your user record, memberships, received invitations, location shares and the locations ' +
+          'of your devices. Share links, API keys and invitations you created stay with their groups but ' +
+          'no longer reference you. Groups you own are handed to their longest-standing admin, or else ' +
+          'active member (ownedGroups=transfer, default; groups without one are deleted) or deleted with ' +
+          'their data (ownedGroups=delete). Signing in again starts a new, empty account. Requires Auth0 ' +
+          'authentication.',
+        querystring: zodToJsonSchemaFastify(erasureQuery),
+        response: {
+          200: zodToJsonSchemaFastify(erasureResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const query = erasureQuery.parse(request.query);
+
+      const user = await db.users.findUnique({ where: { id: auth.sub }, select: { id: true } });
+      if (!user) {
+        reply.code(404);
+        throw new Error('User not found');
+      }
+
+      reply.send(await eraseUserData(user.id, query.ownedGroups));
+    }
+  );
 }
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { buildApp } from '../../app.js';
+import { env } from '../../config/env.js';
+import { prisma as db } from '../../db.js';
+import { createApiKey } from '../../services/api-keys.js';
+import { openWebhookSecret, sealWebhookSecret } from '../../services/webhook-secrets.js';
+import { generateFakeAuth0Token } from '../public/tests/helpers/test-auth.js';
+
+describe('Webhook delivery routes', () => {
+  let fastify: ReturnType<typeof Fastify>;
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await buildApp(fastify);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  it('should accept a redeliver request without a body', async () => {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/internal/api-keys/key-1/webhook-deliveries/redeliver',
+    });
+
+    // Passes validation and stops at authentication
+    expect(response.statusCode).toBe(401);
+  });
+});
+
+describe.skipIf(!env.DATABASE_URL)('Webhook routes', () => {
+  const userIds = ['webhook-owner', 'webhook-member', 'webhook-outsider'];
+  let fastify: ReturnType<typeof Fastify>;
+  let keyId: string;
+  let webhookId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: { in: userIds } } });
+    await db.users.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  function request(userId: string, method: 'GET' | 'POST' | 'PATCH' | 'DELETE', path: string) {
+    return (payload?: object) =>
+      fastify.inject({
+        method,
+        url: `/api/internal/api-keys/${keyId}/webhooks${path}`,
+        headers: { authorization: `Bearer ${generateFakeAuth0Token(userId)}` },
+        ...(payload && { payload }),
+      });
+  }
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await buildApp(fastify);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const id of userIds) {
+      await db.users.create({ data: { id, email: `${id}@test.example.com` } });
+    }
+    const group = await db.groups.create({
+      data: { name: 'Webhooks', owner_id: 'webhook-owner' },
+    });
+    await db.group_members.createMany({
+      data: [
+        { group_id: group.id, user_id: 'webhook-owner', status: 'active', role: 'owner' },
+        { group_id: group.id, user_id: 'webhook-member', status: 'active', role: 'member' },
+      ],
+    });
+
+    await createApiKey(group.id, 'Webhooks', 'webhook-owner');
+    keyId = (await db.api_keys.findFirstOrThrow({ where: { group_id: group.id } })).id;
+
+    const webhook = await db.webhooks.create({
+      data: {
+        api_key_id: keyId,
+        url: 'https://example.com/hooks',
+        secret: sealWebhookSecret('whsec_existing', 'test-webhook-secret-key-0123456789abcdef'),
+        events: ['location.update'],
+      },
+    });
+    webhookId = webhook.id;
+  });
+
+  afterEach(cleanUp);
+
+  it('should list webhooks without their secrets', async () => {
+    const response = await request('webhook-owner', 'GET', '')();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().items).toEqual([
+      expect.objectContaining({ id: webhookId, url: 'https://example.com/hooks' }),
+    ]);
+    expect(response.body).not.toContain('secret');
+  });
+
+  it('should update and delete a webhook for the owner', async () => {
+    const updated = await request('webhook-owner', 'PATCH', `/${webhookId}`)({ active: false });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.json()).toMatchObject({ id: webhookId, active: false });
+
+    const deleted = await request('webhook-owner', 'DELETE', `/${webhookId}`)();
+    expect(deleted.statusCode).toBe(200);
+    expect((await request('webhook-owner', 'DELETE', `/${webhookId}`)()).statusCode).toBe(404);
+  });
+
+  it.skipIf(!env.WEBHOOK_SECRET_KEY)(
+    'should return a new secret once and store it encrypted',
+    async () => {
+      const response = await request(
+        'webhook-owner',
+        'POST',
+        ''
+      )({ url: 'https://example.com/new' });
+
+      expect(response.statusCode).toBe(201);
+      const { id, secret } = response.json();
+      const stored = await db.webhooks.findUniqueOrThrow({ where: { id } });
+      expect(stored.secret).not.toContain(secret);
+      expect(openWebhookSecret(stored.secret, env.WEBHOOK_SECRET_KEY)).toBe(secret);
+    }
+  );
+
+  it.skipIf(!!env.WEBHOOK_SECRET_KEY)('should not store secrets without a key', async () => {
+    const created = await request('webhook-owner', 'POST', '')({ url: 'https://example.com/new' });
+    const rotated = await request(
+      'webhook-owner',
+      'PATCH',
+      `/${webhookId}`
+    )({
+      secret: 'whsec_0123456789abcdef',
+    });
+
+    expect(created.statusCode).toBe(503);
+    expect(rotated.statusCode).toBe(503);
+  });
+
+  it('should not let members or outsiders manage webhooks', async () => {
+    for (const userId of ['webhook-member', 'webhook-outsider']) {
+      const responses = await Promise.all([
+        request(userId, 'GET', '')(),
+        request(userId, 'POST', '')({ url: 'https://example.com/new' }),
+        request(userId, 'PATCH', `/${webhookId}`)({ url: 'https://example.com/moved' }),
+        request(userId, 'DELETE', `/${webhookId}`)(),
+      ]);
+
+      expect(responses.map((response) => response.statusCode)).toEqual([403, 403, 403, 403]);
+    }
+    expect(await db.webhooks.findUnique({ where: { id: webhookId } })).toMatchObject({
+      url: 'https://example.com/hooks',
+    });
+  });
+});
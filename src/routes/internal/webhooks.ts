@@ -0,0 +1,445 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { prisma as db } from '../../db.js';
+import { activeApiKeyWhere, hasApiKeyScope } from '../../services/api-keys.js';
+import { env } from '../../config/env.js';
+import { WEBHOOK_EVENTS } from '../../services/webhook.js';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  webhookDeliveryQueue,
+} from '../../services/webhook-deliveries.js';
+import { sealWebhookSecret } from '../../services/webhook-secrets.js';
+import { requireAuth } from '../../utils/auth.js';
+import { hasGroupPermission } from '../../utils/group-permissions.js';
+import { findOrCreateUser } from '../../utils/user-helpers.js';
+import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
+
+const webhookResponse = z.object({
+  id: z.string(),
+  apiKeyId: z.string(),
+  url: z.string(),
+  events: z.array(z.string()),
+  active: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const createWebhookBody = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16).max(256).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).default(['location.update']),
+});
+
+const updateWebhookBody = z.object({
+  url: z.string().url().optional(),
+  secret: z.string().min(16).max(256).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  active: z.boolean().optional(),
+});
+
+const deliveryResponse = z.object({
+  id: z.string(),
+  webhookId: z.string(),
+  event: z.string(),
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+  attempts: z.number(),
+  nextAttemptAt: z.string().nullable(),
+  lastAttemptAt: z.string().nullable(),
+  lastStatus: z.number().nullable(),
+  lastResponse: z.string().nullable(),
+  deliveredAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+const listDeliveriesQuery = z.object({
+  // Dead-lettered deliveries are the ones that need attention; all lists the full log
+  status: z.enum([...WEBHOOK_DELIVERY_STATUSES, 'all']).default('dead'),
+  webhookId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const redeliverBody = z.object({
+  webhookId: z.string().optional(),
+});
+
+type WebhookRow = {
+  id: string;
+  api_key_id: string;
+  url: string;
+  events: string[];
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+};
+
+function toWebhookResponse(row: WebhookRow): z.infer<typeof webhookResponse> {
+  return {
+    id: row.id,
+    apiKeyId: row.api_key_id,
+    url: row.url,
+    events: row.events,
+    active: row.active,
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+type DeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  last_status: number | null;
+  last_response: string | null;
+  delivered_at: Date | null;
+  created_at: Date;
+};
+
+function toDeliveryResponse(row: DeliveryRow): z.infer<typeof deliveryResponse> {
+  const status = row.status as z.infer<typeof deliveryResponse>['status'];
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status,
+    attempts: row.attempts,
+    // Only meaningful while a retry is still scheduled
+    nextAttemptAt:
+      status === 'pending' || status === 'failed' ? row.next_attempt_at.toISOString() : null,
+    lastAttemptAt: row.last_attempt_at?.toISOString() ?? null,
+    lastStatus: row.last_status,
+    lastResponse: row.last_response,
+    deliveredAt: row.delivered_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Key that encrypts webhook secrets at rest
+ * Sends 503 and throws when WEBHOOK_SECRET_KEY is not configured
+ */
+function requireWebhookSecretKey(reply: FastifyReply): string {
+  const key = env.WEBHOOK_SECRET_KEY;
+  if (!key) {
+    reply.code(503);
+    throw new Error('Webhook secrets cannot be stored: WEBHOOK_SECRET_KEY is not configured');
+  }
+  return key;
+}
+
+/**
+ * Load an API key and verify the authenticated user manages the API keys of its group
+ * Sends 404/403 and throws when the key is missing, out of their reach, or lacks the
+ * webhooks:manage scope
+ */
+async function requireOwnedApiKey(request: FastifyRequest, reply: FastifyReply, keyId: string) {
+  const auth = await requireAuth(request, reply);
+  const user = await findOrCreateUser(auth.sub, auth.email, auth.name);
+
+  const apiKey = await db.api_keys.findFirst({
+    where: { id: keyId, ...activeApiKeyWhere() },
+    include: { groups: true },
+  });
+
+  if (!apiKey) {
+    reply.code(404);
+    throw new Error('API key not found');
+  }
+
+  if (!(await hasGroupPermission(apiKey.group_id, user.id, 'api-keys:manage'))) {
+    reply.code(403);
+    throw new Error('You do not have permission to manage webhooks for this API key');
+  }
+
+  if (!hasApiKeyScope(apiKey, 'webhooks:manage')) {
+    reply.code(403);
+    throw new Error('API key is missing the webhooks:manage scope');
+  }
+
+  return apiKey;
+}
+
+/**
+ * Internal routes for webhook subscriptions
+ * Webhooks are attached to an API key and receive signed pushes for every
+ * event published to the key's group that they subscribe to
+ * (see WebhookDeliveryQueue.dispatch)
+ * These require Auth0 authentication
+ */
+export async function registerInternalWebhookRoutes(app: FastifyInstance): Promise<void> {
+  // Register a webhook for an API key
+  app.post(
+    '/api-keys/:keyId/webhooks',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] Register a webhook for an API key',
+        description:
+          'Register an HTTPS endpoint that receives location and geofence events for the group of the API key. ' +
+          'Payloads are signed with HMAC-SHA256 in the X-GoFindMe-Signature header. ' +
+          'If no secret is supplied one is generated; it is only returned in this response and stored encrypted. ' +
+          'Responds with 503 when WEBHOOK_SECRET_KEY is not configured. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        body: zodToJsonSchemaFastify(createWebhookBody),
+        response: {
+          201: zodToJsonSchemaFastify(webhookResponse.extend({ secret: z.string() })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+      const body = createWebhookBody.parse(request.body);
+
+      const key = requireWebhookSecretKey(reply);
+
+      const secret = body.secret ?? `whsec_${nanoid(32)}`;
+      const webhook = await db.webhooks.create({
+        data: {
+          api_key_id: apiKey.id,
+          url: body.url,
+          secret: sealWebhookSecret(secret, key),
+          events: body.events,
+        },
+      });
+
+      reply.code(201).send({ ...toWebhookResponse(webhook), secret });
+    }
+  );
+
+  // List webhooks for an API key
+  app.get(
+    '/api-keys/:keyId/webhooks',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] List webhooks for an API key',
+        description: 'List webhook subscriptions for an API key. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ items: z.array(webhookResponse) })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+
+      const rows = await db.webhooks.findMany({
+        where: { api_key_id: apiKey.id },
+        orderBy: { created_at: 'asc' },
+      });
+
+      reply.send({ items: rows.map(toWebhookResponse) });
+    }
+  );
+
+  // Update a webhook
+  app.patch(
+    '/api-keys/:keyId/webhooks/:webhookId',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] Update a webhook',
+        description:
+          'Change the URL, secret, event filter or active flag of a webhook. Changing the secret responds with 503 ' +
+          'when WEBHOOK_SECRET_KEY is not configured. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ keyId: z.string().min(1), webhookId: z.string().min(1) })
+        ),
+        body: zodToJsonSchemaFastify(updateWebhookBody),
+        response: {
+          200: zodToJsonSchemaFastify(webhookResponse),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId, webhookId } = request.params as { keyId: string; webhookId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+      const body = updateWebhookBody.parse(request.body);
+
+      const webhook = await db.webhooks.findFirst({
+        where: { id: webhookId, api_key_id: apiKey.id },
+      });
+
+      if (!webhook) {
+        reply.code(404);
+        throw new Error('Webhook not found');
+      }
+
+      const secret =
+        body.secret !== undefined
+          ? sealWebhookSecret(body.secret, requireWebhookSecretKey(reply))
+          : undefined;
+
+      const updated = await db.webhooks.update({
+        where: { id: webhookId },
+        data: {
+          ...(body.url !== undefined && { url: body.url }),
+          ...(secret !== undefined && { secret }),
+          ...(body.events !== undefined && { events: body.events }),
+          ...(body.active !== undefined && { active: body.active }),
+        },
+      });
+
+      reply.send(toWebhookResponse(updated));
+    }
+  );
+
+  // Delete a webhook
+  app.delete(
+    '/api-keys/:keyId/webhooks/:webhookId',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] Delete a webhook',
+        description: 'Remove a webhook subscription. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ keyId: z.string().min(1), webhookId: z.string().min(1) })
+        ),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ success: z.boolean() })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId, webhookId } = request.params as { keyId: string; webhookId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+
+      const result = await db.webhooks.deleteMany({
+        where: { id: webhookId, api_key_id: apiKey.id },
+      });
+
+      if (result.count === 0) {
+        reply.code(404);
+        throw new Error('Webhook not found');
+      }
+
+      reply.send({ success: true });
+    }
+  );
+
+  // List webhook deliveries for an API key (defaults to dead-lettered ones)
+  app.get(
+    '/api-keys/:keyId/webhook-deliveries',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] List webhook deliveries for an API key',
+        description:
+          'List the delivery log for all webhooks of an API key, newest first. ' +
+          'Lists dead-lettered deliveries unless status is given: pending, failed, delivered, dead, or all for ' +
+          'the full log. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        querystring: zodToJsonSchemaFastify(listDeliveriesQuery),
+        response: {
+          200: zodToJsonSchemaFastify(z.object({ items: z.array(deliveryResponse) })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+      const query = listDeliveriesQuery.parse(request.query);
+
+      const rows = await db.webhook_deliveries.findMany({
+        where: {
+          webhooks: { api_key_id: apiKey.id },
+          ...(query.webhookId && { webhook_id: query.webhookId }),
+          ...(query.status !== 'all' && { status: query.status }),
+        },
+        orderBy: { created_at: 'desc' },
+        take: query.limit,
+      });
+
+      reply.send({ items: rows.map(toDeliveryResponse) });
+    }
+  );
+
+  // Redeliver a single delivery
+  app.post(
+    '/api-keys/:keyId/webhook-deliveries/:deliveryId/redeliver',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] Redeliver a webhook delivery',
+        description:
+          'Reset a failed or dead-lettered delivery so it is attempted again with a fresh retry budget. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(
+          z.object({ keyId: z.string().min(1), deliveryId: z.string().min(1) })
+        ),
+        response: {
+          202: zodToJsonSchemaFastify(z.object({ queued: z.number() })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId, deliveryId } = request.params as { keyId: string; deliveryId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+
+      const delivery = await db.webhook_deliveries.findFirst({
+        where: { id: deliveryId, webhooks: { api_key_id: apiKey.id } },
+      });
+
+      if (!delivery) {
+        reply.code(404);
+        throw new Error('Webhook delivery not found');
+      }
+
+      if (delivery.status === 'delivered') {
+        reply.code(409);
+        throw new Error('Webhook delivery has already been delivered');
+      }
+
+      const queued = await webhookDeliveryQueue.redeliver([delivery.id]);
+      reply.code(202).send({ queued });
+    }
+  );
+
+  // Redeliver every dead-lettered delivery for an API key
+  app.post(
+    '/api-keys/:keyId/webhook-deliveries/redeliver',
+    {
+      schema: {
+        tags: ['Internal - Webhooks'],
+        summary: '[Internal] Redeliver dead-lettered webhook deliveries',
+        description:
+          'Requeue all dead-lettered deliveries for an API key, optionally limited to one webhook. Requires Auth0 authentication.',
+        params: zodToJsonSchemaFastify(z.object({ keyId: z.string().min(1) })),
+        // Nullable so the body can be left out
+        body: zodToJsonSchemaFastify(redeliverBody.nullable()),
+        response: {
+          202: zodToJsonSchemaFastify(z.object({ queued: z.number() })),
+        },
+        security: [{ bearerAuth: [] }],
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const { keyId } = request.params as { keyId: string };
+      const apiKey = await requireOwnedApiKey(request, reply, keyId);
+      const body = redeliverBody.parse(request.body ?? {});
+
+      const dead = await db.webhook_deliveries.findMany({
+        where: {
+          status: 'dead',
+          webhooks: { api_key_id: apiKey.id },
+          ...(body.webhookId && { webhook_id: body.webhookId }),
+        },
+        select: { id: true },
+      });
+
+      const queued = await webhookDeliveryQueue.redeliver(dead.map((delivery) => delivery.id));
+      reply.code(202).send({ queued });
+    }
+  );
+}
@@ -2,6 +2,7 @@ import type { FastifyInstance } from 'fastify';
 import { registerPublicGroupRoutes } from './groups.js';
 import { registerPublicLocationRoutes } from './locations.js';
 import { registerShareLinkPublicRoutes } from './share-links.js';
+import { registerPublicStreamRoutes } from './stream.js';
 
 /**
  * Register all public routes (for npm package / API key users)
@@ -11,4 +12,5 @@ export async function registerPublicRoutes(app: FastifyInstance): Promise<void>
   await app.register(registerPublicLocationRoutes);
   await app.register(registerPublicGroupRoutes);
   await app.register(registerShareLinkPublicRoutes);
+  await app.register(registerPublicStreamRoutes);
 }
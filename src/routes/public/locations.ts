@@ -1,12 +1,75 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest, FastifySchema } from 'fastify';
+import type { ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
 import { nanoid } from 'nanoid';
 import { z } from 'zod';
 import { prisma as db } from '../../db.js';
-import { locationBus } from '../../services/bus.js';
+import { locationBus, type GroupEvent } from '../../services/bus.js';
+import {
+  apiKeyUsage,
+  countDeliveredLocations,
+  createStreamClock,
+} from '../../services/api-key-usage.js';
+import { isDeviceAllowed } from '../../services/api-keys.js';
+import { evaluateGeofences } from '../../services/geofences.js';
 import { locationBatcher } from '../../services/location-batcher.js';
+import {
+  deliversBatched,
+  deliversRealtime,
+  realtimeThrottle,
+} from '../../services/location-delivery.js';
+import {
+  applyRacedSubmissions,
+  newestLocationsByGroup,
+  planLocationBatch,
+} from '../../services/location-batch.js';
+import {
+  checkLocationQuality,
+  findPreviousFix,
+  loadQualityPolicies,
+  withQualityIssues,
+} from '../../services/location-quality.js';
+import { isShareLive } from '../../services/location-shares.js';
+import {
+  decodeHistoryCursor,
+  loadLocationHistoryPage,
+  type HistoryCursor,
+} from '../../services/location-history.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  iterateLocationsForExport,
+  resolveExportFormat,
+  toCsv,
+  toGeoJson,
+  toGpx,
+} from '../../services/location-export.js';
+import {
+  createStreamFilter,
+  parseBoundingBox,
+  type StreamScope,
+} from '../../services/stream-filters.js';
+import {
+  compareStreamPositions,
+  createReplayGate,
+  decodeStreamEventId,
+  encodeStreamEventId,
+  loadReplayLocations,
+  STREAM_RETRY_MS,
+  type StreamPosition,
+} from '../../services/stream-replay.js';
 import { env } from '../../config/env.js';
-import { requireApiKey } from '../../utils/api-key.js';
+import { allowedDevicesWhere, requireApiKey } from '../../utils/api-key.js';
 import { requireAuth } from '../../utils/auth.js';
+import { rolesWith } from '../../utils/group-permissions.js';
+import {
+  findSubmittedLocation,
+  findSubmittedLocations,
+  getIdempotencyKey,
+  isUniqueViolation,
+  replaySubmittedLocation,
+} from '../../utils/idempotency.js';
+import type { LocationUpdatePayload } from '../../types/location.js';
 import { zodToJsonSchemaFastify } from '../../utils/zod-to-json-schema.js';
 
 const locationPayload = z.object({
@@ -20,6 +83,7 @@ const locationPayload = z.object({
   payloadVersion: z.string().default('v1'),
   metadata: z.record(z.any()).optional(),
   groupIds: z.array(z.string().min(4)).optional(), // Optional: specify which groups this location is for
+  clientId: z.string().min(1).max(128).optional(), // Optional: idempotency key, unique per device
 });
 
 const ingestionResponse = z.object({
@@ -27,13 +91,186 @@ const ingestionResponse = z.object({
   receivedAt: z.string(),
 });
 
+const MAX_LOCATION_BATCH_SIZE = 500;
+
+const locationBatchPayload = z.object({
+  items: z.array(locationPayload).min(1).max(MAX_LOCATION_BATCH_SIZE),
+});
+
+const batchIngestionResponse = z.object({
+  accepted: z.number().int(),
+  rejected: z.number().int(),
+  items: z.array(
+    z.object({
+      index: z.number().int(),
+      status: z.enum(['accepted', 'rejected']),
+      id: z.string().optional(),
+      receivedAt: z.string().optional(),
+      error: z.string().optional(),
+    })
+  ),
+});
+
+const locationResponse = z.object({
+  id: z.string(),
+  groupId: z.string(),
+  deviceId: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: z.number().nullable(),
+  heading: z.number().nullable(),
+  speed: z.number().nullable(),
+  recordedAt: z.string(),
+  receivedAt: z.string(),
+  metadata: z.record(z.any()).nullable(),
+});
+
+const historyQuery = z.object({
+  deviceId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  cursor: z.string().optional(),
+});
+
+const exportQuery = z.object({
+  deviceId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(EXPORT_FORMATS).optional(),
+  geometry: z.enum(['points', 'linestring']).default('points'),
+});
+
+type LocationRow = {
+  id: string;
+  group_id: string;
+  device_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  recorded_at: Date;
+  received_at: Date;
+  metadata: string | null;
+};
+
+const streamQuery = z.object({
+  deviceIds: z.string().min(1).optional(),
+  bbox: z.string().min(1).optional(),
+  minDistanceMeters: z.coerce.number().min(0).optional(),
+  minIntervalSeconds: z.coerce.number().min(0).optional(),
+});
+
 const KEEPALIVE_MS = 15000;
 
+// Open SSE responses; they are hijacked, so app.close() would otherwise wait for them
+const openStreams = new Set<ServerResponse>();
+
 type DocumentedSchema = FastifySchema & {
   tags?: string[];
   security?: Array<Record<string, unknown>>;
 };
 
+/**
+ * Find or create the user submitting locations from their Auth0 token
+ * @returns The user ID (the Auth0 sub)
+ */
+async function resolveSubmittingUser(auth: {
+  sub: string;
+  email?: string;
+  name?: string;
+}): Promise<string> {
+  // Find or create user from Auth0 token
+  let user = await db.users.findFirst({
+    where: {
+      OR: [{ email: auth.email as string }, { id: auth.sub }],
+    },
+  });
+
+  if (!user && auth.email) {
+    user = await db.users.create({
+      data: {
+        id: auth.sub,
+        email: auth.email as string,
+        name: auth.name as string | undefined,
+      },
+    });
+  } else if (user && user.id !== auth.sub) {
+    // Update user ID to match Auth0 sub if different
+    user = await db.users.update({
+      where: { id: user.id },
+      data: { id: auth.sub },
+    });
+  }
+
+  // The Auth0 token identifies the user (auth.sub is the user ID)
+  return user?.id ?? auth.sub;
+}
+
+/**
+ * Deliver a stored location to its target groups
+ * Location data is ALWAYS saved to the database first, regardless of API keys.
+ * If a group has no API keys/subscribers, the publish will simply have no listeners (that's fine)
+ */
+async function publishSubmittedLocation(
+  userId: string,
+  targetGroupIds: string[],
+  location: LocationUpdatePayload
+): Promise<void> {
+  const { deviceId } = location;
+  if (targetGroupIds.length === 0) {
+    return;
+  }
+
+  // The latest location share per group determines its update frequency (if one exists)
+  const latestShares = await db.location_shares.findMany({
+    where: {
+      user_id: userId,
+      group_id: { in: targetGroupIds },
+    },
+    orderBy: { started_at: 'desc' },
+    distinct: ['group_id'],
+  });
+
+  // Each group's delivery policy decides between immediate pushes, batching or both
+  const groupPolicies = await db.groups.findMany({
+    where: { id: { in: targetGroupIds } },
+    select: { id: true, delivery_policy: true },
+  });
+  const policyOf = (groupId: string) =>
+    groupPolicies.find((g) => g.id === groupId)?.delivery_policy ?? 'both';
+
+  // Immediately push location data to all connected clients whose API keys have access to the target groups
+  // The bus will only push to groups that have active subscribers (connected clients)
+  // A live share's frequency caps how often this user/device is pushed to the group
+  const realtimeGroupIds = targetGroupIds.filter((groupId) => {
+    if (!deliversRealtime(policyOf(groupId))) {
+      return false;
+    }
+    const share = latestShares.find((s) => s.group_id === groupId);
+    const frequencySeconds = share && isShareLive(share) ? share.frequency : null;
+    return realtimeThrottle.allow(groupId, userId, deviceId, frequencySeconds);
+  });
+  locationBus.publishLocationToGroups(realtimeGroupIds, location);
+
+  // Queue update for each target group with its configured frequency for scheduled batching
+  // This allows clients to receive updates at configured intervals even if they connect later
+  for (const groupId of targetGroupIds) {
+    if (!deliversBatched(policyOf(groupId))) {
+      continue;
+    }
+    const share = latestShares.find((s) => s.group_id === groupId);
+    // Once a share has ended or run out, the group stops receiving batched updates
+    if (share && !isShareLive(share)) {
+      continue;
+    }
+    const frequencySeconds = share?.frequency ?? 30; // Default 30 seconds if not set
+
+    locationBatcher.queueLocationUpdate(groupId, location, userId, deviceId, frequencySeconds);
+  }
+}
+
 /**
  * Public routes for location tracking
  *
@@ -51,12 +288,24 @@ type DocumentedSchema = FastifySchema & {
  * - Updates are batched and published at scheduled intervals
  * - Only the latest location per user/device is kept in each group's queue
  *
+ * Delivery policy (groups.delivery_policy):
+ * - realtime: pushed immediately, at most once per share frequency; never batched
+ * - batched: only published by the batcher
+ * - both (default): immediate (throttled) pushes plus the batched schedule
+ *
  * Stream subscription:
  * - Requires API key authentication (developer apps)
  * - Apps subscribe to their assigned group's events
  * - They only receive location updates for users in their group
  */
 export async function registerPublicLocationRoutes(app: FastifyInstance) {
+  // End streams on shutdown; clients reconnect (with Last-Event-ID) to another instance
+  app.addHook('preClose', async () => {
+    for (const res of openStreams) {
+      res.end();
+    }
+  });
+
   // Submit location update
   app.post(
     '/locations',
@@ -65,7 +314,9 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         tags: ['Locations'],
         summary: 'Submit a device location update',
         description:
-          'Endpoint for users to submit their location data. Requires Auth0 authentication.',
+          'Endpoint for users to submit their location data. Send an Idempotency-Key header (or clientId) to make retries ' +
+          'safe: a repeated key for the same device returns the original 202 response without storing or publishing ' +
+          'the location again. Requires Auth0 authentication.',
         body: zodToJsonSchemaFastify(locationPayload),
         response: { 202: zodToJsonSchemaFastify(ingestionResponse) },
         security: [{ bearerAuth: [] }],
@@ -75,33 +326,19 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
       const auth = await requireAuth(request, reply);
       const body = locationPayload.parse(request.body);
 
-      // Find or create user from Auth0 token
-      let user = await db.users.findFirst({
-        where: {
-          OR: [{ email: auth.email as string }, { id: auth.sub }],
-        },
-      });
+      const userId = await resolveSubmittingUser(auth);
+      const deviceId = body.deviceId || userId; // Use userId as deviceId if not provided
 
-      if (!user && auth.email) {
-        user = await db.users.create({
-          data: {
-            id: auth.sub,
-            email: auth.email as string,
-            name: auth.name as string | undefined,
-          },
-        });
-      } else if (user && user.id !== auth.sub) {
-        // Update user ID to match Auth0 sub if different
-        user = await db.users.update({
-          where: { id: user.id },
-          data: { id: auth.sub },
-        });
+      // Retries carrying the same key get the original response instead of a duplicate row
+      const clientId = getIdempotencyKey(request, reply, body.clientId);
+      if (clientId) {
+        const original = await findSubmittedLocation(deviceId, clientId);
+        if (original) {
+          replaySubmittedLocation(reply, original);
+          return;
+        }
       }
 
-      // The Auth0 token identifies the user (auth.sub is the user ID)
-      const userId = user?.id ?? auth.sub;
-      const deviceId = body.deviceId || userId; // Use userId as deviceId if not provided
-
       // Determine which groups this location update is for
       // If groupIds are specified in payload, use those; otherwise use all groups where user is a member
       let targetGroupIds: string[];
@@ -112,9 +349,8 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
           where: {
             user_id: userId,
             group_id: { in: body.groupIds },
-            status: {
-              not: 'pending', // Exclude pending memberships
-            },
+            status: 'active', // Pending, suspended and former members do not share
+            role: { in: rolesWith('locations:share') }, // Viewers do not share their location
           },
         });
         
@@ -124,7 +360,7 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         if (invalidGroupIds.length > 0) {
           reply.code(403);
           throw new Error(
-            `User is not an active member of groups: ${invalidGroupIds.join(', ')}`
+            `User is not an active member sharing locations with groups: ${invalidGroupIds.join(', ')}`
           );
         }
         
@@ -134,9 +370,8 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         const memberships = await db.group_members.findMany({
           where: {
             user_id: userId,
-            status: {
-              not: 'pending', // Exclude pending memberships
-            },
+            status: 'active', // Pending, suspended and former members do not share
+            role: { in: rolesWith('locations:share') },
           },
           select: {
             group_id: true,
@@ -154,12 +389,12 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
       }
 
       // Get user's first group for storage (we still need a group_id for the location record)
+      // Groups read history by group_id, so it must be one the user shares with
       const userGroupMembership = await db.group_members.findFirst({
         where: {
           user_id: userId,
-          status: {
-            not: 'pending',
-          },
+          status: 'active',
+          role: { in: rolesWith('locations:share') },
         },
         orderBy: {
           created_at: 'asc',
@@ -173,6 +408,18 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         );
       }
 
+      // Each target group's quality policy may flag, suppress or reject an implausible fix
+      const quality = await checkLocationQuality(deviceId, body, targetGroupIds);
+      if (quality.rejected) {
+        reply.code(422);
+        throw new Error(`Location rejected by quality policy: ${quality.issues.join(', ')}`);
+      }
+      const metadata = withQualityIssues(
+        body.metadata ?? null,
+        quality.issues,
+        quality.suppressedIn
+      );
+
       const payload = {
         id: nanoid(16),
         groupId: userGroupMembership.group_id, // For storage - location is stored with a group_id
@@ -184,42 +431,50 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         speed: body.speed ?? null,
         recordedAt: body.recordedAt,
         payloadVersion: body.payloadVersion,
-        metadata: body.metadata ? JSON.stringify(body.metadata) : null,
+        metadata: metadata ? JSON.stringify(metadata) : null,
         receivedAt: new Date(),
       };
 
-      const record = await db.locations.create({
-        data: {
-          id: payload.id,
-          group_id: payload.groupId,
-          device_id: payload.deviceId,
-          latitude: payload.latitude,
-          longitude: payload.longitude,
-          accuracy: payload.accuracy,
-          heading: payload.heading,
-          speed: payload.speed,
-          recorded_at: payload.recordedAt,
-          received_at: payload.receivedAt,
-          payload_version: payload.payloadVersion,
-          metadata: payload.metadata,
-        },
-      });
+      const record = await db.locations
+        .create({
+          data: {
+            id: payload.id,
+            group_id: payload.groupId,
+            device_id: payload.deviceId,
+            latitude: payload.latitude,
+            longitude: payload.longitude,
+            accuracy: payload.accuracy,
+            heading: payload.heading,
+            speed: payload.speed,
+            recorded_at: payload.recordedAt,
+            received_at: payload.receivedAt,
+            payload_version: payload.payloadVersion,
+            metadata: payload.metadata,
+            client_id: clientId ?? null,
+            user_id: userId,
+          },
+        })
+        .catch((error: unknown) => {
+          // A concurrent retry with the same key was stored first
+          if (clientId && isUniqueViolation(error)) {
+            return null;
+          }
+          throw error;
+        });
 
-      // Queue location update for batching (bus schedule style)
-      // Location data is ALWAYS saved to the database above, regardless of API keys
-      // We queue for batching for all groups the user is a member of
-      // If a group has no API keys/subscribers, the publish will simply have no listeners (that's fine)
-      // Get active location shares to determine update frequencies (if they exist)
-      const activeShares = await db.location_shares.findMany({
-        where: {
-          user_id: userId,
-          group_id: { in: targetGroupIds },
-          is_active: true,
-        },
-      });
+      if (!record) {
+        const original = await findSubmittedLocation(deviceId, clientId as string);
+        if (!original) {
+          reply.code(409);
+          throw new Error('A location with this Idempotency-Key is being stored; retry shortly');
+        }
+        replaySubmittedLocation(reply, original);
+        return;
+      }
 
       // Create location update payload for batching and immediate push
       const locationUpdatePayload = {
+        id: record.id,
         deviceId: payload.deviceId,
         latitude: body.latitude,
         longitude: body.longitude,
@@ -227,31 +482,20 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         heading: body.heading ?? null,
         speed: body.speed ?? null,
         recordedAt: body.recordedAt,
-        metadata: body.metadata ?? null,
+        metadata,
         payloadVersion: body.payloadVersion,
+        receivedAt: record.received_at,
       };
 
-      // Immediately push location data to all connected clients whose API keys have access to the target groups
-      // The bus will only push to groups that have active subscribers (connected clients)
-      locationBus.publishLocationToGroups(targetGroupIds, locationUpdatePayload);
-
-      // Queue update for each target group with its configured frequency for scheduled batching
-      // This allows clients to receive updates at configured intervals even if they connect later
-      for (const groupId of targetGroupIds) {
-        const share = activeShares.find((s) => s.group_id === groupId);
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        // TypeScript might not recognize new fields until IDE reloads
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const frequencySeconds = (share as any)?.frequency ?? 30; // Default 30 seconds if not set
-        
-        locationBatcher.queueLocationUpdate(
-          groupId,
-          locationUpdatePayload,
-          userId,
-          deviceId,
-          frequencySeconds
-        );
-      }
+      // Push immediately and/or queue for batching, per each group's delivery policy;
+      // groups whose quality policy suppresses or rejects the fix are left out
+      await publishSubmittedLocation(userId, quality.deliverTo, locationUpdatePayload);
+
+      // Geofence transitions are published as their own group events; a failure here
+      // must not reject a location that has already been stored
+      await evaluateGeofences(quality.deliverTo, locationUpdatePayload).catch((error) => {
+        console.error('[Locations] Failed to evaluate geofences', { deviceId, error });
+      });
 
       reply.code(202).send({
         id: record.id,
@@ -260,6 +504,129 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
     }
   );
 
+  // Submit a batch of location updates (e.g. buffered while a device was offline)
+  app.post(
+    '/locations/batch',
+    {
+      schema: {
+        tags: ['Locations'],
+        summary: 'Submit a batch of device location updates',
+        description:
+          `Submit up to ${MAX_LOCATION_BATCH_SIZE} locations at once, e.g. fixes a device buffered while offline. ` +
+          'Group membership is checked once for the whole batch; items targeting a group the user is not an active ' +
+          'member of are rejected individually. Every accepted location is stored and evaluated against geofences, ' +
+          'but only the newest location per device and group is pushed to streams and batches. ' +
+          'Items whose clientId the device already used are answered with the original id and receivedAt, ' +
+          'without being stored or published again. Group quality policies are applied per item, oldest first; ' +
+          'items every target group rejects are reported as rejected. Requires Auth0 authentication.',
+        body: zodToJsonSchemaFastify(locationBatchPayload),
+        response: { 202: zodToJsonSchemaFastify(batchIngestionResponse) },
+        security: [{ bearerAuth: [] }],
+      } as DocumentedSchema,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const auth = await requireAuth(request, reply);
+      const body = locationBatchPayload.parse(request.body);
+      const userId = await resolveSubmittingUser(auth);
+
+      // Oldest membership first: its group is the one locations are stored with
+      const memberships = await db.group_members.findMany({
+        where: {
+          user_id: userId,
+          status: 'active',
+          role: { in: rolesWith('locations:share') },
+        },
+        orderBy: {
+          created_at: 'asc',
+        },
+        select: {
+          group_id: true,
+        },
+      });
+      const memberGroupIds = memberships.map((m) => m.group_id);
+
+      if (memberGroupIds.length === 0) {
+        reply.code(403);
+        throw new Error(
+          'User is not a member of any groups. Join a group before submitting location data.'
+        );
+      }
+
+      // Retried items are answered from the rows their first submission stored
+      const submitted = await findSubmittedLocations(
+        body.items.flatMap((item) =>
+          item.clientId !== undefined ? [{ deviceId: item.deviceId, clientId: item.clientId }] : []
+        )
+      );
+
+      // Items are judged oldest first against their target groups' quality policies
+      const receivedAt = new Date();
+      const { results, accepted } = await planLocationBatch(body.items, {
+        memberGroupIds,
+        submitted,
+        qualityPolicies: await loadQualityPolicies(memberGroupIds),
+        findPreviousFix,
+        receivedAt,
+      });
+
+      const { count } = await db.locations.createMany({
+        skipDuplicates: true,
+        data: accepted.map(({ location, clientId }) => ({
+          id: location.id as string,
+          group_id: memberGroupIds[0],
+          device_id: location.deviceId,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          accuracy: location.accuracy,
+          heading: location.heading,
+          speed: location.speed,
+          recorded_at: location.recordedAt,
+          received_at: receivedAt,
+          payload_version: location.payloadVersion,
+          metadata: location.metadata ? JSON.stringify(location.metadata) : null,
+          client_id: clientId ?? null,
+          user_id: userId,
+        })),
+      });
+
+      // A concurrent request stored some of the keys first: answer those items with its rows
+      // and leave them out of geofencing and publishing
+      if (count < accepted.length) {
+        const originals = await findSubmittedLocations(
+          accepted.flatMap((entry) =>
+            entry.clientId !== undefined
+              ? [{ deviceId: entry.location.deviceId, clientId: entry.clientId }]
+              : []
+          )
+        );
+        applyRacedSubmissions(accepted, results, originals);
+      }
+
+      // Accepted in recordedAt order, so geofences see buffered fixes oldest first
+      for (const { location, targetGroupIds } of accepted) {
+        await evaluateGeofences(targetGroupIds, location).catch((error) => {
+          console.error('[Locations] Failed to evaluate geofences', {
+            deviceId: location.deviceId,
+            error,
+          });
+        });
+      }
+
+      // Only the newest location per device and group is published; older ones are history
+      for (const [location, groupIds] of newestLocationsByGroup(accepted)) {
+        await publishSubmittedLocation(userId, groupIds, location);
+      }
+
+      results.sort((a, b) => a.index - b.index);
+      const acceptedCount = results.filter((r) => r.status === 'accepted').length;
+      reply.code(202).send({
+        accepted: acceptedCount,
+        rejected: results.length - acceptedCount,
+        items: results,
+      });
+    }
+  );
+
   // Query latest locations
   app.get(
     '/locations',
@@ -278,21 +645,7 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         response: {
           200: zodToJsonSchemaFastify(
             z.object({
-              items: z.array(
-                z.object({
-                  id: z.string(),
-                  groupId: z.string(),
-                  deviceId: z.string(),
-                  latitude: z.number(),
-                  longitude: z.number(),
-                  accuracy: z.number().nullable(),
-                  heading: z.number().nullable(),
-                  speed: z.number().nullable(),
-                  recordedAt: z.string(),
-                  receivedAt: z.string(),
-                  metadata: z.record(z.any()).nullable(),
-                })
-              ),
+              items: z.array(locationResponse),
             })
           ),
         },
@@ -300,25 +653,11 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
       } as DocumentedSchema,
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
-      const apiKey = await requireApiKey(request, reply);
+      const apiKey = await requireApiKey(request, reply, 'locations:read');
       const query = request.query as { deviceId?: string; limit?: number };
 
       // Use DISTINCT ON to get the most recent location per device
       // This PostgreSQL-specific feature efficiently returns one row per device_id
-      type LocationRow = {
-        id: string;
-        group_id: string;
-        device_id: string;
-        latitude: number;
-        longitude: number;
-        accuracy: number | null;
-        heading: number | null;
-        speed: number | null;
-        recorded_at: Date;
-        received_at: Date;
-        metadata: string | null;
-      };
-
       let locations: LocationRow[];
 
       if (query.deviceId) {
@@ -360,29 +699,125 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
           WHERE group_id = ${apiKey.group_id}
           ORDER BY device_id, recorded_at DESC
         `;
+        locations = locations.filter((loc) => isDeviceAllowed(apiKey, loc.device_id));
       }
 
       // Apply limit if specified (limit is applied after getting latest per device)
       const limitedLocations = query.limit ? locations.slice(0, query.limit) : locations;
+      apiKeyUsage.record(apiKey.id, { locationsDelivered: limitedLocations.length });
 
       reply.send({
-        items: limitedLocations.map((loc) => ({
-          id: loc.id,
-          groupId: loc.group_id,
-          deviceId: loc.device_id,
-          latitude: loc.latitude,
-          longitude: loc.longitude,
-          accuracy: loc.accuracy,
-          heading: loc.heading,
-          speed: loc.speed,
-          recordedAt: loc.recorded_at.toISOString(),
-          receivedAt: loc.received_at.toISOString(),
-          metadata: loc.metadata ? JSON.parse(loc.metadata) : null,
-        })),
+        items: limitedLocations.map(toLocationResponse),
+      });
+    }
+  );
+
+  // Query location history (trail) with cursor pagination
+  app.get(
+    '/locations/history',
+    {
+      schema: {
+        tags: ['Locations'],
+        summary: 'Get location history',
+        description:
+          'Returns every stored location within the authorized group of the API key in chronological order (oldest first). ' +
+          'Filter by device and time range; pass the returned nextCursor to fetch the next page. Requires API key authentication via X-API-Key header.',
+        querystring: zodToJsonSchemaFastify(historyQuery),
+        response: {
+          200: zodToJsonSchemaFastify(
+            z.object({
+              items: z.array(locationResponse),
+              nextCursor: z.string().nullable(),
+            })
+          ),
+        },
+        security: [{ apiKey: [] }],
+      } as DocumentedSchema,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const apiKey = await requireApiKey(request, reply, 'locations:history');
+      const query = historyQuery.parse(request.query);
+
+      let cursor: HistoryCursor | null = null;
+      if (query.cursor) {
+        cursor = decodeHistoryCursor(query.cursor);
+        if (!cursor) {
+          reply.code(400);
+          throw new Error('Invalid cursor');
+        }
+      }
+
+      const page = await loadLocationHistoryPage(
+        {
+          group_id: apiKey.group_id,
+          ...(query.deviceId ? { device_id: query.deviceId } : allowedDevicesWhere(apiKey)),
+          recorded_at: {
+            ...(query.from && { gte: query.from }),
+            ...(query.to && { lte: query.to }),
+          },
+        },
+        cursor,
+        query.limit
+      );
+      apiKeyUsage.record(apiKey.id, { locationsDelivered: page.items.length });
+
+      reply.send({
+        items: page.items.map(toLocationResponse),
+        nextCursor: page.nextCursor,
       });
     }
   );
 
+  // Export location history as GeoJSON, GPX or CSV
+  app.get(
+    '/locations/export',
+    {
+      schema: {
+        tags: ['Locations'],
+        summary: 'Export location history',
+        description:
+          'Streams stored locations for the group of the API key as GeoJSON (FeatureCollection of points, or one LineString per device), ' +
+          'GPX (one track per device) or CSV. Pick the format with the format param or the Accept header (application/geo+json, application/gpx+xml, text/csv). ' +
+          'Requires API key authentication via X-API-Key header.',
+        querystring: zodToJsonSchemaFastify(exportQuery),
+        security: [{ apiKey: [] }],
+      } as DocumentedSchema,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const apiKey = await requireApiKey(request, reply, 'locations:history');
+      const query = exportQuery.parse(request.query);
+      const format = resolveExportFormat(query.format, request.headers.accept);
+
+      const rows = countDeliveredLocations(
+        apiKey.id,
+        iterateLocationsForExport({
+          groupId: apiKey.group_id,
+          deviceId: query.deviceId,
+          deviceIds: apiKey.device_ids.length > 0 ? apiKey.device_ids : undefined,
+          from: query.from,
+          to: query.to,
+        })
+      );
+
+      let chunks: AsyncIterable<string>;
+      if (format === 'gpx') {
+        chunks = toGpx(rows);
+      } else if (format === 'csv') {
+        chunks = toCsv(rows);
+      } else {
+        chunks = toGeoJson(rows, query.geometry);
+      }
+
+      reply
+        .type(EXPORT_CONTENT_TYPES[format])
+        .header(
+          'Content-Disposition',
+          `attachment; filename="locations-${apiKey.group_id}.${format}"`
+        );
+      return reply.send(Readable.from(chunks));
+    }
+  );
+
   // Handle OPTIONS preflight for stream endpoint
   app.options('/stream', async (request: FastifyRequest, reply: FastifyReply) => {
     // CORS headers are handled by the CORS plugin, but we ensure they're set here too
@@ -398,7 +833,7 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
       }
     }
     reply.header('Access-Control-Allow-Methods', 'GET, OPTIONS');
-    reply.header('Access-Control-Allow-Headers', 'X-API-Key, Content-Type');
+    reply.header('Access-Control-Allow-Headers', 'X-API-Key, Content-Type, Last-Event-ID');
     reply.code(204).send();
   });
 
@@ -410,23 +845,82 @@ export async function registerPublicLocationRoutes(app: FastifyInstance) {
         tags: ['Locations'],
         summary: 'Subscribe to live location events',
         description:
-          'Public endpoint for streaming location updates. Requires API key authentication.',
+          'Public endpoint for streaming location updates. Location events carry an `id`; ' +
+          'reconnect with the `Last-Event-ID` header to replay locations missed in the last 15 minutes. ' +
+          'Optional filters: `deviceIds` (comma separated), `bbox` (minLng,minLat,maxLng,maxLat), ' +
+          'and per-device `minDistanceMeters` / `minIntervalSeconds` between location events. Requires API key authentication.',
+        querystring: zodToJsonSchemaFastify(streamQuery),
         security: [{ apiKey: [] }],
       } as DocumentedSchema,
     },
     async (request: FastifyRequest, reply: FastifyReply) => {
       // Require valid API key - subscription is only allowed with valid API key
-      const apiKey = await requireApiKey(request, reply);
-      openLocationStream(request, reply, apiKey.group_id, apiKey.id);
+      const apiKey = await requireApiKey(request, reply, 'stream');
+      const query = streamQuery.parse(request.query);
+
+      const scope: StreamScope = {
+        ...(query.minDistanceMeters !== undefined && {
+          minDistanceMeters: query.minDistanceMeters,
+        }),
+        ...(query.minIntervalSeconds !== undefined && {
+          minIntervalSeconds: query.minIntervalSeconds,
+        }),
+      };
+
+      if (query.deviceIds) {
+        scope.deviceIds = query.deviceIds
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean);
+      }
+
+      if (query.bbox) {
+        const bbox = parseBoundingBox(query.bbox);
+        if (!bbox) {
+          reply.code(400);
+          throw new Error('Invalid bbox, expected minLng,minLat,maxLng,maxLat');
+        }
+        scope.bbox = bbox;
+      }
+
+      // Keys with a device allow-list only ever see those devices
+      if (apiKey.device_ids.length > 0) {
+        scope.deviceIds = (scope.deviceIds ?? apiKey.device_ids).filter((id) =>
+          isDeviceAllowed(apiKey, id)
+        );
+        if (scope.deviceIds.length === 0) {
+          reply.code(403);
+          throw new Error('API key is not allowed to access these devices');
+        }
+      }
+
+      openLocationStream(request, reply, apiKey.group_id, apiKey.id, scope);
     }
   );
 }
 
+function toLocationResponse(loc: LocationRow): z.infer<typeof locationResponse> {
+  return {
+    id: loc.id,
+    groupId: loc.group_id,
+    deviceId: loc.device_id,
+    latitude: loc.latitude,
+    longitude: loc.longitude,
+    accuracy: loc.accuracy,
+    heading: loc.heading,
+    speed: loc.speed,
+    recordedAt: loc.recorded_at.toISOString(),
+    receivedAt: loc.received_at.toISOString(),
+    metadata: loc.metadata ? JSON.parse(loc.metadata) : null,
+  };
+}
+
 function openLocationStream(
   request: FastifyRequest,
   reply: FastifyReply,
   groupId: string,
-  apiKeyId: string
+  apiKeyId: string,
+  scope: StreamScope
 ) {
   // Set CORS headers before hijacking (hijack bypasses Fastify's CORS plugin)
   const origin = request.headers.origin;
@@ -450,29 +944,122 @@ function openLocationStream(
 
   reply.hijack();
   const res = reply.raw;
+  openStreams.add(res);
 
-  const send = (event: string, data: Record<string, unknown>) => {
+  const send = (event: string, data: Record<string, unknown>, id?: string) => {
+    // A replay can finish after the client has gone away
+    if (res.writableEnded) {
+      return;
+    }
+    if (id) {
+      res.write(`id: ${id}\n`);
+    }
     res.write(`event: ${event}\n`);
     res.write(`data: ${JSON.stringify(data)}\n\n`);
   };
 
+  // Last position sent on this stream; starts at the Last-Event-ID of a reconnecting client
+  const lastEventIdHeader = request.headers['last-event-id'];
+  const resumeFrom = decodeStreamEventId(
+    Array.isArray(lastEventIdHeader) ? lastEventIdHeader[0] : lastEventIdHeader
+  );
+  let lastPosition: StreamPosition | null = resumeFrom;
+
+  // Location events carry their stream position as the event ID. IDs only ever move
+  // forward: a location at or before the last sent position (e.g. a batched resend)
+  // goes out without an ID so the client's resume point is unchanged.
+  // Filters are applied per subscriber so unwanted events never leave the server
+  const accepts = createStreamFilter(scope);
+
+  const sendEvent = (event: GroupEvent) => {
+    if (!accepts(event)) {
+      return;
+    }
+
+    const { id, receivedAt } = event.data as { id?: string; receivedAt?: Date };
+    let eventId: string | undefined;
+
+    if (event.type === 'location' && id && receivedAt) {
+      const position = { receivedAt, id };
+      if (!lastPosition || compareStreamPositions(position, lastPosition) > 0) {
+        lastPosition = position;
+        eventId = encodeStreamEventId(position);
+      }
+    }
+
+    send(event.type, event.data, eventId);
+    if (event.type === 'location') {
+      apiKeyUsage.record(apiKeyId, { locationsDelivered: 1 });
+    }
+  };
+
+  const countStreamTime = createStreamClock(apiKeyId);
+
+  res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
   send('ready', { groupId });
 
+  // While missed locations are replayed, live events are held back and flushed afterwards
+  const replayGate = resumeFrom ? createReplayGate(sendEvent) : null;
+
   // Subscribe to location updates for this group
   // The bus tracks which API keys are subscribed to which groups
   // Only authorized subscribers (with valid API keys) can receive location data
   const unsubscribe = locationBus.subscribe(groupId, apiKeyId, (event) => {
-    console.log('[LocationStream] Received event from bus', { groupId, apiKeyId, eventType: event.type, eventData: event.data });
-    send(event.type, event.data);
+    console.log('[LocationStream] Received event from bus', {
+      groupId,
+      apiKeyId,
+      eventType: event.type,
+    });
+    if (replayGate) {
+      replayGate.push(event);
+      return;
+    }
+    sendEvent(event);
   });
 
+  if (resumeFrom && replayGate) {
+    loadReplayLocations(groupId, resumeFrom)
+      .then((rows) => {
+        for (const row of rows) {
+          const replayed: GroupEvent = {
+            type: 'location',
+            data: {
+              groupId,
+              deviceId: row.device_id,
+              latitude: row.latitude,
+              longitude: row.longitude,
+              recordedAt: row.recorded_at,
+            },
+          };
+          if (!accepts(replayed)) {
+            continue;
+          }
+
+          const position = { receivedAt: row.received_at, id: row.id };
+          lastPosition = position;
+          send('location', toLocationResponse(row), encodeStreamEventId(position));
+          apiKeyUsage.record(apiKeyId, { locationsDelivered: 1 });
+        }
+      })
+      .catch((error) => {
+        console.error('[LocationStream] Failed to replay missed locations', { groupId, error });
+      })
+      .finally(() => {
+        // Skips held locations the replay already sent
+        replayGate.finish(lastPosition);
+      });
+  }
+
   const heartbeat = setInterval(() => {
     send('heartbeat', { groupId, timestamp: new Date().toISOString() });
+    countStreamTime();
   }, KEEPALIVE_MS);
   heartbeat.unref?.();
 
   res.on('close', () => {
+    openStreams.delete(res);
     clearInterval(heartbeat);
+    countStreamTime();
     // Unsubscribe when connection closes - removes this subscriber from tracking
     unsubscribe();
     res.end();
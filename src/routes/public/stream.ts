@@ -0,0 +1,260 @@
+import type { FastifyInstance, FastifyRequest, FastifySchema } from 'fastify';
+import type { WebSocket } from '@fastify/websocket';
+import { z } from 'zod';
+import { apiKeyUsage, createStreamClock } from '../../services/api-key-usage.js';
+import { hasApiKeyGroup, hasApiKeyScope, resolveApiKey } from '../../services/api-keys.js';
+import { locationBus, type GroupEvent } from '../../services/bus.js';
+import { createStreamFilter, type StreamScope } from '../../services/stream-filters.js';
+
+const KEEPALIVE_MS = 15000;
+// A socket without an X-API-Key header must send its auth frame within this time
+const AUTH_TIMEOUT_MS = 10000;
+const MAX_SUBSCRIPTIONS = 20;
+
+// Application close codes (4000-4999 are reserved for applications)
+const CLOSE_UNAUTHORIZED = 4401;
+const CLOSE_BAD_MESSAGE = 4400;
+const CLOSE_FORBIDDEN = 4403;
+const CLOSE_QUOTA_EXCEEDED = 4429;
+
+type DocumentedSchema = FastifySchema & {
+  tags?: string[];
+  security?: Array<Record<string, unknown>>;
+};
+
+const bbox = z.tuple([
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+  z.number().min(-180).max(180),
+  z.number().min(-90).max(90),
+]);
+
+/**
+ * Frames a client can send
+ * - auth: authenticate with an API key when the X-API-Key header could not be set (browsers)
+ * - subscribe: add or replace a subscription, optionally scoped to devices and/or a bounding box
+ * - unsubscribe: remove a subscription
+ */
+const clientMessage = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('auth'), apiKey: z.string().min(1) }),
+  z.object({
+    type: z.literal('subscribe'),
+    id: z.string().min(1).max(64).default('default'),
+    deviceIds: z.array(z.string().min(1)).min(1).max(100).optional(),
+    bbox: bbox.optional(),
+    minDistanceMeters: z.number().min(0).optional(),
+    minIntervalSeconds: z.number().min(0).optional(),
+  }),
+  z.object({
+    type: z.literal('unsubscribe'),
+    id: z.string().min(1).max(64).default('default'),
+  }),
+]);
+
+type ClientMessage = z.infer<typeof clientMessage>;
+
+function parseClientMessage(raw: unknown): ClientMessage | null {
+  try {
+    const result = clientMessage.safeParse(JSON.parse(String(raw)));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WebSocket transport for the location stream
+ * Delivers the same events as GET /stream; the client chooses what it receives by
+ * sending subscribe/unsubscribe frames, without reconnecting
+ */
+export async function registerPublicStreamRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    '/stream/ws',
+    {
+      websocket: true,
+      schema: {
+        tags: ['Locations'],
+        summary: 'Subscribe to live location events over WebSocket',
+        description:
+          'WebSocket upgrade endpoint delivering the same events as /stream as JSON frames ({ type, data }). ' +
+          'Authenticate with the X-API-Key header or send { "type": "auth", "apiKey": "..." } as the first frame. ' +
+          'Nothing is delivered until the client sends { "type": "subscribe" }, optionally with deviceIds and/or ' +
+          'bbox ([minLng, minLat, maxLng, maxLat]), minDistanceMeters and minIntervalSeconds; ' +
+          '{ "type": "unsubscribe", "id": "..." } removes a subscription. ' +
+          'Requires a key bound to a group with the stream scope (close code 4403 otherwise); keys with a device allow-list only receive those devices.',
+        security: [{ apiKey: [] }],
+      } as DocumentedSchema,
+    },
+    (socket: WebSocket, request: FastifyRequest) => {
+      openLocationSocket(socket, request);
+    }
+  );
+}
+
+function openLocationSocket(socket: WebSocket, request: FastifyRequest) {
+  const subscriptions = new Map<string, (event: GroupEvent) => boolean>();
+  let session: { groupId: string; apiKeyId: string; deviceIds: string[] } | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+  let countStreamTime: (() => void) | null = null;
+
+  const send = (type: string, data: unknown) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify({ type, data }));
+    }
+  };
+
+  const reject = (code: number, message: string) => {
+    send('error', { message });
+    socket.close(code, message);
+  };
+
+  const authenticate = async (rawKey: string) => {
+    const record = await resolveApiKey(rawKey);
+    if (socket.readyState !== socket.OPEN) {
+      return;
+    }
+    if (!record) {
+      reject(CLOSE_UNAUTHORIZED, 'Invalid API key');
+      return;
+    }
+    if (!hasApiKeyGroup(record)) {
+      reject(CLOSE_FORBIDDEN, 'API key is not bound to a group');
+      return;
+    }
+    if (!hasApiKeyScope(record, 'stream')) {
+      reject(CLOSE_FORBIDDEN, 'API key is missing the stream scope');
+      return;
+    }
+    if (!(await apiKeyUsage.consumeRequest(record.id))) {
+      reject(CLOSE_QUOTA_EXCEEDED, 'Daily request quota exceeded for this API key');
+      return;
+    }
+    if (socket.readyState !== socket.OPEN) {
+      return;
+    }
+
+    const groupId = record.group_id;
+    session = { groupId, apiKeyId: record.id, deviceIds: record.device_ids };
+    clearTimeout(authTimeout);
+
+    unsubscribe = locationBus.subscribe(groupId, record.id, (event: GroupEvent) => {
+      // Every subscription sees the event so its movement thresholds stay up to date
+      let matched = false;
+      for (const accepts of subscriptions.values()) {
+        if (accepts(event)) {
+          matched = true;
+        }
+      }
+      if (matched) {
+        send(event.type, event.data);
+        if (event.type === 'location') {
+          apiKeyUsage.record(record.id, { locationsDelivered: 1 });
+        }
+      }
+    });
+
+    countStreamTime = createStreamClock(record.id);
+    heartbeat = setInterval(() => {
+      send('heartbeat', { groupId, timestamp: new Date().toISOString() });
+      countStreamTime?.();
+    }, KEEPALIVE_MS);
+    heartbeat.unref?.();
+
+    send('ready', { groupId });
+  };
+
+  const handleMessage = async (raw: unknown) => {
+    if (socket.readyState !== socket.OPEN) {
+      return;
+    }
+
+    const message = parseClientMessage(raw);
+    if (!message) {
+      reject(CLOSE_BAD_MESSAGE, 'Invalid message');
+      return;
+    }
+
+    if (!session) {
+      if (message.type !== 'auth') {
+        reject(CLOSE_UNAUTHORIZED, 'Authenticate before subscribing');
+        return;
+      }
+      await authenticate(message.apiKey);
+      return;
+    }
+
+    if (message.type === 'auth') {
+      send('error', { message: 'Already authenticated' });
+      return;
+    }
+
+    if (message.type === 'unsubscribe') {
+      subscriptions.delete(message.id);
+      send('unsubscribed', { id: message.id });
+      return;
+    }
+
+    if (!subscriptions.has(message.id) && subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      send('error', { message: `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection` });
+      return;
+    }
+
+    // Keys with a device allow-list only ever see those devices
+    const allowed = session.deviceIds;
+    let deviceIds = message.deviceIds;
+    if (allowed.length > 0) {
+      deviceIds = (deviceIds ?? allowed).filter((id) => allowed.includes(id));
+      if (deviceIds.length === 0) {
+        send('error', { message: 'API key is not allowed to access these devices' });
+        return;
+      }
+    }
+
+    const scope: StreamScope = {
+      ...(deviceIds && { deviceIds }),
+      ...(message.bbox && { bbox: message.bbox }),
+      ...(message.minDistanceMeters !== undefined && {
+        minDistanceMeters: message.minDistanceMeters,
+      }),
+      ...(message.minIntervalSeconds !== undefined && {
+        minIntervalSeconds: message.minIntervalSeconds,
+      }),
+    };
+    subscriptions.set(message.id, createStreamFilter(scope));
+    send('subscribed', { id: message.id, ...scope });
+  };
+
+  const authTimeout = setTimeout(() => {
+    if (!session) {
+      reject(CLOSE_UNAUTHORIZED, 'Authentication timeout');
+    }
+  }, AUTH_TIMEOUT_MS);
+
+  // Frames are handled one at a time, after header authentication has finished
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch((error) => {
+      console.error('[LocationSocket] Failed to handle message', { error });
+      reject(1011, 'Internal error');
+    });
+  };
+
+  const headerKey = request.headers['x-api-key'];
+  const key = Array.isArray(headerKey) ? headerKey[0] : headerKey;
+  if (key) {
+    enqueue(() => authenticate(key));
+  }
+
+  socket.on('message', (raw) => enqueue(() => handleMessage(raw)));
+
+  socket.on('close', () => {
+    clearTimeout(authTimeout);
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
+    countStreamTime?.();
+    // Unsubscribe when the socket closes - removes this subscriber from tracking
+    unsubscribe?.();
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { buildApp } from '../../../app.js';
+import { env } from '../../../config/env.js';
+import { prisma as db } from '../../../db.js';
+import { generateFakeApiKey } from './helpers/test-auth.js';
+
+/**
+ * Cursor pagination of GET /locations/history
+ */
+describe.skipIf(!env.DATABASE_URL)('Location History - Cursor Pagination', () => {
+  const ownerId = 'history-route-owner';
+  let fastify: ReturnType<typeof Fastify>;
+  let apiKey: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: ownerId } });
+    await db.users.deleteMany({ where: { id: ownerId } });
+  }
+
+  function history(query: string) {
+    return fastify.inject({
+      method: 'GET',
+      url: `/api/v1/locations/history?${query}`,
+      headers: { 'x-api-key': apiKey },
+    });
+  }
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await buildApp(fastify);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    await db.users.create({ data: { id: ownerId, email: `${ownerId}@test.example.com` } });
+    const group = await db.groups.create({ data: { name: 'History route', owner_id: ownerId } });
+    apiKey = await generateFakeApiKey(group.id, 'History', ownerId);
+
+    const recordedAt = new Date('2026-01-01T12:00:00.000Z');
+    await db.locations.createMany({
+      data: ['history-1', 'history-2', 'history-3'].map((id) => ({
+        id,
+        group_id: group.id,
+        device_id: 'history-phone',
+        latitude: 1,
+        longitude: 2,
+        // Every location shares a timestamp, so pages are told apart by id alone
+        recorded_at: recordedAt,
+      })),
+    });
+  });
+
+  afterEach(cleanUp);
+
+  it('should page through locations sharing a timestamp', async () => {
+    const first = await history('limit=2');
+    expect(first.statusCode).toBe(200);
+    expect(first.json().items.map((item: { id: string }) => item.id)).toEqual([
+      'history-1',
+      'history-2',
+    ]);
+
+    const second = await history(`limit=2&cursor=${first.json().nextCursor}`);
+    expect(second.json()).toMatchObject({ items: [{ id: 'history-3' }], nextCursor: null });
+  });
+
+  it('should reject a malformed cursor', async () => {
+    const response = await history('cursor=not-a-cursor');
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error.message).toBe('Invalid cursor');
+  });
+});
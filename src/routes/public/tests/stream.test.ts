@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import Fastify from 'fastify';
+import type WebSocket from 'ws';
+import { buildApp } from '../../../app.js';
+import { env } from '../../../config/env.js';
+import { prisma as db } from '../../../db.js';
+import { createApiKey } from '../../../services/api-keys.js';
+
+type Frame = { type: string; data: Record<string, unknown> };
+
+/**
+ * A WebSocket connection to /stream/ws that records every frame and how it closed
+ */
+async function connect(fastify: ReturnType<typeof Fastify>, headers: Record<string, string> = {}) {
+  const frames: Frame[] = [];
+  let onFrame: () => void = () => {};
+  let resolveClose: (close: { code: number; reason: string }) => void = () => {};
+  const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+    resolveClose = resolve;
+  });
+
+  const socket = await fastify.injectWS(
+    '/api/v1/stream/ws',
+    { headers },
+    {
+      onInit(ws: WebSocket) {
+        ws.on('message', (raw) => {
+          frames.push(JSON.parse(String(raw)));
+          onFrame();
+        });
+        ws.on('close', (code, reason) => resolveClose({ code, reason: String(reason) }));
+      },
+    }
+  );
+
+  return {
+    frames,
+    closed,
+    send(frame: object) {
+      socket.send(JSON.stringify(frame));
+    },
+    /** Resolves with the first matching frame, including ones already received */
+    frame(type: string, data: Record<string, unknown> = {}): Promise<Frame> {
+      return new Promise((resolve) => {
+        const check = () => {
+          const found = frames.find(
+            (frame) =>
+              frame.type === type &&
+              Object.entries(data).every(([key, value]) => frame.data[key] === value)
+          );
+          if (found) resolve(found);
+        };
+        const previous = onFrame;
+        onFrame = () => {
+          previous();
+          check();
+        };
+        check();
+      });
+    },
+    close() {
+      socket.terminate();
+    },
+  };
+}
+
+describe('Location WebSocket stream', () => {
+  let fastify: ReturnType<typeof Fastify>;
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await buildApp(fastify);
+    await fastify.ready();
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should close with 4400 on a frame that is not a valid message', async () => {
+    const socket = await connect(fastify);
+
+    socket.send({ type: 'shout' });
+
+    expect(await socket.closed).toEqual({ code: 4400, reason: 'Invalid message' });
+    expect(socket.frames).toEqual([{ type: 'error', data: { message: 'Invalid message' } }]);
+  });
+
+  it('should close with 4401 when subscribing before authenticating', async () => {
+    const socket = await connect(fastify);
+
+    socket.send({ type: 'subscribe' });
+
+    expect(await socket.closed).toEqual({ code: 4401, reason: 'Authenticate before subscribing' });
+  });
+
+  it('should close with 4401 on an invalid key, in the header or an auth frame', async () => {
+    const header = await connect(fastify, { 'x-api-key': 'not-a-key' });
+    const frame = await connect(fastify);
+    frame.send({ type: 'auth', apiKey: 'not-a-key' });
+
+    expect(await header.closed).toEqual({ code: 4401, reason: 'Invalid API key' });
+    expect(await frame.closed).toEqual({ code: 4401, reason: 'Invalid API key' });
+  });
+
+  it('should close with 4401 when no auth frame arrives in time', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const socket = await connect(fastify);
+
+    vi.advanceTimersByTime(10_000);
+    // The close handshake runs on real timers
+    vi.useRealTimers();
+
+    expect(await socket.closed).toEqual({ code: 4401, reason: 'Authentication timeout' });
+  });
+
+  describe.skipIf(!env.DATABASE_URL)('with an API key', () => {
+    const ownerId = 'stream-ws-owner';
+    let groupId: string;
+
+    async function cleanUp(): Promise<void> {
+      await db.groups.deleteMany({ where: { owner_id: ownerId } });
+      await db.users.deleteMany({ where: { id: ownerId } });
+    }
+
+    beforeEach(async () => {
+      await cleanUp();
+      await db.users.create({ data: { id: ownerId, email: `${ownerId}@test.example.com` } });
+      const group = await db.groups.create({ data: { name: 'Stream WS', owner_id: ownerId } });
+      groupId = group.id;
+    });
+
+    afterEach(cleanUp);
+
+    it('should be ready after the handshake and cap the subscriptions', async () => {
+      const apiKey = await createApiKey(groupId, 'Stream', ownerId);
+      const socket = await connect(fastify, { 'x-api-key': apiKey });
+
+      expect((await socket.frame('ready')).data).toEqual({ groupId });
+
+      for (let index = 0; index < 21; index++) {
+        socket.send({ type: 'subscribe', id: `subscription-${index}` });
+      }
+      expect((await socket.frame('error')).data).toEqual({
+        message: 'At most 20 subscriptions per connection',
+      });
+      expect(socket.frames.filter((frame) => frame.type === 'subscribed')).toHaveLength(20);
+
+      // Unsubscribing frees a place
+      socket.send({ type: 'unsubscribe', id: 'subscription-0' });
+      socket.send({ type: 'subscribe', id: 'subscription-20' });
+      await socket.frame('subscribed', { id: 'subscription-20' });
+      socket.close();
+    });
+
+    it('should close with 4403 when the key lacks the stream scope', async () => {
+      const apiKey = await createApiKey(groupId, 'History only', ownerId, {
+        scopes: ['locations:history'],
+      });
+      const socket = await connect(fastify);
+
+      socket.send({ type: 'auth', apiKey });
+
+      expect(await socket.closed).toEqual({
+        code: 4403,
+        reason: 'API key is missing the stream scope',
+      });
+    });
+  });
+});
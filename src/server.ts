@@ -1,7 +1,51 @@
 import './utils/env.js'; // Load .env first (side effect)
-import Fastify from 'fastify';
+import Fastify, { type FastifyInstance } from 'fastify';
 import { buildApp } from './app.js';
 import { env } from './config/env.js';
+import { prisma as db } from './db.js';
+import { apiKeyUsage } from './services/api-key-usage.js';
+import { locationBus } from './services/bus.js';
+import { locationBatcher } from './services/location-batcher.js';
+import { restoreBatcherState, saveBatcherState } from './services/location-batcher-state.js';
+import { shareExpiryScheduler } from './services/location-shares.js';
+import { maintenanceScheduler } from './services/maintenance.js';
+import { webhookDeliveryQueue } from './services/webhook-deliveries.js';
+import { sealPlaintextWebhookSecrets } from './services/webhook-secrets.js';
+
+/**
+ * Stop accepting requests, stop the background jobs and save what they hold in memory
+ * Exits with an error if this takes longer than SHUTDOWN_TIMEOUT_MS.
+ */
+async function shutdown(fastify: FastifyInstance, signal: string) {
+  fastify.log.info(`${signal} received, shutting down`);
+
+  const timeout = setTimeout(() => {
+    fastify.log.error('Shutdown timed out');
+    process.exit(1);
+  }, env.SHUTDOWN_TIMEOUT_MS);
+  timeout.unref();
+
+  try {
+    // Finish in-flight requests first so nothing is queued after the batcher is saved
+    await fastify.close();
+
+    webhookDeliveryQueue.stop();
+    await shareExpiryScheduler.stop();
+    await maintenanceScheduler.stop();
+    await apiKeyUsage.stop();
+
+    const saved = await saveBatcherState();
+    locationBatcher.shutdown();
+    fastify.log.info(`Saved ${saved} queued location updates`);
+
+    await locationBus.close();
+    await db.$disconnect();
+    process.exit(0);
+  } catch (err) {
+    fastify.log.error(err);
+    process.exit(1);
+  }
+}
 
 async function start() {
   const fastify = Fastify({
@@ -23,11 +67,45 @@ async function start() {
   try {
     await buildApp(fastify);
 
+    // Connect the location bus adapter (LISTEN/NOTIFY when BUS_ADAPTER=postgres)
+    await locationBus.start();
+    fastify.log.info(`Location bus adapter: ${locationBus.adapterName}`);
+
+    // Pick up updates queued by instances that shut down before publishing them
+    const restored = await restoreBatcherState();
+    fastify.log.info(`Restored ${restored} queued location updates`);
+
+    // Encrypt webhook secrets stored before they were encrypted at rest
+    if (env.WEBHOOK_SECRET_KEY) {
+      const sealed = await sealPlaintextWebhookSecrets(env.WEBHOOK_SECRET_KEY);
+      if (sealed > 0) {
+        fastify.log.info(`Encrypted ${sealed} stored webhook secrets`);
+      }
+    }
+
     await fastify.listen({
       port: env.PORT,
       host: env.HOST,
     });
 
+    // Retry queued webhook deliveries in the background
+    webhookDeliveryQueue.start();
+
+    // Save per-API-key usage counters in the background
+    apiKeyUsage.start();
+
+    // End location shares once their duration has elapsed
+    shareExpiryScheduler.start();
+
+    // Apply data retention and remove expired sessions, share links and invitations
+    maintenanceScheduler.start();
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, () => {
+        void shutdown(fastify, signal);
+      });
+    }
+
     fastify.log.info(`🚀 Server running on http://${env.HOST}:${env.PORT}`);
     fastify.log.info(`📚 API Documentation available at http://${env.HOST}:${env.PORT}/docs`);
   } catch (err) {
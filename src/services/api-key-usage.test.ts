@@ -0,0 +1,86 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  apiKeyUsage,
+  countDeliveredLocations,
+  createStreamClock,
+  DEFAULT_RATE_LIMIT_MAX,
+  resolveApiKeyLimits,
+  usageDay,
+} from './api-key-usage.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('usageDay', () => {
+  it('should truncate to the start of the UTC day', () => {
+    expect(usageDay(new Date('2025-03-04T23:59:59.999Z')).toISOString()).toBe(
+      '2025-03-04T00:00:00.000Z'
+    );
+  });
+});
+
+describe('resolveApiKeyLimits', () => {
+  const noGroupLimits = { api_rate_limit_max: null, api_daily_request_quota: null };
+
+  it('should prefer the key, then the group, then the default', () => {
+    expect(
+      resolveApiKeyLimits(
+        { rate_limit_max: 10, daily_request_quota: 1000 },
+        { api_rate_limit_max: 50, api_daily_request_quota: 5000 }
+      )
+    ).toEqual({ rateLimitMax: 10, dailyRequestQuota: 1000 });
+
+    expect(
+      resolveApiKeyLimits(
+        { rate_limit_max: null, daily_request_quota: null },
+        { api_rate_limit_max: 50, api_daily_request_quota: 5000 }
+      )
+    ).toEqual({ rateLimitMax: 50, dailyRequestQuota: 5000 });
+
+    expect(
+      resolveApiKeyLimits({ rate_limit_max: null, daily_request_quota: null }, noGroupLimits)
+    ).toEqual({ rateLimitMax: DEFAULT_RATE_LIMIT_MAX, dailyRequestQuota: null });
+  });
+});
+
+describe('createStreamClock', () => {
+  it('should record whole seconds and carry the remainder over', () => {
+    vi.useFakeTimers();
+    const record = vi.spyOn(apiKeyUsage, 'record').mockImplementation(() => {});
+    const tick = createStreamClock('key-1');
+
+    vi.advanceTimersByTime(15_500);
+    tick();
+    vi.advanceTimersByTime(600);
+    tick();
+    vi.advanceTimersByTime(100);
+    tick();
+
+    expect(record.mock.calls).toEqual([
+      ['key-1', { streamSeconds: 15 }],
+      ['key-1', { streamSeconds: 1 }],
+    ]);
+  });
+});
+
+describe('countDeliveredLocations', () => {
+  it('should record how many rows were consumed', async () => {
+    const record = vi.spyOn(apiKeyUsage, 'record').mockImplementation(() => {});
+    async function* rows() {
+      yield 1;
+      yield 2;
+      yield 3;
+    }
+
+    const seen: number[] = [];
+    for await (const row of countDeliveredLocations('key-1', rows())) {
+      seen.push(row);
+      if (seen.length === 2) break;
+    }
+
+    expect(seen).toEqual([1, 2]);
+    expect(record).toHaveBeenCalledWith('key-1', { locationsDelivered: 2 });
+  });
+});
@@ -0,0 +1,280 @@
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+
+export type UsageCounters = {
+  requests: number;
+  streamSeconds: number;
+  locationsDelivered: number;
+};
+
+/**
+ * Effective limits for an API key: its own settings, else its group's, else the server default
+ * - rateLimitMax: requests per RATE_LIMIT_WINDOW
+ * - dailyRequestQuota: requests per UTC day (null = unlimited)
+ */
+export type ApiKeyLimits = {
+  rateLimitMax: number;
+  dailyRequestQuota: number | null;
+};
+
+export const DEFAULT_RATE_LIMIT_MAX = env.RATE_LIMIT_MAX ?? 300;
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+// Limits are looked up on every request, so they are cached briefly
+const LIMITS_CACHE_MS = 60 * 1000;
+
+/**
+ * Start of the UTC day containing the date, as stored in api_key_usage.day
+ */
+export function usageDay(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function resolveApiKeyLimits(
+  key: { rate_limit_max: number | null; daily_request_quota: number | null },
+  group: { api_rate_limit_max: number | null; api_daily_request_quota: number | null }
+): ApiKeyLimits {
+  return {
+    rateLimitMax: key.rate_limit_max ?? group.api_rate_limit_max ?? DEFAULT_RATE_LIMIT_MAX,
+    dailyRequestQuota: key.daily_request_quota ?? group.api_daily_request_quota ?? null,
+  };
+}
+
+type PendingUsage = UsageCounters & { apiKeyId: string; day: Date };
+
+/**
+ * API Key Usage Tracker
+ *
+ * Counts requests, stream time and delivered locations per API key and UTC day.
+ * Counters are kept in memory and added to `api_key_usage` every FLUSH_INTERVAL_MS,
+ * so recording usage never costs a database write on the request path.
+ * Today's request count per key is also kept in memory to enforce daily quotas;
+ * with several instances each one enforces the quota against its own view.
+ */
+class ApiKeyUsageTracker {
+  private pending = new Map<string, PendingUsage>();
+  private requestsToday = new Map<string, number>();
+  private limitsCache = new Map<string, { limits: ApiKeyLimits; expiresAt: number }>();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  record(apiKeyId: string, counters: Partial<UsageCounters>): void {
+    const day = usageDay();
+    const entryKey = `${apiKeyId}:${day.getTime()}`;
+    const entry = this.pending.get(entryKey) ?? {
+      apiKeyId,
+      day,
+      requests: 0,
+      streamSeconds: 0,
+      locationsDelivered: 0,
+    };
+
+    entry.requests += counters.requests ?? 0;
+    entry.streamSeconds += counters.streamSeconds ?? 0;
+    entry.locationsDelivered += counters.locationsDelivered ?? 0;
+    this.pending.set(entryKey, entry);
+
+    const requestsToday = this.requestsToday.get(entryKey);
+    if (counters.requests && requestsToday !== undefined) {
+      this.requestsToday.set(entryKey, requestsToday + counters.requests);
+    }
+  }
+
+  /**
+   * Count one request for the key, unless it has used up its daily quota
+   * @returns false when the quota is exhausted (the request is not counted)
+   */
+  async consumeRequest(apiKeyId: string): Promise<boolean> {
+    const { dailyRequestQuota } = await this.getLimits(apiKeyId);
+
+    if (dailyRequestQuota !== null) {
+      const used = await this.getRequestsToday(apiKeyId);
+      if (used >= dailyRequestQuota) {
+        return false;
+      }
+    }
+
+    this.record(apiKeyId, { requests: 1 });
+    return true;
+  }
+
+  async getLimits(apiKeyId: string): Promise<ApiKeyLimits> {
+    const cached = this.limitsCache.get(apiKeyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.limits;
+    }
+
+    const key = await db.api_keys.findUnique({
+      where: { id: apiKeyId },
+      select: {
+        rate_limit_max: true,
+        daily_request_quota: true,
+        groups: { select: { api_rate_limit_max: true, api_daily_request_quota: true } },
+      },
+    });
+
+    const limits = key
+      ? resolveApiKeyLimits(key, key.groups)
+      : { rateLimitMax: DEFAULT_RATE_LIMIT_MAX, dailyRequestQuota: null };
+    this.limitsCache.set(apiKeyId, { limits, expiresAt: Date.now() + LIMITS_CACHE_MS });
+    return limits;
+  }
+
+  /**
+   * Forget cached limits after a key's or group's settings change
+   */
+  invalidateLimits(apiKeyId?: string): void {
+    if (apiKeyId) {
+      this.limitsCache.delete(apiKeyId);
+    } else {
+      this.limitsCache.clear();
+    }
+  }
+
+  private async getRequestsToday(apiKeyId: string): Promise<number> {
+    const day = usageDay();
+    const entryKey = `${apiKeyId}:${day.getTime()}`;
+    const known = this.requestsToday.get(entryKey);
+    if (known !== undefined) {
+      return known;
+    }
+
+    const row = await db.api_key_usage.findUnique({
+      where: { api_key_id_day: { api_key_id: apiKeyId, day } },
+      select: { requests: true },
+    });
+    const used = (row?.requests ?? 0) + (this.pending.get(entryKey)?.requests ?? 0);
+
+    // Drop counts of previous days
+    for (const key of this.requestsToday.keys()) {
+      if (!key.endsWith(`:${day.getTime()}`)) {
+        this.requestsToday.delete(key);
+      }
+    }
+    this.requestsToday.set(entryKey, used);
+    return used;
+  }
+
+  /**
+   * Add pending counters to api_key_usage
+   * Counters that fail to save are kept for the next flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.writePending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async writePending(): Promise<void> {
+    const entries = [...this.pending.values()];
+    this.pending.clear();
+
+    for (const entry of entries) {
+      try {
+        await db.api_key_usage.upsert({
+          where: { api_key_id_day: { api_key_id: entry.apiKeyId, day: entry.day } },
+          create: {
+            api_key_id: entry.apiKeyId,
+            day: entry.day,
+            requests: entry.requests,
+            stream_seconds: entry.streamSeconds,
+            locations_delivered: entry.locationsDelivered,
+          },
+          update: {
+            requests: { increment: entry.requests },
+            stream_seconds: { increment: entry.streamSeconds },
+            locations_delivered: { increment: entry.locationsDelivered },
+          },
+        });
+      } catch (error) {
+        // P2003: the key was deleted in the meantime, so there is nothing left to count
+        if ((error as { code?: string }).code === 'P2003') {
+          continue;
+        }
+        console.error('[ApiKeyUsage] Failed to save usage', { apiKeyId: entry.apiKeyId, error });
+        this.requeue(entry);
+      }
+    }
+  }
+
+  private requeue(entry: PendingUsage): void {
+    const entryKey = `${entry.apiKeyId}:${entry.day.getTime()}`;
+    const current = this.pending.get(entryKey);
+    if (!current) {
+      this.pending.set(entryKey, entry);
+      return;
+    }
+    current.requests += entry.requests;
+    current.streamSeconds += entry.streamSeconds;
+    current.locationsDelivered += entry.locationsDelivered;
+  }
+
+  /**
+   * Start flushing counters in the background
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.flush().catch((error) => {
+        console.error('[ApiKeyUsage] Flush failed', { error });
+      });
+    }, FLUSH_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop the background flush and save what is pending
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+}
+
+// Singleton instance
+export const apiKeyUsage = new ApiKeyUsageTracker();
+
+/**
+ * Measure how long a stream stays open for an API key
+ * Call the returned function periodically (e.g. on heartbeats) and once when the stream
+ * closes; each call records the whole seconds elapsed since the previous one.
+ */
+export function createStreamClock(apiKeyId: string): () => void {
+  let since = Date.now();
+
+  return () => {
+    const seconds = Math.floor((Date.now() - since) / 1000);
+    if (seconds > 0) {
+      since += seconds * 1000;
+      apiKeyUsage.record(apiKeyId, { streamSeconds: seconds });
+    }
+  };
+}
+
+/**
+ * Pass rows through while counting them as locations delivered to the API key
+ * The count is recorded when iteration ends, including when the client goes away early
+ */
+export async function* countDeliveredLocations<T>(
+  apiKeyId: string,
+  rows: AsyncIterable<T>
+): AsyncGenerator<T, void, undefined> {
+  let delivered = 0;
+  try {
+    for await (const row of rows) {
+      delivered += 1;
+      yield row;
+    }
+  } finally {
+    apiKeyUsage.record(apiKeyId, { locationsDelivered: delivered });
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { hasApiKeyGroup, hasApiKeyScope, isDeviceAllowed } from './api-keys.js';
+
+describe('API key permissions', () => {
+  it('should only grant the scopes a key carries', () => {
+    const key = { scopes: ['stream'], device_ids: [] };
+
+    expect(hasApiKeyScope(key, 'stream')).toBe(true);
+    expect(hasApiKeyScope(key, 'locations:history')).toBe(false);
+  });
+
+  it('should allow every device when the allow-list is empty', () => {
+    expect(isDeviceAllowed({ scopes: [], device_ids: [] }, 'device-1')).toBe(true);
+  });
+
+  it('should only allow listed devices otherwise', () => {
+    const key = { scopes: [], device_ids: ['device-1'] };
+
+    expect(isDeviceAllowed(key, 'device-1')).toBe(true);
+    expect(isDeviceAllowed(key, 'device-2')).toBe(false);
+  });
+
+  it('should only accept keys bound to a group', () => {
+    expect(hasApiKeyGroup({ group_id: 'group-1' })).toBe(true);
+    expect(hasApiKeyGroup({ group_id: null })).toBe(false);
+    expect(hasApiKeyGroup({ group_id: '' })).toBe(false);
+  });
+});
@@ -4,15 +4,71 @@ import { prisma as db } from '../db.js';
 
 const KEY_PREFIX = 'loc';
 
+/**
+ * What an API key may do within its group
+ * - locations:read: latest locations (GET /locations)
+ * - locations:history: stored history and exports (GET /locations/history, /locations/export)
+ * - stream: live events over SSE and WebSocket
+ * - webhooks:manage: register webhooks against the key and receive their pushes
+ */
+export const API_KEY_SCOPES = [
+  'locations:read',
+  'locations:history',
+  'stream',
+  'webhooks:manage',
+] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKeyOptions = {
+  /** Defaults to every scope */
+  scopes?: ApiKeyScope[];
+  /** Devices the key may see; empty or omitted allows every device in the group */
+  deviceIds?: string[];
+  /** The key stops working after this time (optional) */
+  expiresAt?: Date;
+  /** Requests per rate limit window; defaults to the group's limit */
+  rateLimitMax?: number;
+  /** Requests per UTC day; defaults to the group's quota */
+  dailyRequestQuota?: number;
+};
+
+export type RotateApiKeyOptions = {
+  /** How long the old key keeps working */
+  gracePeriodSeconds: number;
+  /** Expiry of the successor key (optional) */
+  expiresAt?: Date;
+};
+
+type ApiKeyPermissions = { scopes: string[]; device_ids: string[] };
+
 function hashSecret(secret: string) {
   return crypto.createHash('sha256').update(secret).digest('hex');
 }
 
-export async function createApiKey(groupId: string, label: string, userId?: string) {
+function generateApiKey() {
   const tokenId = nanoid(12);
   const secret = nanoid(32);
   const combined = `${KEY_PREFIX}_${tokenId}_${secret}`;
-  const hashed = hashSecret(combined);
+  return { tokenId, combined, hashed: hashSecret(combined) };
+}
+
+/**
+ * Prisma filter for keys that are neither revoked nor past their expiry
+ */
+export function activeApiKeyWhere(now = new Date()) {
+  return {
+    revoked_at: null,
+    OR: [{ expires_at: null }, { expires_at: { gt: now } }],
+  };
+}
+
+export async function createApiKey(
+  groupId: string,
+  label: string,
+  userId?: string,
+  options: ApiKeyOptions = {}
+) {
+  const { tokenId, combined, hashed } = generateApiKey();
 
   await db.api_keys.create({
     data: {
@@ -21,12 +77,62 @@ export async function createApiKey(groupId: string, label: string, userId?: stri
       user_id: userId ?? null,
       label,
       hashed_secret: hashed,
+      scopes: options.scopes ?? [...API_KEY_SCOPES],
+      device_ids: options.deviceIds ?? [],
+      expires_at: options.expiresAt ?? null,
+      rate_limit_max: options.rateLimitMax ?? null,
+      daily_request_quota: options.dailyRequestQuota ?? null,
     },
   });
 
   return combined;
 }
 
+/**
+ * Issue a successor for a key with the same group, label, scopes, device allow-list and limits
+ *
+ * The old key keeps working until the grace period ends (or its own earlier expiry),
+ * so integrations can switch over without downtime. Its webhooks move to the successor.
+ */
+export async function rotateApiKey(keyId: string, options: RotateApiKeyOptions) {
+  const previous = await db.api_keys.findUniqueOrThrow({ where: { id: keyId } });
+  const { tokenId, combined, hashed } = generateApiKey();
+
+  const graceDeadline = new Date(Date.now() + options.gracePeriodSeconds * 1000);
+  const previousExpiresAt =
+    previous.expires_at && previous.expires_at < graceDeadline
+      ? previous.expires_at
+      : graceDeadline;
+
+  await db.$transaction([
+    db.api_keys.create({
+      data: {
+        id: tokenId,
+        group_id: previous.group_id,
+        user_id: previous.user_id,
+        label: previous.label,
+        hashed_secret: hashed,
+        scopes: previous.scopes,
+        device_ids: previous.device_ids,
+        rate_limit_max: previous.rate_limit_max,
+        daily_request_quota: previous.daily_request_quota,
+        expires_at: options.expiresAt ?? null,
+        rotated_from_id: previous.id,
+      },
+    }),
+    db.api_keys.update({
+      where: { id: previous.id },
+      data: { expires_at: previousExpiresAt },
+    }),
+    db.webhooks.updateMany({
+      where: { api_key_id: previous.id },
+      data: { api_key_id: tokenId },
+    }),
+  ]);
+
+  return { id: tokenId, apiKey: combined, previousExpiresAt };
+}
+
 export async function revokeApiKey(keyId: string) {
   await db.api_keys.update({
     where: { id: keyId },
@@ -41,7 +147,7 @@ export async function resolveApiKey(rawKey: string) {
   const record = await db.api_keys.findFirst({
     where: {
       id: tokenId,
-      revoked_at: null,
+      ...activeApiKeyWhere(),
     },
   });
 
@@ -58,3 +164,42 @@ export async function resolveApiKey(rawKey: string) {
 
   return null;
 }
+
+/**
+ * ID of the active key a raw API key belongs to, or null when the key is invalid
+ * Unlike resolveApiKey this does not record the key as used
+ */
+export async function identifyApiKey(rawKey: string): Promise<string | null> {
+  const [prefix, tokenId] = rawKey.split('_', 2);
+  if (prefix !== KEY_PREFIX || !tokenId) return null;
+
+  const record = await db.api_keys.findFirst({
+    where: { id: tokenId, ...activeApiKeyWhere() },
+    select: { id: true, hashed_secret: true },
+  });
+  if (!record) return null;
+
+  const hashed = hashSecret(rawKey);
+  return crypto.timingSafeEqual(Buffer.from(hashed), Buffer.from(record.hashed_secret))
+    ? record.id
+    : null;
+}
+
+/**
+ * Whether a key is bound to the group it reads locations from
+ * Keys are deleted with their group, so this only fails for a corrupt record.
+ */
+export function hasApiKeyGroup(record: { group_id: string | null }): boolean {
+  return Boolean(record.group_id);
+}
+
+export function hasApiKeyScope(record: ApiKeyPermissions, scope: ApiKeyScope): boolean {
+  return record.scopes.includes(scope);
+}
+
+/**
+ * Whether the key's device allow-list covers a device (an empty list allows all)
+ */
+export function isDeviceAllowed(record: ApiKeyPermissions, deviceId: string): boolean {
+  return record.device_ids.length === 0 || record.device_ids.includes(deviceId);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { GroupEvent } from './bus.js';
+import {
+  createBusAdapter,
+  decodeBusMessage,
+  encodeBusMessage,
+  InMemoryBusAdapter,
+  PostgresBusAdapter,
+} from './bus-adapters.js';
+
+const locationEvent: GroupEvent = {
+  type: 'location',
+  data: {
+    groupId: 'group-1',
+    deviceId: 'device-1',
+    latitude: 51.5,
+    longitude: -0.12,
+    recordedAt: new Date('2025-01-01T12:00:00.000Z'),
+    receivedAt: new Date('2025-01-01T12:00:01.000Z'),
+    metadata: { battery: 80 },
+  },
+};
+
+describe('Bus message encoding', () => {
+  it('should round-trip an event and restore timestamps as Dates', () => {
+    const decoded = decodeBusMessage(encodeBusMessage('group-1', locationEvent));
+
+    expect(decoded.groupId).toBe('group-1');
+    expect(decoded.event).toEqual(locationEvent);
+    expect(decoded.event.data.recordedAt).toBeInstanceOf(Date);
+    expect((decoded.event.data as { receivedAt?: Date }).receivedAt).toBeInstanceOf(Date);
+  });
+
+  it('should round-trip geofence events', () => {
+    const geofenceEvent: GroupEvent = {
+      type: 'geofence.dwell',
+      data: {
+        groupId: 'group-1',
+        geofenceId: 'fence-1',
+        geofenceName: 'Home',
+        deviceId: 'device-1',
+        latitude: 51.5,
+        longitude: -0.12,
+        recordedAt: new Date('2025-01-01T12:10:00.000Z'),
+        dwellSeconds: 600,
+      },
+    };
+
+    expect(decodeBusMessage(encodeBusMessage('group-1', geofenceEvent)).event).toEqual(
+      geofenceEvent
+    );
+  });
+
+  it('should round-trip share events without adding location timestamps', () => {
+    const shareEvent: GroupEvent = {
+      type: 'share.ended',
+      data: {
+        groupId: 'group-1',
+        shareId: 'share-1',
+        userId: 'user-1',
+        deviceId: null,
+        reason: 'expired',
+        startedAt: new Date('2025-01-01T12:00:00.000Z'),
+        endedAt: new Date('2025-01-01T13:00:00.000Z'),
+      },
+    };
+
+    expect(decodeBusMessage(encodeBusMessage('group-1', shareEvent)).event).toEqual(shareEvent);
+  });
+});
+
+describe('InMemoryBusAdapter', () => {
+  it('should hand published events straight to the handler', () => {
+    const adapter = new InMemoryBusAdapter();
+    const received: [string, GroupEvent][] = [];
+    adapter.onMessage((groupId, event) => received.push([groupId, event]));
+
+    adapter.publish('group-1', locationEvent);
+
+    expect(received).toEqual([['group-1', locationEvent]]);
+  });
+});
+
+describe('createBusAdapter', () => {
+  it('should default to the in-memory adapter', () => {
+    expect(createBusAdapter('memory')).toBeInstanceOf(InMemoryBusAdapter);
+  });
+
+  it('should require a database URL for the postgres adapter', () => {
+    expect(() => createBusAdapter('postgres')).toThrow('DATABASE_URL');
+    expect(createBusAdapter('postgres', 'postgresql://localhost/db')).toBeInstanceOf(
+      PostgresBusAdapter
+    );
+  });
+});
@@ -0,0 +1,239 @@
+import pg from 'pg';
+import type { GroupEvent } from './bus.js';
+
+export const BUS_ADAPTERS = ['memory', 'postgres'] as const;
+
+export type BusAdapterName = (typeof BUS_ADAPTERS)[number];
+
+export type BusMessageHandler = (groupId: string, event: GroupEvent) => void;
+
+/**
+ * Transport used by LocationBus to fan group events out to every server instance
+ *
+ * publish() hands an event to the transport; every instance (including the
+ * publishing one) receives it through the handler registered with onMessage().
+ * LocationBus then emits it to the SSE subscribers connected to that instance.
+ */
+export interface BusAdapter {
+  readonly name: BusAdapterName;
+  publish(groupId: string, event: GroupEvent): void;
+  onMessage(handler: BusMessageHandler): void;
+  start(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Single-process adapter: events are handed straight back to the local bus
+ * Default, and correct as long as only one instance is running
+ */
+export class InMemoryBusAdapter implements BusAdapter {
+  readonly name = 'memory' as const;
+  private handler: BusMessageHandler | null = null;
+
+  publish(groupId: string, event: GroupEvent): void {
+    this.handler?.(groupId, event);
+  }
+
+  onMessage(handler: BusMessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+// NOTIFY payloads must be shorter than 8000 bytes
+const MAX_NOTIFY_PAYLOAD_BYTES = 7999;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+export function encodeBusMessage(groupId: string, event: GroupEvent): string {
+  return JSON.stringify({ groupId, event });
+}
+
+// Event timestamps that travel as ISO strings
+const DATE_FIELDS = ['recordedAt', 'receivedAt', 'startedAt', 'endedAt'] as const;
+
+/**
+ * Parse a NOTIFY payload back into a group event
+ * Timestamps (`recordedAt`, `receivedAt`, `startedAt`, `endedAt`) are turned back into Dates
+ */
+export function decodeBusMessage(payload: string): { groupId: string; event: GroupEvent } {
+  const message = JSON.parse(payload) as { groupId: string; event: GroupEvent };
+  const data = message.event.data as Partial<Record<(typeof DATE_FIELDS)[number], Date | string>>;
+  for (const field of DATE_FIELDS) {
+    const value = data[field];
+    if (value !== undefined) {
+      data[field] = new Date(value);
+    }
+  }
+  return message;
+}
+
+/**
+ * Postgres LISTEN/NOTIFY adapter for multi-instance deployments
+ *
+ * Every instance keeps one dedicated connection (outside Prisma's pool) that
+ * LISTENs on the channel and is also used to NOTIFY. Postgres delivers a
+ * notification to every listening session, including the sender, so the
+ * publishing instance receives its own events the same way as its peers.
+ * The connection is re-established with backoff if it drops; events published
+ * while disconnected are delivered locally only.
+ */
+export class PostgresBusAdapter implements BusAdapter {
+  readonly name = 'postgres' as const;
+  private client: pg.Client | null = null;
+  private handler: BusMessageHandler | null = null;
+  private closed = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly connectionString: string,
+    private readonly channel = 'gofindme_bus'
+  ) {}
+
+  publish(groupId: string, event: GroupEvent): void {
+    const payload = encodeBusMessage(groupId, event);
+
+    if (!this.client) {
+      console.warn('[PostgresBusAdapter] Not connected, delivering locally only', { groupId });
+      this.handler?.(groupId, event);
+      return;
+    }
+
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+      console.warn('[PostgresBusAdapter] Event too large for NOTIFY, delivering locally only', {
+        groupId,
+        type: event.type,
+      });
+      this.handler?.(groupId, event);
+      return;
+    }
+
+    this.client.query('SELECT pg_notify($1, $2)', [this.channel, payload]).catch((error) => {
+      console.error('[PostgresBusAdapter] NOTIFY failed, delivering locally only', {
+        groupId,
+        error,
+      });
+      this.handler?.(groupId, event);
+    });
+  }
+
+  onMessage(handler: BusMessageHandler): void {
+    this.handler = handler;
+  }
+
+  async start(): Promise<void> {
+    this.closed = false;
+    try {
+      await this.connect();
+    } catch (error) {
+      // Keep serving local subscribers while the listener connection is retried
+      console.error('[PostgresBusAdapter] Initial connection failed', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const client = this.client;
+    this.client = null;
+    await client?.end().catch(() => {
+      // Ignore errors while closing
+    });
+  }
+
+  private async connect(): Promise<void> {
+    const client = new pg.Client({ connectionString: this.connectionString });
+
+    client.on('notification', (message) => {
+      if (message.channel !== this.channel || !message.payload) {
+        return;
+      }
+
+      try {
+        const { groupId, event } = decodeBusMessage(message.payload);
+        this.handler?.(groupId, event);
+      } catch (error) {
+        console.error('[PostgresBusAdapter] Dropping malformed notification', error);
+      }
+    });
+
+    client.on('error', (error) => {
+      console.error('[PostgresBusAdapter] Connection error', error);
+      this.handleDisconnect(client);
+    });
+
+    client.on('end', () => {
+      this.handleDisconnect(client);
+    });
+
+    try {
+      await client.connect();
+      // Channel names are identifiers, so they cannot be bound as a parameter
+      await client.query(`LISTEN ${client.escapeIdentifier(this.channel)}`);
+    } catch (error) {
+      await client.end().catch(() => {
+        // Connection never came up
+      });
+      throw error;
+    }
+
+    this.client = client;
+    this.reconnectAttempts = 0;
+  }
+
+  private handleDisconnect(client: pg.Client): void {
+    if (this.client !== client) {
+      return;
+    }
+
+    this.client = null;
+    client.end().catch(() => {
+      // Already broken
+    });
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS
+    );
+    this.reconnectAttempts += 1;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect().catch((error) => {
+        console.error('[PostgresBusAdapter] Reconnect failed', error);
+        this.scheduleReconnect();
+      });
+    }, delay);
+    this.reconnectTimer.unref?.();
+  }
+}
+
+/**
+ * Build the adapter selected by BUS_ADAPTER
+ */
+export function createBusAdapter(name: BusAdapterName, databaseUrl?: string): BusAdapter {
+  if (name === 'postgres') {
+    if (!databaseUrl) {
+      throw new Error('BUS_ADAPTER=postgres requires DATABASE_URL');
+    }
+    return new PostgresBusAdapter(databaseUrl);
+  }
+
+  return new InMemoryBusAdapter();
+}
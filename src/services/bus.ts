@@ -1,17 +1,88 @@
 import { EventEmitter } from 'node:events';
+import { env } from '../config/env.js';
 import type { LocationUpdatePayload } from '../types/location.js';
+import { createBusAdapter, type BusAdapter } from './bus-adapters.js';
+import { webhookDeliveryQueue } from './webhook-deliveries.js';
 
-export type GroupEvent = {
-  type: 'location';
-  data: LocationUpdatePayload & { groupId: string };
+export type GeofenceEventType = 'geofence.enter' | 'geofence.exit' | 'geofence.dwell';
+
+export type GeofenceEventData = {
+  groupId: string;
+  geofenceId: string;
+  geofenceName: string;
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  recordedAt: Date;
+  /** Seconds the device has been inside the geofence (dwell events only) */
+  dwellSeconds?: number;
 };
 
+/**
+ * A person stopped sharing their location with the group
+ * - expired: the share's duration elapsed
+ * - ended: the person ended the share themselves
+ * - revoked: an owner or admin removed or suspended the person
+ */
+export type ShareEndedEventData = {
+  groupId: string;
+  shareId: string;
+  userId: string;
+  /** Device the share was limited to (null when it covered all of the person's devices) */
+  deviceId: string | null;
+  reason: 'expired' | 'ended' | 'revoked';
+  startedAt: Date;
+  endedAt: Date;
+};
+
+/**
+ * An owner or admin took a person's access to the group away
+ * - removed: the person is no longer a member
+ * - suspended: the person stays a member without access until reinstated
+ * Their shares end (each with its own share.ended) and their locations are no longer
+ * published to the group.
+ */
+export type MemberRemovedEventData = {
+  groupId: string;
+  userId: string;
+  reason: 'removed' | 'suspended';
+  /** Owner or admin who removed or suspended the person */
+  removedBy: string;
+  removedAt: Date;
+};
+
+export type GroupEvent =
+  | {
+      type: 'location';
+      data: LocationUpdatePayload & { groupId: string };
+    }
+  | {
+      type: GeofenceEventType;
+      data: GeofenceEventData;
+    }
+  | {
+      type: 'share.ended';
+      data: ShareEndedEventData;
+    }
+  | {
+      type: 'member.removed';
+      data: MemberRemovedEventData;
+    };
+
 type SubscriberInfo = {
   apiKeyId: string;
   groupId: string;
   subscribedAt: Date;
 };
 
+/**
+ * Location Bus
+ *
+ * Fans group events out to the SSE subscribers connected to this instance.
+ * Events travel through a BusAdapter (BUS_ADAPTER: memory | postgres) so that,
+ * with the postgres adapter, a location ingested on one replica reaches
+ * subscribers connected to any other replica. Subscriber tracking is per instance.
+ */
 class LocationBus extends EventEmitter {
   /**
    * Track active subscribers per group
@@ -25,46 +96,76 @@ class LocationBus extends EventEmitter {
    */
   private subscriberDetails = new Map<string, SubscriberInfo>();
 
+  constructor(private readonly adapter: BusAdapter) {
+    super();
+    this.adapter.onMessage((groupId, event) => this.emitToSubscribers(groupId, event));
+  }
+
+  /**
+   * Name of the adapter events are published through
+   */
+  get adapterName(): BusAdapter['name'] {
+    return this.adapter.name;
+  }
+
+  /**
+   * Connect the adapter (no-op for the in-memory adapter)
+   */
+  async start(): Promise<void> {
+    await this.adapter.start();
+  }
+
+  /**
+   * Disconnect the adapter; local subscribers are left attached
+   */
+  async close(): Promise<void> {
+    await this.adapter.close();
+  }
+
   /**
    * Publish location to a single group
-   * Only publishes if there are active subscribers for that group
    */
   publishLocation(groupId: string, payload: LocationUpdatePayload): void {
-    // Only publish if there are active subscribers for this group
+    this.publishEvent(groupId, {
+      type: 'location',
+      data: { ...payload, groupId },
+    });
+  }
+
+  /**
+   * Publish any group event (location, geofence, share, ...) to a single group
+   * Webhooks registered on the group's API keys are notified once, by the
+   * publishing instance; the event is then handed to the adapter so every
+   * instance can emit it to its own subscribers
+   */
+  publishEvent(groupId: string, event: GroupEvent): void {
+    // Push to registered webhooks regardless of connected SSE clients
+    webhookDeliveryQueue.dispatch(groupId, event);
+
+    this.adapter.publish(groupId, event);
+  }
+
+  /**
+   * Emit an event received from the adapter to local subscribers of the group
+   */
+  private emitToSubscribers(groupId: string, event: GroupEvent): void {
+    // Only emit if this instance has active subscribers for this group
     const subscribers = this.activeSubscribers.get(groupId);
     if (!subscribers || subscribers.size === 0) {
       // No active subscribers for this group, skip publishing
-      console.log('[LocationBus] publishLocation skipped - no subscribers', { groupId });
       return;
     }
 
-    const enriched: GroupEvent = {
-      type: 'location',
-      data: { ...payload, groupId },
-    };
-    console.log('[LocationBus] publishLocation emitting', { groupId, subscriberCount: subscribers.size, deviceId: payload.deviceId });
-    this.emit(groupId, enriched);
+    this.emit(groupId, event);
   }
 
   /**
    * Publish location to multiple groups (for authorized groups only)
-   * Only publishes to groups that have active subscribers
+   * Every group is handed to publishLocation so its webhooks fire;
+   * SSE delivery still only happens for groups with active subscribers
    */
   publishLocationToGroups(groupIds: string[], payload: LocationUpdatePayload): void {
-    // Only publish to groups that have active subscribers
-    const groupsWithSubscribers = groupIds.filter(
-      (groupId) => this.activeSubscribers.has(groupId) && this.activeSubscribers.get(groupId)!.size > 0
-    );
-
-    // Debug logging
-    console.log('[LocationBus] publishLocationToGroups called', {
-      targetGroups: groupIds,
-      groupsWithSubscribers,
-      totalSubscribers: groupsWithSubscribers.reduce((sum, gid) => sum + (this.activeSubscribers.get(gid)?.size ?? 0), 0),
-      allSubscribedGroups: Array.from(this.activeSubscribers.keys()),
-    });
-
-    groupsWithSubscribers.forEach((groupId) => {
+    groupIds.forEach((groupId) => {
       this.publishLocation(groupId, payload);
     });
   }
@@ -99,13 +200,6 @@ class LocationBus extends EventEmitter {
     // Add event listener
     this.on(groupId, listener);
 
-    console.log('[LocationBus] subscribe called', {
-      groupId,
-      apiKeyId,
-      subscriberCount: this.activeSubscribers.get(groupId)?.size ?? 0,
-      allSubscribedGroups: Array.from(this.activeSubscribers.keys()),
-    });
-
     // Return unsubscribe function
     return () => {
       this.unsubscribe(groupId, apiKeyId, listener);
@@ -180,4 +274,4 @@ class LocationBus extends EventEmitter {
   }
 }
 
-export const locationBus = new LocationBus();
+export const locationBus = new LocationBus(createBusAdapter(env.BUS_ADAPTER, env.DATABASE_URL));
@@ -0,0 +1,168 @@
+import { prisma as db } from '../db.js';
+import type { LocationUpdatePayload } from '../types/location.js';
+import { haversineDistanceMeters, isPointInPolygon, type Position } from '../utils/geo.js';
+import { locationBus, type GeofenceEventType } from './bus.js';
+
+export const GEOFENCE_SHAPES = ['circle', 'polygon'] as const;
+
+export type GeofenceShape = (typeof GEOFENCE_SHAPES)[number];
+
+type GeofenceRow = {
+  id: string;
+  group_id: string;
+  name: string;
+  shape: string;
+  center_latitude: number | null;
+  center_longitude: number | null;
+  radius_meters: number | null;
+  polygon: string | null;
+  dwell_seconds: number | null;
+};
+
+/**
+ * Whether a point lies inside a geofence
+ * Misconfigured geofences (missing circle fields, unparsable polygon) never contain anything
+ */
+export function isInsideGeofence(
+  geofence: Pick<
+    GeofenceRow,
+    'shape' | 'center_latitude' | 'center_longitude' | 'radius_meters' | 'polygon'
+  >,
+  point: { latitude: number; longitude: number }
+): boolean {
+  if (geofence.shape === 'circle') {
+    if (
+      geofence.center_latitude === null ||
+      geofence.center_longitude === null ||
+      geofence.radius_meters === null
+    ) {
+      return false;
+    }
+
+    const center = { latitude: geofence.center_latitude, longitude: geofence.center_longitude };
+    return haversineDistanceMeters(center, point) <= geofence.radius_meters;
+  }
+
+  if (geofence.shape === 'polygon' && geofence.polygon) {
+    try {
+      const ring = JSON.parse(geofence.polygon) as Position[];
+      return isPointInPolygon(point, ring);
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Evaluate a device location against the active geofences of the given groups
+ *
+ * Per (geofence, device) state is kept in `geofence_device_states`:
+ * - outside → inside publishes geofence.enter
+ * - inside → outside publishes geofence.exit
+ * - staying inside for dwell_seconds publishes geofence.dwell once per visit
+ * Points older than the last evaluated point for a device are ignored so late
+ * uploads cannot flip the state backwards.
+ */
+export async function evaluateGeofences(
+  groupIds: string[],
+  payload: LocationUpdatePayload
+): Promise<void> {
+  if (groupIds.length === 0) {
+    return;
+  }
+
+  const geofences: (GeofenceRow & {
+    device_states: {
+      inside: boolean;
+      entered_at: Date | null;
+      dwell_notified: boolean;
+      last_recorded_at: Date;
+    }[];
+  })[] = await db.geofences.findMany({
+    where: {
+      group_id: { in: groupIds },
+      active: true,
+    },
+    include: {
+      device_states: {
+        where: { device_id: payload.deviceId },
+      },
+    },
+  });
+
+  const recordedAt = payload.recordedAt;
+
+  for (const geofence of geofences) {
+    const state = geofence.device_states[0];
+
+    if (state && recordedAt < state.last_recorded_at) {
+      continue;
+    }
+
+    const inside = isInsideGeofence(geofence, payload);
+    const wasInside = state?.inside ?? false;
+
+    let eventType: GeofenceEventType | null = null;
+    let enteredAt = state?.entered_at ?? null;
+    let dwellNotified = state?.dwell_notified ?? false;
+    let dwellSeconds: number | undefined;
+
+    if (inside && !wasInside) {
+      eventType = 'geofence.enter';
+      enteredAt = recordedAt;
+      dwellNotified = false;
+    } else if (!inside && wasInside) {
+      eventType = 'geofence.exit';
+      enteredAt = null;
+      dwellNotified = false;
+    } else if (inside && geofence.dwell_seconds && !dwellNotified && enteredAt) {
+      const insideForSeconds = Math.floor((recordedAt.getTime() - enteredAt.getTime()) / 1000);
+      if (insideForSeconds >= geofence.dwell_seconds) {
+        eventType = 'geofence.dwell';
+        dwellNotified = true;
+        dwellSeconds = insideForSeconds;
+      }
+    }
+
+    await db.geofence_device_states.upsert({
+      where: {
+        geofence_id_device_id: {
+          geofence_id: geofence.id,
+          device_id: payload.deviceId,
+        },
+      },
+      create: {
+        geofence_id: geofence.id,
+        device_id: payload.deviceId,
+        inside,
+        entered_at: enteredAt,
+        dwell_notified: dwellNotified,
+        last_recorded_at: recordedAt,
+      },
+      update: {
+        inside,
+        entered_at: enteredAt,
+        dwell_notified: dwellNotified,
+        last_recorded_at: recordedAt,
+      },
+    });
+
+    if (eventType) {
+      locationBus.publishEvent(geofence.group_id, {
+        type: eventType,
+        data: {
+          groupId: geofence.group_id,
+          geofenceId: geofence.id,
+          geofenceName: geofence.name,
+          deviceId: payload.deviceId,
+          latitude: payload.latitude,
+          longitude: payload.longitude,
+          recordedAt,
+          ...(dwellSeconds !== undefined && { dwellSeconds }),
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import { invitationAcceptUrl, signInvitationToken } from '../utils/invitation-links.js';
+import {
+  invitationAcceptedEmail,
+  invitationEmail,
+  invitationExpiredEmail,
+  type MailContent,
+} from './mail-templates.js';
+import { mailer } from './mailer.js';
+
+type UserRow = { email: string; name: string | null };
+
+function displayName(user: UserRow | null): string {
+  return user ? (user.name ?? user.email) : 'A former member';
+}
+
+async function send(to: string, content: MailContent): Promise<void> {
+  await mailer.send({ to, ...content });
+}
+
+/**
+ * Signed accept link for an invitation
+ * @returns null when APP_BASE_URL or INVITATION_LINK_SECRET is not configured
+ */
+export function acceptLinkFor(invitation: { id: string; expires_at: Date | null }): string | null {
+  if (!env.APP_BASE_URL || !env.INVITATION_LINK_SECRET) {
+    return null;
+  }
+
+  const token = signInvitationToken(
+    invitation.id,
+    invitation.expires_at,
+    env.INVITATION_LINK_SECRET
+  );
+  return invitationAcceptUrl(env.APP_BASE_URL, invitation.id, token);
+}
+
+/**
+ * Email an invitation with its accept link to the invited user
+ * Never throws: a failed email is logged and does not fail the invitation.
+ */
+export async function sendInvitationEmail(invitationId: string): Promise<void> {
+  try {
+    const invitation = await db.group_invitations.findUnique({
+      where: { id: invitationId },
+      include: { groups: true, users: true },
+    });
+    if (!invitation) {
+      return;
+    }
+
+    const inviter = await db.users.findUnique({ where: { id: invitation.invited_by } });
+    await send(
+      invitation.users.email,
+      invitationEmail({
+        groupName: invitation.groups.name,
+        inviterName: displayName(inviter),
+        expiresAt: invitation.expires_at,
+        acceptUrl: acceptLinkFor(invitation),
+      })
+    );
+  } catch (error) {
+    console.error('[InvitationEmails] Invitation email failed', { invitationId, error });
+  }
+}
+
+/**
+ * Tell the inviter that their invitation was accepted
+ * Never throws.
+ */
+export async function sendInvitationAcceptedEmail(invitationId: string): Promise<void> {
+  try {
+    const invitation = await db.group_invitations.findUnique({
+      where: { id: invitationId },
+      include: { groups: true, users: true },
+    });
+    const inviter =
+      invitation && (await db.users.findUnique({ where: { id: invitation.invited_by } }));
+    if (!invitation || !inviter) {
+      return;
+    }
+
+    await send(
+      inviter.email,
+      invitationAcceptedEmail({
+        groupName: invitation.groups.name,
+        inviteeName: displayName(invitation.users),
+      })
+    );
+  } catch (error) {
+    console.error('[InvitationEmails] Acceptance email failed', { invitationId, error });
+  }
+}
+
+/**
+ * Tell the inviter that an invitation expired without an answer
+ * Takes the invitation as loaded before it is deleted. Never throws.
+ */
+export async function sendInvitationExpiredEmail(invitation: {
+  id: string;
+  invited_by: string;
+  groups: { name: string };
+  users: UserRow;
+}): Promise<void> {
+  try {
+    const inviter = await db.users.findUnique({ where: { id: invitation.invited_by } });
+    if (!inviter) {
+      return;
+    }
+
+    await send(
+      inviter.email,
+      invitationExpiredEmail({
+        groupName: invitation.groups.name,
+        inviteeName: displayName(invitation.users),
+      })
+    );
+  } catch (error) {
+    console.error('[InvitationEmails] Expiry email failed', { invitationId: invitation.id, error });
+  }
+}
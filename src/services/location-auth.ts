@@ -1,4 +1,6 @@
 import { prisma as db } from '../db.js';
+import { rolesWith } from '../utils/group-permissions.js';
+import { activeApiKeyWhere } from './api-keys.js';
 
 /**
  * Find all groups that:
@@ -39,14 +41,14 @@ export async function findAuthorizedGroups(
   }
 
   // Find all groups where this user is a member
-  // Only consider non-pending memberships (e.g., 'accepted', 'active')
-  // Pending memberships should not receive location updates
+  // Only active memberships receive location updates; pending, suspended
+  // and former members do not
   const groupMemberships = await db.group_members.findMany({
     where: {
       user_id: userId,
-      status: {
-        not: 'pending', // Exclude pending memberships
-      },
+      status: 'active',
+      // Viewers see the group but do not share their location with it
+      role: { in: rolesWith('locations:share') },
     },
     select: {
       group_id: true,
@@ -59,15 +61,13 @@ export async function findAuthorizedGroups(
 
   const groupIds = groupMemberships.map((gm) => gm.group_id);
 
-  // Find groups that have at least one active (non-revoked) API key
+  // Find groups that have at least one active (non-revoked, unexpired) API key
   // These are the "apps" that can receive location data
   const groupsWithActiveApiKeys = await db.groups.findMany({
     where: {
       id: { in: groupIds },
       api_keys: {
-        some: {
-          revoked_at: null, // API key is not revoked
-        },
+        some: activeApiKeyWhere(), // API key is neither revoked nor expired
       },
     },
     select: {
@@ -97,13 +97,13 @@ export async function findAuthorizedGroups(
  */
 export async function findAuthorizedGroupsForUser(userId: string): Promise<string[]> {
   // Find all groups where this user is a member
-  // Only consider non-pending memberships (accepted/active status)
+  // Only consider active memberships
   const groupMemberships = await db.group_members.findMany({
     where: {
       user_id: userId,
-      status: {
-        not: 'pending', // Exclude pending memberships
-      },
+      status: 'active',
+      // Viewers see the group but do not share their location with it
+      role: { in: rolesWith('locations:share') },
     },
     select: {
       group_id: true,
@@ -116,15 +116,13 @@ export async function findAuthorizedGroupsForUser(userId: string): Promise<strin
 
   const groupIds = groupMemberships.map((gm) => gm.group_id);
 
-  // Find groups that have at least one active (non-revoked) API key
+  // Find groups that have at least one active (non-revoked, unexpired) API key
   // These are the "apps" (developer API keys) that can receive location data
   const groupsWithActiveApiKeys = await db.groups.findMany({
     where: {
       id: { in: groupIds },
       api_keys: {
-        some: {
-          revoked_at: null, // API key is not revoked
-        },
+        some: activeApiKeyWhere(), // API key is neither revoked nor expired
       },
     },
     select: {
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import { submissionKey } from '../utils/idempotency.js';
+import {
+  applyRacedSubmissions,
+  newestLocationsByGroup,
+  planLocationBatch,
+  type BatchLocationItem,
+} from './location-batch.js';
+import type { LocationQualityPolicy, QualityFix } from './location-quality.js';
+
+const receivedAt = new Date('2026-01-01T12:00:00Z');
+
+function item(second: number, overrides: Partial<BatchLocationItem> = {}): BatchLocationItem {
+  return {
+    deviceId: 'phone-1',
+    latitude: 0,
+    longitude: 0,
+    accuracy: 10,
+    recordedAt: new Date(receivedAt.getTime() - 60_000 + second * 1000),
+    payloadVersion: 'v1',
+    ...overrides,
+  };
+}
+
+function policy(
+  action: LocationQualityPolicy['action'],
+  overrides: Partial<LocationQualityPolicy> = {}
+): LocationQualityPolicy {
+  return {
+    action,
+    maxSpeedMps: null,
+    maxAccuracyMeters: null,
+    maxFutureSeconds: null,
+    maxAgeSeconds: null,
+    ...overrides,
+  };
+}
+
+function plan(
+  items: BatchLocationItem[],
+  options: {
+    policies?: Map<string, LocationQualityPolicy>;
+    submitted?: Map<string, { id: string; received_at: Date }>;
+    previousFix?: QualityFix | null;
+    lookups?: string[];
+  } = {}
+) {
+  return planLocationBatch(items, {
+    memberGroupIds: ['group-1', 'group-2'],
+    submitted: options.submitted ?? new Map(),
+    qualityPolicies: options.policies ?? new Map(),
+    findPreviousFix: async (deviceId) => {
+      options.lookups?.push(deviceId);
+      return options.previousFix ?? null;
+    },
+    receivedAt,
+  });
+}
+
+describe('planLocationBatch', () => {
+  it('should report accepted, duplicate and rejected items by index', async () => {
+    const original = { id: 'stored-1', received_at: new Date('2026-01-01T11:00:00Z') };
+    const submitted = new Map([[submissionKey('phone-1', 'retry-1'), original]]);
+    const policies = new Map([
+      ['group-1', policy('reject', { maxAccuracyMeters: 50 })],
+      ['group-2', policy('reject', { maxAccuracyMeters: 50 })],
+    ]);
+
+    const { results, accepted } = await plan(
+      [
+        item(0),
+        item(1, { clientId: 'retry-1' }),
+        item(2, { groupIds: ['group-1', 'group-9'] }),
+        item(3, { accuracy: 500 }),
+      ],
+      { policies, submitted }
+    );
+
+    expect(results.sort((a, b) => a.index - b.index)).toEqual([
+      {
+        index: 0,
+        status: 'accepted',
+        id: accepted[0].location.id,
+        receivedAt: receivedAt.toISOString(),
+      },
+      { index: 1, status: 'accepted', id: 'stored-1', receivedAt: '2026-01-01T11:00:00.000Z' },
+      {
+        index: 2,
+        status: 'rejected',
+        error: 'User is not an active member sharing locations with groups: group-9',
+      },
+      { index: 3, status: 'rejected', error: 'Location rejected by quality policy: low_accuracy' },
+    ]);
+    expect(accepted).toHaveLength(1);
+    expect(accepted[0]).toMatchObject({ index: 0, targetGroupIds: ['group-1', 'group-2'] });
+  });
+
+  it('should store a fix one group suppresses but only deliver it to the others', async () => {
+    const policies = new Map([
+      ['group-1', policy('suppress', { maxAccuracyMeters: 50 })],
+      ['group-2', policy('flag', { maxAccuracyMeters: 50 })],
+    ]);
+
+    const { results, accepted } = await plan([item(0, { accuracy: 500 })], { policies });
+
+    expect(results).toEqual([expect.objectContaining({ status: 'accepted' })]);
+    expect(accepted[0].targetGroupIds).toEqual(['group-2']);
+    expect(accepted[0].location.metadata).toMatchObject({
+      quality: { flagged: true, issues: ['low_accuracy'], suppressedIn: ['group-1'] },
+    });
+  });
+
+  it('should judge items oldest first, each against the fix before it in the batch', async () => {
+    const lookups: string[] = [];
+    const policies = new Map([['group-1', policy('reject', { maxSpeedMps: 50 })]]);
+    const start = { latitude: 0, longitude: 0, accuracy: 0 };
+    // ~1.1km north, one second after the first fix
+    const spike = { latitude: 0.01, longitude: 0, accuracy: 0 };
+
+    const { results, accepted } = await plan(
+      [
+        item(2, { ...start, groupIds: ['group-1'] }),
+        item(1, { ...spike, groupIds: ['group-1'] }),
+        item(0, { ...start, groupIds: ['group-1'] }),
+      ],
+      { policies, lookups }
+    );
+
+    expect(lookups).toEqual(['phone-1']);
+    expect(accepted.map((entry) => entry.index)).toEqual([2, 0]);
+    expect(results.find((result) => result.index === 1)).toMatchObject({
+      status: 'rejected',
+      error: 'Location rejected by quality policy: implied_speed',
+    });
+  });
+
+  it('should not look up previous fixes when no group checks quality', async () => {
+    const lookups: string[] = [];
+
+    await plan([item(0), item(1)], { policies: new Map([['group-1', policy('off')]]), lookups });
+
+    expect(lookups).toEqual([]);
+  });
+
+  it('should answer a key repeated within the batch with the first item', async () => {
+    const { results, accepted } = await plan([
+      item(0, { clientId: 'key-1' }),
+      item(1, { clientId: 'key-1' }),
+    ]);
+
+    expect(accepted).toHaveLength(1);
+    expect(results[1]).toEqual({ ...results[0], index: 1 });
+  });
+});
+
+describe('applyRacedSubmissions', () => {
+  it('should answer items another request stored first with its rows', async () => {
+    const { results, accepted } = await plan([
+      item(0, { clientId: 'raced' }),
+      item(1, { clientId: 'fresh' }),
+      item(2),
+    ]);
+    const fresh = accepted[1].location;
+    const original = { id: 'stored-elsewhere', received_at: new Date('2026-01-01T11:59:00Z') };
+
+    applyRacedSubmissions(
+      accepted,
+      results,
+      new Map([
+        [submissionKey('phone-1', 'raced'), original],
+        [submissionKey('phone-1', 'fresh'), { id: fresh.id as string, received_at: receivedAt }],
+      ])
+    );
+
+    expect(accepted.map((entry) => entry.index)).toEqual([1, 2]);
+    expect(results[0]).toEqual({
+      index: 0,
+      status: 'accepted',
+      id: 'stored-elsewhere',
+      receivedAt: '2026-01-01T11:59:00.000Z',
+    });
+  });
+});
+
+describe('newestLocationsByGroup', () => {
+  it('should publish only the newest location per device and group', async () => {
+    const policies = new Map([['group-2', policy('suppress', { maxAccuracyMeters: 50 })]]);
+    const { accepted } = await plan(
+      [
+        item(0),
+        item(1),
+        // Newest, but suppressed by group-2, which keeps the previous one
+        item(2, { accuracy: 500 }),
+        item(1, { deviceId: 'phone-2' }),
+      ],
+      { policies }
+    );
+    const byIndex = (index: number) => accepted.find((entry) => entry.index === index)?.location;
+
+    const publishTo = newestLocationsByGroup(accepted);
+
+    expect(publishTo).toEqual(
+      new Map([
+        [byIndex(1), ['group-2']],
+        [byIndex(2), ['group-1']],
+        [byIndex(3), ['group-1', 'group-2']],
+      ])
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import { nanoid } from 'nanoid';
+import type { LocationUpdatePayload } from '../types/location.js';
+import { submissionKey } from '../utils/idempotency.js';
+import {
+  judgeLocationQuality,
+  withQualityIssues,
+  type LocationQualityPolicy,
+  type QualityFix,
+} from './location-quality.js';
+
+/**
+ * One location of a batch submission, as validated by the route
+ */
+export type BatchLocationItem = {
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+  recordedAt: Date;
+  payloadVersion: string;
+  metadata?: Record<string, unknown>;
+  groupIds?: string[];
+  clientId?: string;
+};
+
+export type BatchItemResult = {
+  index: number;
+  status: 'accepted' | 'rejected';
+  id?: string;
+  receivedAt?: string;
+  error?: string;
+};
+
+/**
+ * A batch item to store, with the groups it is delivered to
+ */
+export type AcceptedBatchLocation = {
+  location: LocationUpdatePayload;
+  targetGroupIds: string[];
+  clientId?: string;
+  index: number;
+};
+
+type SubmittedLocation = { id: string; received_at: Date };
+
+/**
+ * Decide what happens to each item of a batch, oldest first
+ * Items whose key the device already used are answered with the original location. Items
+ * targeting a group the user does not share with, or rejected by every target group's quality
+ * policy, are rejected. Quality is checked per device against the last unflagged fix before
+ * each item: from this batch, or looked up with `findPreviousFix` for the device's first one.
+ * @param submitted - Locations already stored, by submissionKey(); keys accepted here are added
+ * @returns Results by item, and the accepted items in recordedAt order
+ */
+export async function planLocationBatch(
+  items: BatchLocationItem[],
+  context: {
+    memberGroupIds: string[];
+    submitted: Map<string, SubmittedLocation>;
+    qualityPolicies: Map<string, LocationQualityPolicy>;
+    findPreviousFix: (deviceId: string, recordedAt: Date) => Promise<QualityFix | null>;
+    receivedAt: Date;
+  }
+): Promise<{ results: BatchItemResult[]; accepted: AcceptedBatchLocation[] }> {
+  const { memberGroupIds, submitted, qualityPolicies, receivedAt } = context;
+  const results: BatchItemResult[] = [];
+  const accepted: AcceptedBatchLocation[] = [];
+
+  const checksQuality = [...qualityPolicies.values()].some((policy) => policy.action !== 'off');
+  const previousFixes = new Map<string, QualityFix | null>();
+  const chronological = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => a.item.recordedAt.getTime() - b.item.recordedAt.getTime());
+
+  for (const { item, index } of chronological) {
+    const key =
+      item.clientId !== undefined ? submissionKey(item.deviceId, item.clientId) : undefined;
+    const original = key !== undefined ? submitted.get(key) : undefined;
+    if (original) {
+      results.push({
+        index,
+        status: 'accepted',
+        id: original.id,
+        receivedAt: original.received_at.toISOString(),
+      });
+      continue;
+    }
+
+    const requestedGroupIds = [...new Set(item.groupIds ?? [])];
+    const invalidGroupIds = requestedGroupIds.filter((id) => !memberGroupIds.includes(id));
+    if (invalidGroupIds.length > 0) {
+      results.push({
+        index,
+        status: 'rejected',
+        error: `User is not an active member sharing locations with groups: ${invalidGroupIds.join(', ')}`,
+      });
+      continue;
+    }
+    const targetGroupIds = requestedGroupIds.length > 0 ? requestedGroupIds : memberGroupIds;
+
+    let previous: QualityFix | null = null;
+    if (checksQuality) {
+      previous = previousFixes.has(item.deviceId)
+        ? (previousFixes.get(item.deviceId) ?? null)
+        : await context.findPreviousFix(item.deviceId, item.recordedAt);
+      previousFixes.set(item.deviceId, previous);
+    }
+    const quality = judgeLocationQuality(
+      item,
+      previous,
+      targetGroupIds,
+      qualityPolicies,
+      receivedAt
+    );
+    if (quality.rejected) {
+      results.push({
+        index,
+        status: 'rejected',
+        error: `Location rejected by quality policy: ${quality.issues.join(', ')}`,
+      });
+      continue;
+    }
+    if (checksQuality && quality.issues.length === 0) {
+      previousFixes.set(item.deviceId, item);
+    }
+
+    const location = {
+      id: nanoid(16),
+      deviceId: item.deviceId,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      accuracy: item.accuracy ?? null,
+      heading: item.heading ?? null,
+      speed: item.speed ?? null,
+      recordedAt: item.recordedAt,
+      metadata: withQualityIssues(item.metadata ?? null, quality.issues, quality.suppressedIn),
+      payloadVersion: item.payloadVersion,
+      receivedAt,
+    };
+    accepted.push({
+      location,
+      // Groups whose quality policy suppresses the fix still store it, but do not receive it
+      targetGroupIds: quality.deliverTo,
+      clientId: item.clientId,
+      index,
+    });
+    results.push({
+      index,
+      status: 'accepted',
+      id: location.id,
+      receivedAt: receivedAt.toISOString(),
+    });
+    // A key repeated within the batch refers to this item
+    if (key !== undefined) {
+      submitted.set(key, { id: location.id, received_at: receivedAt });
+    }
+  }
+
+  return { results, accepted };
+}
+
+/**
+ * Answer items a concurrent request stored first with its rows
+ * Those items are removed from `accepted`, so they are neither evaluated against geofences
+ * nor published again.
+ * @param originals - Stored locations of the accepted items' keys, by submissionKey()
+ */
+export function applyRacedSubmissions(
+  accepted: AcceptedBatchLocation[],
+  results: BatchItemResult[],
+  originals: Map<string, SubmittedLocation>
+): void {
+  for (const entry of accepted.filter((candidate) => candidate.clientId !== undefined)) {
+    const original = originals.get(
+      submissionKey(entry.location.deviceId, entry.clientId as string)
+    );
+    if (original && original.id !== entry.location.id) {
+      const result = results.find((r) => r.index === entry.index);
+      if (result) {
+        result.id = original.id;
+        result.receivedAt = original.received_at.toISOString();
+      }
+      accepted.splice(accepted.indexOf(entry), 1);
+    }
+  }
+}
+
+/**
+ * Groups each accepted location is published to
+ * Only the newest location per device and group is published; older ones are history.
+ * @param accepted - In recordedAt order, as planned by planLocationBatch()
+ */
+export function newestLocationsByGroup(
+  accepted: AcceptedBatchLocation[]
+): Map<LocationUpdatePayload, string[]> {
+  // Entries are sorted oldest first, so the last one seen for a key is the newest
+  const newest = new Map<string, { location: LocationUpdatePayload; groupId: string }>();
+  for (const { location, targetGroupIds } of accepted) {
+    for (const groupId of targetGroupIds) {
+      newest.set(`${location.deviceId}:${groupId}`, { location, groupId });
+    }
+  }
+
+  const publishTo = new Map<LocationUpdatePayload, string[]>();
+  for (const { location, groupId } of newest.values()) {
+    publishTo.set(location, [...(publishTo.get(location) ?? []), groupId]);
+  }
+  return publishTo;
+}
@@ -0,0 +1,94 @@
+import type { Prisma } from '@prisma/client';
+import { prisma as db } from '../db.js';
+import type { LocationUpdatePayload } from '../types/location.js';
+import {
+  locationBatcher,
+  type BatcherGroupState,
+  type QueuedLocationUpdate,
+} from './location-batcher.js';
+
+type SnapshotRow = {
+  group_id: string;
+  frequency_seconds: number;
+  last_published_at: Date | null;
+  updates: Prisma.JsonValue;
+};
+
+type StoredUpdate = Omit<QueuedLocationUpdate, 'payload' | 'queuedAt'> & {
+  payload: Omit<LocationUpdatePayload, 'recordedAt' | 'receivedAt'> & {
+    recordedAt: string;
+    receivedAt?: string;
+  };
+  queuedAt: string;
+};
+
+/**
+ * Turn a saved snapshot row back into batcher state (timestamps are stored as ISO strings)
+ */
+export function toBatcherGroupState(row: SnapshotRow): BatcherGroupState {
+  const updates = (row.updates as unknown as StoredUpdate[]).map((update) => ({
+    ...update,
+    payload: {
+      ...update.payload,
+      recordedAt: new Date(update.payload.recordedAt),
+      receivedAt:
+        update.payload.receivedAt !== undefined ? new Date(update.payload.receivedAt) : undefined,
+    },
+    queuedAt: new Date(update.queuedAt),
+  }));
+
+  return {
+    groupId: row.group_id,
+    frequencySeconds: row.frequency_seconds,
+    lastPublished: row.last_published_at,
+    updates,
+  };
+}
+
+/**
+ * Save the batcher's pending queues so the next instance to start can publish them
+ * Every instance writes its own rows, so concurrent shutdowns never overwrite each other.
+ * @returns Number of queued updates saved
+ */
+export async function saveBatcherState(): Promise<number> {
+  const states = locationBatcher.snapshot();
+  if (states.length === 0) {
+    return 0;
+  }
+
+  // Groups deleted while their updates were queued have nothing left to publish to
+  const existing = await db.groups.findMany({
+    where: { id: { in: states.map((state) => state.groupId) } },
+    select: { id: true },
+  });
+  const existingIds = new Set(existing.map((group) => group.id));
+  const kept = states.filter((state) => existingIds.has(state.groupId));
+
+  await db.location_batcher_snapshots.createMany({
+    data: kept.map((state) => ({
+      group_id: state.groupId,
+      frequency_seconds: state.frequencySeconds,
+      last_published_at: state.lastPublished,
+      updates: JSON.parse(JSON.stringify(state.updates)) as Prisma.InputJsonValue,
+    })),
+  });
+
+  return kept.reduce((total, state) => total + state.updates.length, 0);
+}
+
+/**
+ * Claim every saved snapshot and load it into the batcher
+ * Rows are deleted as they are read, so with several instances starting at once each
+ * snapshot is restored exactly once.
+ * @returns Number of queued updates restored
+ */
+export async function restoreBatcherState(): Promise<number> {
+  const rows = await db.$queryRaw<SnapshotRow[]>`
+    DELETE FROM "location_batcher_snapshots"
+    RETURNING "group_id", "frequency_seconds", "last_published_at", "updates"
+  `;
+
+  const states = rows.map(toBatcherGroupState);
+  locationBatcher.restore(states);
+  return states.reduce((total, state) => total + state.updates.length, 0);
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { locationBatcher, type QueuedLocationUpdate } from './location-batcher.js';
+import { toBatcherGroupState } from './location-batcher-state.js';
+
+function queued(deviceId: string, queuedAt: Date): QueuedLocationUpdate {
+  return {
+    payload: {
+      id: `loc-${deviceId}`,
+      deviceId,
+      latitude: 51.5,
+      longitude: -0.12,
+      recordedAt: new Date('2025-01-01T12:00:00.000Z'),
+      receivedAt: new Date('2025-01-01T12:00:01.000Z'),
+      metadata: { battery: 80 },
+    },
+    userId: 'user-1',
+    deviceId,
+    queuedAt,
+  };
+}
+
+describe('LocationBatcher snapshots', () => {
+  afterEach(() => {
+    locationBatcher.shutdown();
+  });
+
+  it('should restore queues and schedules from a snapshot', () => {
+    // Published recently, so restoring does not publish straight away
+    const lastPublished = new Date();
+    const state = {
+      groupId: 'group-1',
+      frequencySeconds: 60,
+      lastPublished,
+      updates: [queued('device-1', new Date())],
+    };
+
+    locationBatcher.restore([state]);
+
+    expect(locationBatcher.snapshot()).toEqual([state]);
+    expect(locationBatcher.getGroupFrequency('group-1')).toBe(60);
+  });
+
+  it('should keep the most recently queued update per device when snapshots overlap', () => {
+    const lastPublished = new Date();
+    const older = queued('device-1', new Date(Date.now() - 1000));
+    const newer = queued('device-1', new Date());
+
+    locationBatcher.restore([
+      { groupId: 'group-1', frequencySeconds: 60, lastPublished, updates: [newer] },
+      { groupId: 'group-1', frequencySeconds: 60, lastPublished, updates: [older] },
+    ]);
+
+    expect(locationBatcher.snapshot()[0].updates).toEqual([newer]);
+  });
+
+  it('should revive timestamps of saved snapshots', () => {
+    const update = queued('device-1', new Date('2025-01-01T12:00:02.000Z'));
+    const state = toBatcherGroupState({
+      group_id: 'group-1',
+      frequency_seconds: 30,
+      last_published_at: null,
+      updates: JSON.parse(JSON.stringify([update])),
+    });
+
+    expect(state).toEqual({
+      groupId: 'group-1',
+      frequencySeconds: 30,
+      lastPublished: null,
+      updates: [update],
+    });
+  });
+});
@@ -8,6 +8,16 @@ export interface QueuedLocationUpdate {
   queuedAt: Date;
 }
 
+/**
+ * Batching state of one group, as saved on shutdown and restored at startup
+ */
+export interface BatcherGroupState {
+  groupId: string;
+  frequencySeconds: number;
+  lastPublished: Date | null;
+  updates: QueuedLocationUpdate[];
+}
+
 /**
  * Location Batcher Service
  * 
@@ -183,6 +193,25 @@ class LocationBatcher {
     this.groupFrequencies.delete(groupId);
   }
   
+  /**
+   * Drop a user's queued updates for a group (e.g. when their location share ends)
+   * @param deviceId - Only drop this device's updates; null drops all of the user's devices
+   */
+  dropQueuedUpdates(groupId: string, userId: string, deviceId: string | null = null): void {
+    const queue = this.groupQueues.get(groupId);
+    if (!queue) {
+      return;
+    }
+
+    this.groupQueues.set(
+      groupId,
+      queue.filter(
+        (update) =>
+          !(update.userId === userId && (deviceId === null || update.deviceId === deviceId))
+      )
+    );
+  }
+
   /**
    * Get stats about the batcher
    */
@@ -203,6 +232,59 @@ class LocationBatcher {
     };
   }
   
+  /**
+   * Capture the queues and schedules of every group with pending updates
+   */
+  snapshot(): BatcherGroupState[] {
+    const states: BatcherGroupState[] = [];
+
+    for (const [groupId, updates] of this.groupQueues.entries()) {
+      const frequencyMs = this.groupFrequencies.get(groupId);
+      if (updates.length === 0 || frequencyMs === undefined) {
+        continue;
+      }
+
+      const lastPublished = this.lastPublished.get(groupId);
+      states.push({
+        groupId,
+        frequencySeconds: frequencyMs / 1000,
+        lastPublished: lastPublished && lastPublished.getTime() > 0 ? lastPublished : null,
+        updates: [...updates],
+      });
+    }
+
+    return states;
+  }
+
+  /**
+   * Load saved group states, e.g. from before a restart
+   * Only the most recently queued update per user/device is kept, and a group's
+   * current frequency wins over the saved one.
+   */
+  restore(states: BatcherGroupState[]): void {
+    for (const state of states) {
+      const merged = new Map<string, QueuedLocationUpdate>();
+      for (const update of [...state.updates, ...(this.groupQueues.get(state.groupId) ?? [])]) {
+        const key = `${update.userId}:${update.deviceId}`;
+        const existing = merged.get(key);
+        if (!existing || update.queuedAt >= existing.queuedAt) {
+          merged.set(key, update);
+        }
+      }
+      this.groupQueues.set(state.groupId, [...merged.values()]);
+
+      const lastPublished = state.lastPublished ?? new Date(0);
+      const current = this.lastPublished.get(state.groupId);
+      if (!current || current < lastPublished) {
+        this.lastPublished.set(state.groupId, lastPublished);
+      }
+
+      if (!this.groupFrequencies.has(state.groupId)) {
+        this.setGroupFrequency(state.groupId, state.frequencySeconds);
+      }
+    }
+  }
+
   /**
    * Cleanup - stop all timers
    */
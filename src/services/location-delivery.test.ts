@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { deliversBatched, deliversRealtime, RealtimeThrottle } from './location-delivery.js';
+
+describe('Group delivery policies', () => {
+  it('should push immediately unless the group only takes batches', () => {
+    expect(deliversRealtime('realtime')).toBe(true);
+    expect(deliversRealtime('both')).toBe(true);
+    expect(deliversRealtime('batched')).toBe(false);
+  });
+
+  it('should batch unless the group is realtime only', () => {
+    expect(deliversBatched('batched')).toBe(true);
+    expect(deliversBatched('both')).toBe(true);
+    expect(deliversBatched('realtime')).toBe(false);
+  });
+});
+
+describe('RealtimeThrottle', () => {
+  it('should allow at most one push per frequency for a device', () => {
+    const throttle = new RealtimeThrottle();
+    expect(throttle.allow('group-1', 'user-1', 'device-1', 30, 0)).toBe(true);
+    expect(throttle.allow('group-1', 'user-1', 'device-1', 30, 10_000)).toBe(false);
+    expect(throttle.allow('group-1', 'user-1', 'device-1', 30, 30_000)).toBe(true);
+  });
+
+  it('should throttle each group and device separately', () => {
+    const throttle = new RealtimeThrottle();
+    expect(throttle.allow('group-1', 'user-1', 'device-1', 30, 0)).toBe(true);
+    expect(throttle.allow('group-2', 'user-1', 'device-1', 30, 0)).toBe(true);
+    expect(throttle.allow('group-1', 'user-1', 'device-2', 30, 0)).toBe(true);
+  });
+
+  it('should not throttle without a frequency', () => {
+    const throttle = new RealtimeThrottle();
+    expect(throttle.allow('group-1', 'user-1', 'device-1', null, 0)).toBe(true);
+    expect(throttle.allow('group-1', 'user-1', 'device-1', null, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * How a group receives submitted locations
+ * - realtime: every location is pushed as soon as it arrives, throttled to the share frequency
+ * - batched: locations are only published by the batcher, at the share frequency
+ * - both: immediate (throttled) pushes plus the batched schedule
+ */
+export const GROUP_DELIVERY_POLICIES = ['realtime', 'batched', 'both'] as const;
+
+export type GroupDeliveryPolicy = (typeof GROUP_DELIVERY_POLICIES)[number];
+
+export function deliversRealtime(policy: string): boolean {
+  return policy !== 'batched';
+}
+
+export function deliversBatched(policy: string): boolean {
+  return policy !== 'realtime';
+}
+
+/**
+ * Realtime Throttle
+ *
+ * Limits immediate pushes to one per share frequency for each (group, user, device).
+ * Points in between are still stored and evaluated against geofences; they are just
+ * not pushed. State is kept per instance, like the batcher queues.
+ */
+export class RealtimeThrottle {
+  private lastPushed = new Map<string, { at: number; frequencyMs: number }>();
+  private lastPrunedAt = 0;
+
+  /**
+   * Whether a location may be pushed now; records the push when it may
+   * @param frequencySeconds - Minimum seconds between pushes (null = no throttling)
+   */
+  allow(
+    groupId: string,
+    userId: string,
+    deviceId: string,
+    frequencySeconds: number | null,
+    now = Date.now()
+  ): boolean {
+    if (frequencySeconds === null) {
+      return true;
+    }
+
+    const key = `${groupId}:${userId}:${deviceId}`;
+    const frequencyMs = frequencySeconds * 1000;
+    const previous = this.lastPushed.get(key);
+    if (previous && now - previous.at < frequencyMs) {
+      return false;
+    }
+
+    this.lastPushed.set(key, { at: now, frequencyMs });
+    this.prune(now);
+    return true;
+  }
+
+  /**
+   * Forget devices whose throttle window has passed (at most once a minute)
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < 60 * 1000) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    for (const [key, entry] of this.lastPushed) {
+      if (now - entry.at >= entry.frequencyMs) {
+        this.lastPushed.delete(key);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const realtimeThrottle = new RealtimeThrottle();
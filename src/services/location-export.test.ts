@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveExportFormat,
+  toCsv,
+  toGeoJson,
+  toGpx,
+  type ExportLocationRow,
+} from './location-export.js';
+
+function row(
+  id: string,
+  deviceId: string,
+  minute: number,
+  lat: number,
+  lng: number
+): ExportLocationRow {
+  return {
+    id,
+    device_id: deviceId,
+    latitude: lat,
+    longitude: lng,
+    accuracy: null,
+    heading: null,
+    speed: null,
+    recorded_at: new Date(Date.UTC(2025, 0, 1, 12, minute)),
+    metadata: null,
+  };
+}
+
+async function* source(rows: ExportLocationRow[]): AsyncGenerator<ExportLocationRow> {
+  yield* rows;
+}
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+  let out = '';
+  for await (const chunk of chunks) out += chunk;
+  return out;
+}
+
+const rows = [
+  row('a1', 'device-a', 0, 37.0, -122.0),
+  row('a2', 'device-a', 1, 37.1, -122.1),
+  row('b1', 'device-b', 0, 40.0, -74.0),
+];
+
+describe('Location export', () => {
+  it('should resolve the format from the param before the Accept header', () => {
+    expect(resolveExportFormat('csv', 'application/gpx+xml')).toBe('csv');
+    expect(resolveExportFormat(undefined, 'application/gpx+xml')).toBe('gpx');
+    expect(resolveExportFormat(undefined, 'text/csv')).toBe('csv');
+    expect(resolveExportFormat(undefined, '*/*')).toBe('geojson');
+  });
+
+  it('should export one Point feature per location', async () => {
+    const geojson = JSON.parse(await collect(toGeoJson(source(rows), 'points')));
+
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features).toHaveLength(3);
+    expect(geojson.features[0].geometry).toEqual({ type: 'Point', coordinates: [-122.0, 37.0] });
+    expect(geojson.features[2].properties.deviceId).toBe('device-b');
+  });
+
+  it('should export one LineString per device', async () => {
+    const geojson = JSON.parse(await collect(toGeoJson(source(rows), 'linestring')));
+
+    expect(geojson.features).toHaveLength(2);
+    expect(geojson.features[0].geometry.coordinates).toEqual([
+      [-122.0, 37.0],
+      [-122.1, 37.1],
+    ]);
+    expect(geojson.features[0].properties).toMatchObject({ deviceId: 'device-a', pointCount: 2 });
+    // A single fix is repeated so the LineString stays valid
+    expect(geojson.features[1].geometry.coordinates).toHaveLength(2);
+  });
+
+  it('should produce a valid empty FeatureCollection', async () => {
+    const geojson = JSON.parse(await collect(toGeoJson(source([]), 'linestring')));
+    expect(geojson.features).toEqual([]);
+  });
+
+  it('should group GPX tracks by device', async () => {
+    const gpx = await collect(toGpx(source(rows)));
+
+    expect(gpx.match(/<trk>/g)).toHaveLength(2);
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx).toContain('<name>device-a</name>');
+    expect(gpx.trim().endsWith('</gpx>')).toBe(true);
+  });
+
+  it('should escape CSV values', async () => {
+    const csv = await collect(
+      toCsv(source([{ ...rows[0], metadata: JSON.stringify({ note: 'a,"b"' }) }]))
+    );
+    const [header, line] = csv.trim().split('\n');
+
+    expect(header).toBe(
+      'id,device_id,recorded_at,latitude,longitude,accuracy,heading,speed,metadata'
+    );
+    expect(line).toBe(
+      'a1,device-a,2025-01-01T12:00:00.000Z,37,-122,,,,"{""note"":""a,\\""b\\""""}"'
+    );
+  });
+});
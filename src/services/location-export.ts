@@ -0,0 +1,264 @@
+import type { Prisma } from '@prisma/client';
+import { prisma as db } from '../db.js';
+
+export const EXPORT_FORMATS = ['geojson', 'gpx', 'csv'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  gpx: 'application/gpx+xml',
+  csv: 'text/csv',
+};
+
+export type ExportLocationRow = {
+  id: string;
+  device_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  recorded_at: Date;
+  metadata: string | null;
+};
+
+export type ExportFilter = {
+  /** Restrict to one group; omitted for a user's own export, which spans groups */
+  groupId?: string;
+  deviceId?: string;
+  /** Restrict to these devices (an API key's allow-list) */
+  deviceIds?: string[];
+  from?: Date;
+  to?: Date;
+  /** Any further condition, e.g. a user's own locations */
+  where?: Prisma.locationsWhereInput;
+};
+
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Pick the export format from an explicit `format` param, falling back to the Accept header
+ * Defaults to GeoJSON when neither names a supported format
+ */
+export function resolveExportFormat(format?: string, accept?: string): ExportFormat {
+  if (format && (EXPORT_FORMATS as readonly string[]).includes(format)) {
+    return format as ExportFormat;
+  }
+
+  if (accept) {
+    if (accept.includes('gpx')) return 'gpx';
+    if (accept.includes('text/csv')) return 'csv';
+  }
+
+  return 'geojson';
+}
+
+/**
+ * Read matching locations in (device_id, recorded_at, id) order, one batch at a time
+ * Keyset pagination keeps memory flat no matter how large the time range is
+ */
+export async function* iterateLocationsForExport(
+  filter: ExportFilter
+): AsyncGenerator<ExportLocationRow, void, undefined> {
+  let after: ExportLocationRow | null = null;
+
+  while (true) {
+    const rows: ExportLocationRow[] = await db.locations.findMany({
+      where: {
+        ...(filter.where && { AND: [filter.where] }),
+        ...(filter.groupId && { group_id: filter.groupId }),
+        ...(filter.deviceId && { device_id: filter.deviceId }),
+        ...(!filter.deviceId && filter.deviceIds && { device_id: { in: filter.deviceIds } }),
+        recorded_at: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+        ...(after && {
+          OR: [
+            { device_id: { gt: after.device_id } },
+            { device_id: after.device_id, recorded_at: { gt: after.recorded_at } },
+            { device_id: after.device_id, recorded_at: after.recorded_at, id: { gt: after.id } },
+          ],
+        }),
+      },
+      select: {
+        id: true,
+        device_id: true,
+        latitude: true,
+        longitude: true,
+        accuracy: true,
+        heading: true,
+        speed: true,
+        recorded_at: true,
+        metadata: true,
+      },
+      orderBy: [{ device_id: 'asc' }, { recorded_at: 'asc' }, { id: 'asc' }],
+      take: EXPORT_BATCH_SIZE,
+    });
+
+    yield* rows;
+
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    after = rows[rows.length - 1];
+  }
+}
+
+/**
+ * GeoJSON FeatureCollection
+ * - points: one Point feature per location
+ * - linestring: one LineString feature per device (rows must be grouped by device)
+ */
+export async function* toGeoJson(
+  rows: AsyncIterable<ExportLocationRow>,
+  geometry: 'points' | 'linestring' = 'points'
+): AsyncGenerator<string, void, undefined> {
+  yield '{"type":"FeatureCollection","features":[';
+
+  if (geometry === 'points') {
+    let first = true;
+    for await (const row of rows) {
+      const feature = {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [row.longitude, row.latitude] },
+        properties: {
+          id: row.id,
+          deviceId: row.device_id,
+          recordedAt: row.recorded_at.toISOString(),
+          accuracy: row.accuracy,
+          heading: row.heading,
+          speed: row.speed,
+          metadata: row.metadata ? JSON.parse(row.metadata) : null,
+        },
+      };
+      yield `${first ? '' : ','}${JSON.stringify(feature)}`;
+      first = false;
+    }
+  } else {
+    let current: { deviceId: string; start: Date; end: Date; count: number; last: string } | null =
+      null;
+
+    const closeFeature = (line: NonNullable<typeof current>): string => {
+      // A LineString needs two positions; repeat a lone fix so the output stays valid
+      const padding = line.count === 1 ? `,${line.last}` : '';
+      const properties = {
+        deviceId: line.deviceId,
+        startedAt: line.start.toISOString(),
+        endedAt: line.end.toISOString(),
+        pointCount: line.count,
+      };
+      return `${padding}]},"properties":${JSON.stringify(properties)}}`;
+    };
+
+    for await (const row of rows) {
+      const position = JSON.stringify([row.longitude, row.latitude]);
+
+      if (!current || current.deviceId !== row.device_id) {
+        if (current) {
+          yield `${closeFeature(current)},`;
+        }
+        current = {
+          deviceId: row.device_id,
+          start: row.recorded_at,
+          end: row.recorded_at,
+          count: 1,
+          last: position,
+        };
+        yield `{"type":"Feature","geometry":{"type":"LineString","coordinates":[${position}`;
+        continue;
+      }
+
+      current.end = row.recorded_at;
+      current.count += 1;
+      current.last = position;
+      yield `,${position}`;
+    }
+
+    if (current) {
+      yield closeFeature(current);
+    }
+  }
+
+  yield ']}';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * GPX 1.1 document with one track per device (rows must be grouped by device)
+ */
+export async function* toGpx(
+  rows: AsyncIterable<ExportLocationRow>
+): AsyncGenerator<string, void, undefined> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<gpx version="1.1" creator="GoFindMe" xmlns="http://www.topografix.com/GPX/1/1">\n';
+
+  let currentDevice: string | null = null;
+  for await (const row of rows) {
+    if (row.device_id !== currentDevice) {
+      if (currentDevice !== null) {
+        yield '</trkseg></trk>\n';
+      }
+      currentDevice = row.device_id;
+      yield `<trk><name>${escapeXml(row.device_id)}</name><trkseg>\n`;
+    }
+
+    yield `<trkpt lat="${row.latitude}" lon="${row.longitude}"><time>${row.recorded_at.toISOString()}</time></trkpt>\n`;
+  }
+
+  if (currentDevice !== null) {
+    yield '</trkseg></trk>\n';
+  }
+  yield '</gpx>\n';
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'device_id',
+  'recorded_at',
+  'latitude',
+  'longitude',
+  'accuracy',
+  'heading',
+  'speed',
+  'metadata',
+] as const;
+
+/**
+ * CSV with a header row; metadata is kept as its JSON string
+ */
+export async function* toCsv(
+  rows: AsyncIterable<ExportLocationRow>
+): AsyncGenerator<string, void, undefined> {
+  yield `${CSV_COLUMNS.join(',')}\n`;
+
+  for await (const row of rows) {
+    const values = [
+      row.id,
+      row.device_id,
+      row.recorded_at.toISOString(),
+      row.latitude,
+      row.longitude,
+      row.accuracy,
+      row.heading,
+      row.speed,
+      row.metadata,
+    ];
+    yield `${values.map(escapeCsv).join(',')}\n`;
+  }
+}
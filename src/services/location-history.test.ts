@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import {
+  afterHistoryCursor,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  loadLocationHistoryPage,
+  toHistoryPage,
+  type HistoryCursor,
+} from './location-history.js';
+
+const recordedAt = new Date('2026-01-01T12:00:00.000Z');
+
+function row(id: string, second = 0) {
+  return { id, recorded_at: new Date(recordedAt.getTime() + second * 1000) };
+}
+
+describe('History cursors', () => {
+  it('should round-trip the position of a row', () => {
+    const cursor = encodeHistoryCursor(row('abc:123'));
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeHistoryCursor(cursor)).toEqual({ recordedAt, id: 'abc:123' });
+  });
+
+  it('should reject malformed cursors', () => {
+    const encode = (value: string) => Buffer.from(value).toString('base64url');
+
+    expect(decodeHistoryCursor('')).toBeNull();
+    expect(decodeHistoryCursor('not a cursor')).toBeNull();
+    expect(decodeHistoryCursor(encode('no-separator'))).toBeNull();
+    expect(decodeHistoryCursor(encode('yesterday:abc'))).toBeNull();
+    expect(decodeHistoryCursor(encode('1767268800000:'))).toBeNull();
+  });
+
+  it('should continue after rows sharing the cursor timestamp by id', () => {
+    expect(afterHistoryCursor({ recordedAt, id: 'b' })).toEqual({
+      OR: [{ recorded_at: { gt: recordedAt } }, { recorded_at: recordedAt, id: { gt: 'b' } }],
+    });
+  });
+});
+
+describe('toHistoryPage', () => {
+  it('should point the next cursor at the last row of a full page', () => {
+    const rows = [row('a'), row('b'), row('c', 1)];
+
+    const page = toHistoryPage(rows, 2);
+
+    expect(page.items).toEqual([row('a'), row('b')]);
+    expect(page.nextCursor && decodeHistoryCursor(page.nextCursor)).toEqual({
+      recordedAt,
+      id: 'b',
+    });
+  });
+
+  it('should end when no row follows the page', () => {
+    expect(toHistoryPage([row('a'), row('b')], 2)).toEqual({
+      items: [row('a'), row('b')],
+      nextCursor: null,
+    });
+    expect(toHistoryPage([], 2)).toEqual({ items: [], nextCursor: null });
+  });
+});
+
+describe.skipIf(!env.DATABASE_URL)('loadLocationHistoryPage', () => {
+  const ownerId = 'history-owner';
+  let groupId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: ownerId } });
+    await db.users.deleteMany({ where: { id: ownerId } });
+  }
+
+  beforeEach(async () => {
+    await cleanUp();
+    await db.users.create({ data: { id: ownerId, email: `${ownerId}@test.example.com` } });
+    const group = await db.groups.create({ data: { name: 'History', owner_id: ownerId } });
+    groupId = group.id;
+
+    // Three locations share a timestamp, so pages break in the middle of the tie
+    await db.locations.createMany({
+      data: [row('history-a'), row('history-b'), row('history-c'), row('history-d', 1)].map(
+        (location) => ({
+          ...location,
+          group_id: groupId,
+          device_id: 'history-phone',
+          latitude: 1,
+          longitude: 2,
+        })
+      ),
+    });
+  });
+
+  afterEach(cleanUp);
+
+  it('should return every location once across pages', async () => {
+    const ids: string[] = [];
+    let cursor: HistoryCursor | null = null;
+    do {
+      const page = await loadLocationHistoryPage({ group_id: groupId }, cursor, 2);
+      ids.push(...page.items.map((location) => location.id));
+      cursor = page.nextCursor ? decodeHistoryCursor(page.nextCursor) : null;
+    } while (cursor);
+
+    expect(ids).toEqual(['history-a', 'history-b', 'history-c', 'history-d']);
+  });
+});
@@ -0,0 +1,72 @@
+import type { Prisma } from '@prisma/client';
+import { prisma as db } from '../db.js';
+
+/**
+ * Position of the last location on a history page: its recorded_at and id
+ */
+export type HistoryCursor = { recordedAt: Date; id: string };
+
+/**
+ * Opaque history cursor: base64url("<recorded_at ms>:<id>") of the last row on a page
+ */
+export function encodeHistoryCursor(row: { recorded_at: Date; id: string }): string {
+  return Buffer.from(`${row.recorded_at.getTime()}:${row.id}`).toString('base64url');
+}
+
+export function decodeHistoryCursor(cursor: string): HistoryCursor | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator === -1) return null;
+
+  const timestamp = Number(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  if (!Number.isFinite(timestamp) || !id) return null;
+
+  return { recordedAt: new Date(timestamp), id };
+}
+
+/**
+ * Locations after a cursor in (recorded_at, id) order
+ * Rows sharing the cursor's timestamp are told apart by id, so none is skipped or repeated.
+ */
+export function afterHistoryCursor(cursor: HistoryCursor): Prisma.locationsWhereInput {
+  return {
+    OR: [
+      { recorded_at: { gt: cursor.recordedAt } },
+      { recorded_at: cursor.recordedAt, id: { gt: cursor.id } },
+    ],
+  };
+}
+
+/**
+ * Cut a page from rows fetched with one more than the limit
+ * @returns The page, and the cursor of its last row when more rows follow
+ */
+export function toHistoryPage<T extends { recorded_at: Date; id: string }>(
+  rows: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null } {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return { items, nextCursor: hasMore && last ? encodeHistoryCursor(last) : null };
+}
+
+/**
+ * One page of stored locations matching a filter, oldest first
+ * @param cursor - Cursor of the previous page's last row (null for the first page)
+ */
+export async function loadLocationHistoryPage(
+  where: Prisma.locationsWhereInput,
+  cursor: HistoryCursor | null,
+  limit: number
+) {
+  const rows = await db.locations.findMany({
+    where: cursor ? { AND: [where, afterHistoryCursor(cursor)] } : where,
+    orderBy: [{ recorded_at: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+  });
+
+  return toHistoryPage(rows, limit);
+}
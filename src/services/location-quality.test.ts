@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessLocationQuality,
+  isSuppressedFor,
+  judgeLocationQuality,
+  withQualityIssues,
+  type LocationQualityPolicy,
+  type QualityFix,
+} from './location-quality.js';
+
+const now = new Date('2026-01-01T12:00:00Z');
+
+function policy(overrides: Partial<LocationQualityPolicy> = {}): LocationQualityPolicy {
+  return {
+    action: 'flag',
+    maxSpeedMps: 100,
+    maxAccuracyMeters: 500,
+    maxFutureSeconds: 60,
+    maxAgeSeconds: 86400,
+    ...overrides,
+  };
+}
+
+function fix(secondsBeforeNow: number, latitude = 51.5, accuracy: number | null = 10): QualityFix {
+  return {
+    latitude,
+    longitude: -0.12,
+    accuracy,
+    recordedAt: new Date(now.getTime() - secondsBeforeNow * 1000),
+  };
+}
+
+describe('assessLocationQuality', () => {
+  it('accepts a plausible fix', () => {
+    expect(assessLocationQuality(fix(0, 51.5001), fix(10), policy(), now)).toEqual([]);
+  });
+
+  it('flags a 1km jump in one second', () => {
+    // 0.009 degrees of latitude is roughly 1km
+    const issues = assessLocationQuality(fix(0, 51.509), fix(1), policy(), now);
+    expect(issues).toEqual(['implied_speed']);
+  });
+
+  it('ignores movement within both accuracy radii', () => {
+    const jitter = assessLocationQuality(fix(0, 51.5005, 30), fix(0.5, 51.5, 30), policy(), now);
+    expect(jitter).toEqual([]);
+  });
+
+  it('flags a jump between fixes recorded at the same time', () => {
+    expect(assessLocationQuality(fix(5, 51.51), fix(5), policy(), now)).toEqual(['implied_speed']);
+  });
+
+  it('skips the speed check without a previous fix', () => {
+    expect(assessLocationQuality(fix(0, 80), null, policy(), now)).toEqual([]);
+  });
+
+  it('flags low accuracy, future and stale timestamps', () => {
+    expect(assessLocationQuality(fix(0, 51.5, 2000), null, policy(), now)).toEqual([
+      'low_accuracy',
+    ]);
+    expect(assessLocationQuality(fix(-120), null, policy(), now)).toEqual(['future_timestamp']);
+    expect(assessLocationQuality(fix(2 * 86400), null, policy(), now)).toEqual(['stale_timestamp']);
+  });
+
+  it('skips checks whose threshold is null', () => {
+    const lenient = policy({
+      maxSpeedMps: null,
+      maxAccuracyMeters: null,
+      maxFutureSeconds: null,
+      maxAgeSeconds: null,
+    });
+    expect(assessLocationQuality(fix(-120, 51.6, 2000), fix(1), lenient, now)).toEqual([]);
+  });
+});
+
+describe('judgeLocationQuality', () => {
+  const spike = fix(0, 51.6);
+  const previous = fix(1);
+
+  it('delivers to every group when no group checks quality', () => {
+    const verdict = judgeLocationQuality(spike, previous, ['g1', 'g2'], new Map(), now);
+    expect(verdict).toEqual({
+      deliverTo: ['g1', 'g2'],
+      issues: [],
+      suppressedIn: [],
+      rejected: false,
+    });
+  });
+
+  it('delivers flagged fixes but not suppressed ones', () => {
+    const policies = new Map([
+      ['g1', policy({ action: 'flag' })],
+      ['g2', policy({ action: 'suppress' })],
+    ]);
+    const verdict = judgeLocationQuality(spike, previous, ['g1', 'g2'], policies, now);
+    expect(verdict).toEqual({
+      deliverTo: ['g1'],
+      issues: ['implied_speed'],
+      suppressedIn: ['g2'],
+      rejected: false,
+    });
+  });
+
+  it('rejects only when every target group rejects', () => {
+    const rejecting = new Map([
+      ['g1', policy({ action: 'reject' })],
+      ['g2', policy({ action: 'off' })],
+    ]);
+    expect(judgeLocationQuality(spike, previous, ['g1', 'g2'], rejecting, now)).toEqual({
+      deliverTo: ['g2'],
+      issues: ['implied_speed'],
+      suppressedIn: [],
+      rejected: false,
+    });
+    expect(judgeLocationQuality(spike, previous, ['g1'], rejecting, now).rejected).toBe(true);
+  });
+
+  it('still delivers clean fixes to rejecting groups', () => {
+    const policies = new Map([['g1', policy({ action: 'reject' })]]);
+    const verdict = judgeLocationQuality(fix(0, 51.5001), previous, ['g1'], policies, now);
+    expect(verdict).toEqual({ deliverTo: ['g1'], issues: [], suppressedIn: [], rejected: false });
+  });
+});
+
+describe('withQualityIssues', () => {
+  it('leaves metadata untouched without issues', () => {
+    expect(withQualityIssues(null, [])).toBeNull();
+    expect(withQualityIssues({ battery: 80 }, [])).toEqual({ battery: 80 });
+  });
+
+  it('records the issues next to existing metadata', () => {
+    expect(withQualityIssues({ battery: 80 }, ['low_accuracy'])).toEqual({
+      battery: 80,
+      quality: { flagged: true, issues: ['low_accuracy'] },
+    });
+  });
+
+  it('records the groups that suppressed the fix', () => {
+    expect(withQualityIssues(null, ['low_accuracy'], ['g2'])).toEqual({
+      quality: { flagged: true, issues: ['low_accuracy'], suppressedIn: ['g2'] },
+    });
+  });
+});
+
+describe('isSuppressedFor', () => {
+  const suppressed = JSON.stringify(withQualityIssues(null, ['low_accuracy'], ['g2']));
+
+  it('matches only the groups that suppressed the fix', () => {
+    expect(isSuppressedFor(suppressed, 'g2')).toBe(true);
+    expect(isSuppressedFor(suppressed, 'g1')).toBe(false);
+  });
+
+  it('treats flagged, unmarked and malformed metadata as delivered', () => {
+    const flagged = JSON.stringify(withQualityIssues(null, ['low_accuracy']));
+    expect(isSuppressedFor(flagged, 'g2')).toBe(false);
+    expect(isSuppressedFor(null, 'g2')).toBe(false);
+    expect(isSuppressedFor('not json', 'g2')).toBe(false);
+  });
+});
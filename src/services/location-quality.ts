@@ -0,0 +1,268 @@
+import { prisma as db } from '../db.js';
+import { haversineDistanceMeters } from '../utils/geo.js';
+
+/**
+ * What a group does with a location that fails its quality checks
+ * - off: no checks
+ * - flag: store and publish it, marked in metadata
+ * - suppress: store it marked in metadata, but do not publish it or evaluate geofences with it
+ * - reject: do not deliver it to the group; when every target group rejects it the
+ *   submission fails with 422 and nothing is stored
+ */
+export const LOCATION_QUALITY_ACTIONS = ['off', 'flag', 'suppress', 'reject'] as const;
+
+export type LocationQualityAction = (typeof LOCATION_QUALITY_ACTIONS)[number];
+
+export type LocationQualityIssue =
+  | 'implied_speed'
+  | 'low_accuracy'
+  | 'future_timestamp'
+  | 'stale_timestamp';
+
+/**
+ * Thresholds of a group's quality policy; null disables that check
+ */
+export interface LocationQualityPolicy {
+  action: LocationQualityAction;
+  /** Fastest plausible movement from the device's previous fix, in m/s */
+  maxSpeedMps: number | null;
+  /** Largest acceptable accuracy radius, in meters */
+  maxAccuracyMeters: number | null;
+  /** How far `recordedAt` may lie ahead of the server clock, in seconds */
+  maxFutureSeconds: number | null;
+  /** How old `recordedAt` may be when the location arrives, in seconds */
+  maxAgeSeconds: number | null;
+}
+
+export type QualityFix = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  recordedAt: Date;
+};
+
+type QualityPolicyRow = {
+  quality_action: string;
+  quality_max_speed_mps: number | null;
+  quality_max_accuracy_m: number | null;
+  quality_max_future_seconds: number | null;
+  quality_max_age_seconds: number | null;
+};
+
+// Locations are stored once for all target groups, so the metadata carries every issue found
+const QUALITY_METADATA_KEY = 'quality';
+
+// Flagged fixes are skipped when looking for a device's previous fix; look this far back
+const PREVIOUS_FIX_LOOKBACK = 10;
+
+export function toLocationQualityPolicy(row: QualityPolicyRow): LocationQualityPolicy {
+  return {
+    action: row.quality_action as LocationQualityAction,
+    maxSpeedMps: row.quality_max_speed_mps,
+    maxAccuracyMeters: row.quality_max_accuracy_m,
+    maxFutureSeconds: row.quality_max_future_seconds,
+    maxAgeSeconds: row.quality_max_age_seconds,
+  };
+}
+
+/**
+ * Check a fix against a policy's thresholds
+ * The implied speed to the previous fix ignores movement within both accuracy radii,
+ * so jitter of a stationary device is not mistaken for a jump.
+ */
+export function assessLocationQuality(
+  fix: QualityFix,
+  previous: QualityFix | null,
+  policy: LocationQualityPolicy,
+  now = new Date()
+): LocationQualityIssue[] {
+  const issues: LocationQualityIssue[] = [];
+
+  if (policy.maxSpeedMps !== null && previous) {
+    const distance = Math.max(
+      0,
+      haversineDistanceMeters(previous, fix) - (previous.accuracy ?? 0) - (fix.accuracy ?? 0)
+    );
+    const seconds = Math.abs(fix.recordedAt.getTime() - previous.recordedAt.getTime()) / 1000;
+    const speed = seconds > 0 ? distance / seconds : distance > 0 ? Infinity : 0;
+    if (speed > policy.maxSpeedMps) {
+      issues.push('implied_speed');
+    }
+  }
+
+  if (
+    policy.maxAccuracyMeters !== null &&
+    fix.accuracy != null &&
+    fix.accuracy > policy.maxAccuracyMeters
+  ) {
+    issues.push('low_accuracy');
+  }
+
+  const ageSeconds = (now.getTime() - fix.recordedAt.getTime()) / 1000;
+  if (policy.maxFutureSeconds !== null && -ageSeconds > policy.maxFutureSeconds) {
+    issues.push('future_timestamp');
+  }
+  if (policy.maxAgeSeconds !== null && ageSeconds > policy.maxAgeSeconds) {
+    issues.push('stale_timestamp');
+  }
+
+  return issues;
+}
+
+/**
+ * Outcome of checking one location against the policies of its target groups
+ */
+export interface LocationQualityVerdict {
+  /** Groups that still receive the location (published and evaluated against geofences) */
+  deliverTo: string[];
+  /** Every issue found by a group that checks quality */
+  issues: LocationQualityIssue[];
+  /** Groups whose `suppress` policy stores the location without delivering it */
+  suppressedIn: string[];
+  /** True when every target group rejected the location: it must not be stored */
+  rejected: boolean;
+}
+
+/**
+ * Apply each target group's quality policy to a fix
+ * @param policies - Policies by group ID; groups without one are not checked
+ */
+export function judgeLocationQuality(
+  fix: QualityFix,
+  previous: QualityFix | null,
+  targetGroupIds: string[],
+  policies: Map<string, LocationQualityPolicy>,
+  now = new Date()
+): LocationQualityVerdict {
+  const deliverTo: string[] = [];
+  const suppressedIn: string[] = [];
+  const issues = new Set<LocationQualityIssue>();
+  let stored = false;
+
+  for (const groupId of targetGroupIds) {
+    const policy = policies.get(groupId);
+    const found =
+      policy && policy.action !== 'off' ? assessLocationQuality(fix, previous, policy, now) : [];
+    found.forEach((issue) => issues.add(issue));
+
+    if (found.length === 0 || policy?.action === 'flag') {
+      deliverTo.push(groupId);
+      stored = true;
+    } else if (policy?.action === 'suppress') {
+      suppressedIn.push(groupId);
+      stored = true;
+    }
+  }
+
+  return { deliverTo, issues: [...issues], suppressedIn, rejected: !stored };
+}
+
+/**
+ * Mark location metadata with the quality issues found (unchanged when there are none)
+ * @param suppressedIn - Groups that store the location without delivering it, so it is not
+ * replayed to them later either
+ */
+export function withQualityIssues(
+  metadata: Record<string, unknown> | null,
+  issues: LocationQualityIssue[],
+  suppressedIn: string[] = []
+): Record<string, unknown> | null {
+  if (issues.length === 0) {
+    return metadata;
+  }
+  return {
+    ...metadata,
+    [QUALITY_METADATA_KEY]: {
+      flagged: true,
+      issues,
+      ...(suppressedIn.length > 0 && { suppressedIn }),
+    },
+  };
+}
+
+type QualityMetadata = { flagged?: boolean; suppressedIn?: unknown };
+
+function qualityMetadata(metadata: string | null): QualityMetadata | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(metadata) as Record<string, unknown>;
+    return parsed[QUALITY_METADATA_KEY] as QualityMetadata | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isFlagged(metadata: string | null): boolean {
+  return qualityMetadata(metadata)?.flagged === true;
+}
+
+/**
+ * Whether a stored location was withheld from a group by its `suppress` quality policy
+ */
+export function isSuppressedFor(metadata: string | null, groupId: string): boolean {
+  const suppressedIn = qualityMetadata(metadata)?.suppressedIn;
+  return Array.isArray(suppressedIn) && suppressedIn.includes(groupId);
+}
+
+/**
+ * Quality policies of the given groups, by group ID
+ */
+export async function loadQualityPolicies(
+  groupIds: string[]
+): Promise<Map<string, LocationQualityPolicy>> {
+  const rows = await db.groups.findMany({
+    where: { id: { in: groupIds } },
+    select: {
+      id: true,
+      quality_action: true,
+      quality_max_speed_mps: true,
+      quality_max_accuracy_m: true,
+      quality_max_future_seconds: true,
+      quality_max_age_seconds: true,
+    },
+  });
+  return new Map(rows.map((row) => [row.id, toLocationQualityPolicy(row)]));
+}
+
+/**
+ * The device's latest stored fix recorded at or before `recordedAt`
+ * Flagged fixes are skipped: comparing against a spike would flag the next good fix too.
+ */
+export async function findPreviousFix(
+  deviceId: string,
+  recordedAt: Date
+): Promise<QualityFix | null> {
+  const rows = await db.locations.findMany({
+    where: { device_id: deviceId, recorded_at: { lte: recordedAt } },
+    orderBy: { recorded_at: 'desc' },
+    take: PREVIOUS_FIX_LOOKBACK,
+    select: { latitude: true, longitude: true, accuracy: true, recorded_at: true, metadata: true },
+  });
+
+  const previous = rows.find((row) => !isFlagged(row.metadata));
+  return previous
+    ? {
+        latitude: previous.latitude,
+        longitude: previous.longitude,
+        accuracy: previous.accuracy,
+        recordedAt: previous.recorded_at,
+      }
+    : null;
+}
+
+/**
+ * Check a submitted location against its target groups' quality policies
+ * Skips the previous-fix lookup when none of the groups checks quality.
+ */
+export async function checkLocationQuality(
+  deviceId: string,
+  fix: QualityFix,
+  targetGroupIds: string[]
+): Promise<LocationQualityVerdict> {
+  const policies = await loadQualityPolicies(targetGroupIds);
+  const checked = [...policies.values()].some((policy) => policy.action !== 'off');
+  const previous = checked ? await findPreviousFix(deviceId, fix.recordedAt) : null;
+  return judgeLocationQuality(fix, previous, targetGroupIds, policies);
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { isShareLive, shareExpiresAt } from './location-shares.js';
+
+describe('shareExpiresAt', () => {
+  it('should add the duration to the start time', () => {
+    const startedAt = new Date('2025-01-01T12:00:00.000Z');
+    expect(shareExpiresAt(startedAt, 3600)).toEqual(new Date('2025-01-01T13:00:00.000Z'));
+  });
+
+  it('should not expire shares without a duration', () => {
+    expect(shareExpiresAt(new Date(), null)).toBeNull();
+  });
+});
+
+describe('isShareLive', () => {
+  const now = new Date('2025-01-01T12:00:00.000Z');
+
+  it('should keep active shares without an expiry live', () => {
+    expect(isShareLive({ is_active: true, expires_at: null }, now)).toBe(true);
+  });
+
+  it('should treat shares past their expiry as over before they are swept', () => {
+    expect(
+      isShareLive({ is_active: true, expires_at: new Date('2025-01-01T12:00:01.000Z') }, now)
+    ).toBe(true);
+    expect(isShareLive({ is_active: true, expires_at: now }, now)).toBe(false);
+  });
+
+  it('should treat ended shares as over', () => {
+    expect(isShareLive({ is_active: false, expires_at: null }, now)).toBe(false);
+  });
+});
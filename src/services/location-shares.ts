@@ -0,0 +1,152 @@
+import { prisma as db } from '../db.js';
+import { locationBus, type ShareEndedEventData } from './bus.js';
+import { locationBatcher } from './location-batcher.js';
+
+const SWEEP_INTERVAL_MS = 15 * 1000;
+const BATCH_SIZE = 100;
+
+type ShareRow = {
+  id: string;
+  user_id: string;
+  group_id: string;
+  device_id: string | null;
+  started_at: Date;
+  is_active: boolean;
+  expires_at: Date | null;
+};
+
+/**
+ * When a share started now with the given duration (in seconds) runs out
+ */
+export function shareExpiresAt(startedAt: Date, durationSeconds: number | null): Date | null {
+  return durationSeconds === null ? null : new Date(startedAt.getTime() + durationSeconds * 1000);
+}
+
+/**
+ * Whether a share is still running: not ended and not past its duration
+ * A share past its duration counts as over even before the expiry sweep has ended it
+ */
+export function isShareLive(
+  share: { is_active: boolean; expires_at: Date | null },
+  now = new Date()
+): boolean {
+  return share.is_active && (share.expires_at === null || share.expires_at > now);
+}
+
+/**
+ * End an active share, drop its batched updates and emit `share.ended` on the group's stream
+ * Only the caller that actually flips the share to inactive emits the event, so
+ * concurrent sweeps (or a sweep racing the end endpoint) notify subscribers once.
+ * @returns false when the share had already ended
+ */
+export async function endLocationShare(
+  share: ShareRow,
+  reason: ShareEndedEventData['reason'],
+  endedAt = new Date()
+): Promise<boolean> {
+  const { count } = await db.location_shares.updateMany({
+    where: { id: share.id, is_active: true },
+    data: { is_active: false, ended_at: endedAt, updated_at: new Date() },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  locationBatcher.dropQueuedUpdates(share.group_id, share.user_id, share.device_id);
+  locationBus.publishEvent(share.group_id, {
+    type: 'share.ended',
+    data: {
+      groupId: share.group_id,
+      shareId: share.id,
+      userId: share.user_id,
+      deviceId: share.device_id,
+      reason,
+      startedAt: share.started_at,
+      endedAt,
+    },
+  });
+  return true;
+}
+
+/**
+ * Share Expiry Scheduler
+ *
+ * Shares started with a duration get an `expires_at`; nothing else ends them once it
+ * passes. Every SWEEP_INTERVAL_MS the scheduler ends the shares that are past it,
+ * recording `expires_at` as their end time.
+ */
+class ShareExpiryScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<number> | null = null;
+
+  /**
+   * End every active share whose duration has elapsed
+   * @returns Number of shares ended by this sweep
+   */
+  sweep(): Promise<number> {
+    if (!this.sweeping) {
+      this.sweeping = this.endExpiredShares().finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async endExpiredShares(): Promise<number> {
+    let ended = 0;
+
+    for (;;) {
+      const expired = await db.location_shares.findMany({
+        where: { is_active: true, expires_at: { lte: new Date() } },
+        orderBy: { expires_at: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const share of expired) {
+        if (await endLocationShare(share, 'expired', share.expires_at ?? new Date())) {
+          ended += 1;
+        }
+      }
+
+      if (expired.length < BATCH_SIZE) {
+        return ended;
+      }
+    }
+  }
+
+  /**
+   * Start sweeping in the background
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        console.error('[ShareExpiry] Sweep failed', { error });
+      });
+    }, SWEEP_INTERVAL_MS);
+    this.timer.unref?.();
+
+    // Catch up on shares that expired while no instance was running
+    this.sweep().catch((error) => {
+      console.error('[ShareExpiry] Sweep failed', { error });
+    });
+  }
+
+  /**
+   * Stop the background sweep and wait for a running one to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.sweeping;
+  }
+}
+
+// Singleton instance
+export const shareExpiryScheduler = new ShareExpiryScheduler();
@@ -0,0 +1,95 @@
+import type { MailMessage } from './mailer.js';
+
+/**
+ * Subject and bodies of an email, without the recipient
+ */
+export type MailContent = Omit<MailMessage, 'to'>;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Paragraphs of the text body as a minimal HTML document; links become anchors
+function toHtml(paragraphs: string[], link?: { href: string; label: string }): string {
+  const body = paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`);
+  if (link) {
+    body.push(`<p><a href="${escapeHtml(link.href)}">${escapeHtml(link.label)}</a></p>`);
+  }
+  return `<!DOCTYPE html><html><body>${body.join('')}</body></html>`;
+}
+
+function toText(paragraphs: string[], link?: { href: string; label: string }): string {
+  return [...paragraphs, ...(link ? [`${link.label}: ${link.href}`] : [])].join('\n\n') + '\n';
+}
+
+/**
+ * Invitation sent to the invited user
+ * @param acceptUrl - Signed accept link; without one the user is pointed to the app
+ */
+export function invitationEmail(invitation: {
+  groupName: string;
+  inviterName: string;
+  expiresAt: Date | null;
+  acceptUrl: string | null;
+}): MailContent {
+  const paragraphs = [
+    `${invitation.inviterName} invited you to join the group "${invitation.groupName}" on GoFindMe.`,
+    invitation.expiresAt
+      ? `The invitation expires on ${invitation.expiresAt.toUTCString()}.`
+      : 'The invitation does not expire.',
+  ];
+  if (!invitation.acceptUrl) {
+    paragraphs.push('Open GoFindMe to accept or decline it.');
+  }
+  const link = invitation.acceptUrl
+    ? { href: invitation.acceptUrl, label: 'Accept the invitation' }
+    : undefined;
+
+  return {
+    subject: `You're invited to join ${invitation.groupName}`,
+    text: toText(paragraphs, link),
+    html: toHtml(paragraphs, link),
+  };
+}
+
+/**
+ * Sent to the inviter once the invited user accepted
+ */
+export function invitationAcceptedEmail(invitation: {
+  groupName: string;
+  inviteeName: string;
+}): MailContent {
+  const paragraphs = [
+    `${invitation.inviteeName} accepted your invitation and is now a member of "${invitation.groupName}".`,
+  ];
+
+  return {
+    subject: `${invitation.inviteeName} joined ${invitation.groupName}`,
+    text: toText(paragraphs),
+    html: toHtml(paragraphs),
+  };
+}
+
+/**
+ * Sent to the inviter when an invitation expired without an answer
+ */
+export function invitationExpiredEmail(invitation: {
+  groupName: string;
+  inviteeName: string;
+}): MailContent {
+  const paragraphs = [
+    `Your invitation for ${invitation.inviteeName} to join "${invitation.groupName}" expired before it was accepted.`,
+    'You can invite them again from the group.',
+  ];
+
+  return {
+    subject: `Invitation to ${invitation.groupName} expired`,
+    text: toText(paragraphs),
+    html: toHtml(paragraphs),
+  };
+}
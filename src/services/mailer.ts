@@ -0,0 +1,164 @@
+import crypto from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import { env } from '../config/env.js';
+
+export const MAIL_TRANSPORTS = ['console', 'file', 'smtp'] as const;
+
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/**
+ * A message ready to hand to a transport
+ */
+export type OutgoingMail = MailMessage & { from: string };
+
+/**
+ * How the Mailer hands a message over for delivery
+ * send() resolves once the transport has accepted the message and rejects otherwise.
+ */
+export interface MailTransport {
+  readonly name: MailTransportName;
+  send(message: OutgoingMail): Promise<void>;
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Logs messages instead of sending them
+ * Default, for local development
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console' as const;
+
+  async send(message: OutgoingMail): Promise<void> {
+    console.log('[Mailer] Email', { to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+/**
+ * Writes every message to an .eml file, for local development and tests
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file' as const;
+  private readonly composer = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'windows',
+  });
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: OutgoingMail): Promise<void> {
+    const { message: eml } = await this.composer.sendMail(message);
+    await mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${crypto.randomUUID()}.eml`);
+    await writeFile(file, eml as Buffer);
+  }
+}
+
+/**
+ * Connection options for an smtp:// or smtps:// URL
+ * smtps:// connects over TLS; smtp:// upgrades with STARTTLS when the server offers it.
+ * Credentials are never sent over a plaintext session: with a username in an smtp:// URL
+ * the session must upgrade, or sending fails before authenticating.
+ */
+export function smtpTransportOptions(url: URL): SMTPTransport.Options {
+  if (url.protocol !== 'smtp:' && url.protocol !== 'smtps:') {
+    throw new Error(`SMTP_URL must be an smtp:// or smtps:// URL, got ${url.protocol}//`);
+  }
+
+  const secure = url.protocol === 'smtps:';
+  const auth = url.username
+    ? { user: decodeURIComponent(url.username), pass: decodeURIComponent(url.password) }
+    : undefined;
+
+  return {
+    host: url.hostname,
+    port: Number(url.port) || (secure ? 465 : 587),
+    secure,
+    requireTLS: !secure && auth !== undefined,
+    auth,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Sends through an SMTP server given as smtp:// or smtps:// URL
+ * A new session is opened per message; see smtpTransportOptions for how it is secured.
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp' as const;
+  private readonly transporter: nodemailer.Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(url: URL) {
+    this.transporter = nodemailer.createTransport(smtpTransportOptions(url));
+  }
+
+  async send(message: OutgoingMail): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT
+ */
+export function createMailTransport(
+  name: MailTransportName,
+  options: { smtpUrl?: string; fileDirectory: string }
+): MailTransport {
+  if (name === 'smtp') {
+    if (!options.smtpUrl) {
+      throw new Error('MAIL_TRANSPORT=smtp requires SMTP_URL');
+    }
+    return new SmtpMailTransport(new URL(options.smtpUrl));
+  }
+
+  if (name === 'file') {
+    return new FileMailTransport(options.fileDirectory);
+  }
+
+  return new ConsoleMailTransport();
+}
+
+/**
+ * Mailer
+ *
+ * Sends email from MAIL_FROM through the transport selected by MAIL_TRANSPORT.
+ */
+class Mailer {
+  constructor(
+    private readonly transport: MailTransport,
+    private readonly from: string
+  ) {}
+
+  /**
+   * Name of the transport messages are sent through
+   */
+  get transportName(): MailTransportName {
+    return this.transport.name;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+  }
+}
+
+// Singleton instance
+export const mailer = new Mailer(
+  createMailTransport(env.MAIL_TRANSPORT, {
+    smtpUrl: env.SMTP_URL,
+    fileDirectory: env.MAIL_FILE_DIR,
+  }),
+  env.MAIL_FROM
+);
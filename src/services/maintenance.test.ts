@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  locationRetentionFilters,
+  MaintenanceScheduler,
+  retentionCutoff,
+  type MaintenanceReport,
+} from './maintenance.js';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const report: MaintenanceReport = {
+  locationsDeleted: 3,
+  anonymousSessionsDeleted: 0,
+  shareLinksDeleted: 1,
+  invitationsDeleted: 0,
+};
+
+describe('retentionCutoff', () => {
+  it('should go back the given number of whole days', () => {
+    expect(retentionCutoff(1, now)).toEqual(new Date('2026-03-09T12:00:00Z'));
+    expect(retentionCutoff(30, now)).toEqual(new Date('2026-02-08T12:00:00Z'));
+  });
+});
+
+describe('locationRetentionFilters', () => {
+  const overrides = [
+    { id: 'group-1', location_retention_days: 7 },
+    { id: 'group-2', location_retention_days: 365 },
+  ];
+
+  it('should purge each group with an override by its own retention', () => {
+    const filters = locationRetentionFilters(overrides, undefined, now);
+
+    expect(filters).toEqual([
+      { group_id: 'group-1', recorded_at: { lt: retentionCutoff(7, now) } },
+      { group_id: 'group-2', recorded_at: { lt: retentionCutoff(365, now) } },
+    ]);
+  });
+
+  it('should exclude groups with an override from the global purge', () => {
+    const filters = locationRetentionFilters(overrides, 30, now);
+
+    expect(filters).toHaveLength(3);
+    expect(filters[2]).toEqual({
+      group_id: { notIn: ['group-1', 'group-2'] },
+      recorded_at: { lt: retentionCutoff(30, now) },
+    });
+  });
+
+  it('should keep locations forever when no retention is set', () => {
+    expect(locationRetentionFilters([], undefined, now)).toEqual([]);
+  });
+});
+
+describe('MaintenanceScheduler', () => {
+  it('should join the run in progress', async () => {
+    const triggers: string[] = [];
+    let finish: (value: MaintenanceReport) => void = () => {};
+    const scheduler = new MaintenanceScheduler((trigger) => {
+      triggers.push(trigger);
+      return new Promise((resolve) => {
+        finish = resolve;
+      });
+    });
+
+    const scheduled = scheduler.run('schedule');
+    const manual = scheduler.run('manual');
+    finish(report);
+
+    expect(await manual).toBe(report);
+    expect(await scheduled).toBe(report);
+    expect(triggers).toEqual(['schedule']);
+  });
+
+  it('should start a new run once the previous one finished', async () => {
+    const triggers: string[] = [];
+    const scheduler = new MaintenanceScheduler(async (trigger) => {
+      triggers.push(trigger);
+      if (trigger === 'schedule') {
+        throw new Error('database unavailable');
+      }
+      return report;
+    });
+
+    await expect(scheduler.run('schedule')).rejects.toThrow('database unavailable');
+    await expect(scheduler.run('manual')).resolves.toBe(report);
+    expect(triggers).toEqual(['schedule', 'manual']);
+  });
+});
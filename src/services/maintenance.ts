@@ -0,0 +1,249 @@
+import type { Prisma } from '@prisma/client';
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import { deleteExpiredAnonymousSessions } from './anonymous-sessions.js';
+import { sendInvitationExpiredEmail } from './invitation-emails.js';
+import { leaveInvitedMembership, MembershipTransitionError } from './memberships.js';
+
+// Rows deleted per statement, so purging a large backlog does not hold one huge transaction
+const DELETE_BATCH_SIZE = 5000;
+
+export type MaintenanceTrigger = 'schedule' | 'manual';
+
+export interface MaintenanceReport {
+  locationsDeleted: number;
+  anonymousSessionsDeleted: number;
+  shareLinksDeleted: number;
+  invitationsDeleted: number;
+}
+
+/**
+ * Locations recorded before this instant are past a retention of `days`
+ */
+export function retentionCutoff(days: number, now = new Date()): Date {
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+async function deleteLocationsInBatches(where: Prisma.locationsWhereInput): Promise<number> {
+  let deleted = 0;
+
+  for (;;) {
+    const rows = await db.locations.findMany({
+      where,
+      select: { id: true },
+      take: DELETE_BATCH_SIZE,
+    });
+    if (rows.length === 0) {
+      return deleted;
+    }
+
+    const { count } = await db.locations.deleteMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+    });
+    deleted += count;
+
+    if (rows.length < DELETE_BATCH_SIZE) {
+      return deleted;
+    }
+  }
+}
+
+/**
+ * Which locations are past retention, one filter per deletion pass
+ * Groups with location_retention_days use their own; the rest use globalDays (kept
+ * forever when it is undefined). A location belongs to the group it is stored with.
+ */
+export function locationRetentionFilters(
+  overrides: { id: string; location_retention_days: number }[],
+  globalDays: number | undefined,
+  now = new Date()
+): Prisma.locationsWhereInput[] {
+  const filters: Prisma.locationsWhereInput[] = overrides.map((group) => ({
+    group_id: group.id,
+    recorded_at: { lt: retentionCutoff(group.location_retention_days, now) },
+  }));
+
+  if (globalDays !== undefined) {
+    filters.push({
+      group_id: { notIn: overrides.map((group) => group.id) },
+      recorded_at: { lt: retentionCutoff(globalDays, now) },
+    });
+  }
+
+  return filters;
+}
+
+/**
+ * Delete locations older than their group's retention
+ * See locationRetentionFilters; the global retention is LOCATION_RETENTION_DAYS.
+ * @returns Number of locations deleted
+ */
+export async function purgeExpiredLocations(now = new Date()): Promise<number> {
+  const overrides = await db.groups.findMany({
+    where: { location_retention_days: { not: null } },
+    select: { id: true, location_retention_days: true },
+  });
+
+  const filters = locationRetentionFilters(
+    overrides.flatMap(({ id, location_retention_days }) =>
+      location_retention_days !== null ? [{ id, location_retention_days }] : []
+    ),
+    env.LOCATION_RETENTION_DAYS,
+    now
+  );
+
+  let deleted = 0;
+  for (const where of filters) {
+    deleted += await deleteLocationsInBatches(where);
+  }
+  return deleted;
+}
+
+/**
+ * Delete share links past their expiry
+ */
+export async function deleteExpiredShareLinks(now = new Date()): Promise<number> {
+  const { count } = await db.share_links.deleteMany({
+    where: { expires_at: { lt: now } },
+  });
+  return count;
+}
+
+/**
+ * Delete invitations that expired without being accepted
+ * Accepted invitations are kept as the record of how a member joined. Users still
+ * invited through an expired invitation leave the group, and their inviter is emailed.
+ */
+export async function deleteExpiredInvitations(now = new Date()): Promise<number> {
+  const expired = await db.group_invitations.findMany({
+    where: { expires_at: { lt: now }, status: 'pending' },
+    include: { groups: { select: { name: true } }, users: { select: { email: true, name: true } } },
+  });
+
+  // One at a time, so only the instance that deletes an invitation sends its email
+  let deleted = 0;
+  for (const invitation of expired) {
+    let removed: number;
+    try {
+      removed = await db.$transaction(async (tx) => {
+        const { count } = await tx.group_invitations.deleteMany({
+          where: { id: invitation.id, status: 'pending' },
+        });
+        if (count > 0) {
+          await leaveInvitedMembership(tx, invitation.group_id, invitation.user_id);
+        }
+        return count;
+      });
+    } catch (error) {
+      // The membership changed while the invitation was being deleted; it was answered meanwhile
+      if (error instanceof MembershipTransitionError) continue;
+      throw error;
+    }
+    if (removed > 0) {
+      deleted += removed;
+      await sendInvitationExpiredEmail(invitation);
+    }
+  }
+
+  const { count } = await db.group_invitations.deleteMany({
+    where: { expires_at: { lt: now }, status: 'rejected' },
+  });
+  return deleted + count;
+}
+
+/**
+ * Apply retention and remove expired tokens, recorded in maintenance_runs
+ */
+async function runMaintenance(trigger: MaintenanceTrigger): Promise<MaintenanceReport> {
+  const run = await db.maintenance_runs.create({ data: { trigger } });
+  const now = run.started_at;
+
+  try {
+    const report: MaintenanceReport = {
+      locationsDeleted: await purgeExpiredLocations(now),
+      anonymousSessionsDeleted: await deleteExpiredAnonymousSessions(),
+      shareLinksDeleted: await deleteExpiredShareLinks(now),
+      invitationsDeleted: await deleteExpiredInvitations(now),
+    };
+
+    await db.maintenance_runs.update({
+      where: { id: run.id },
+      data: {
+        finished_at: new Date(),
+        locations_deleted: report.locationsDeleted,
+        anonymous_sessions_deleted: report.anonymousSessionsDeleted,
+        share_links_deleted: report.shareLinksDeleted,
+        invitations_deleted: report.invitationsDeleted,
+      },
+    });
+    return report;
+  } catch (error) {
+    await db.maintenance_runs
+      .update({
+        where: { id: run.id },
+        data: { finished_at: new Date(), error: String(error) },
+      })
+      .catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Maintenance Scheduler
+ *
+ * Periodically applies data retention and removes expired tokens. Every run is recorded
+ * in maintenance_runs. With several instances each one runs the job; the deletes are
+ * idempotent, so overlapping runs only find less to do.
+ */
+export class MaintenanceScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<MaintenanceReport> | null = null;
+
+  constructor(
+    private readonly job: (
+      trigger: MaintenanceTrigger
+    ) => Promise<MaintenanceReport> = runMaintenance
+  ) {}
+
+  /**
+   * Run maintenance now; joins the run in progress if there is one
+   */
+  run(trigger: MaintenanceTrigger): Promise<MaintenanceReport> {
+    if (!this.running) {
+      this.running = this.job(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Start running maintenance every MAINTENANCE_INTERVAL_MS
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.run('schedule').catch((error) => {
+        console.error('[Maintenance] Run failed', { error });
+      });
+    }, env.MAINTENANCE_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop scheduling runs and wait for a running one to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => {});
+  }
+}
+
+// Singleton instance
+export const maintenanceScheduler = new MaintenanceScheduler();
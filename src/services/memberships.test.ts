@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import { locationBus, type GroupEvent } from './bus.js';
+import { locationBatcher } from './location-batcher.js';
+import {
+  MembershipTransitionError,
+  canTransitionMembership,
+  checkMemberRevocation,
+  leaveInvitedMembership,
+  revokeMembership,
+} from './memberships.js';
+
+describe('canTransitionMembership', () => {
+  it('lets users outside the group request to join, be invited or be added', () => {
+    expect(canTransitionMembership(null, 'pending_request')).toBe(true);
+    expect(canTransitionMembership(null, 'invited')).toBe(true);
+    expect(canTransitionMembership(null, 'active')).toBe(true);
+    expect(canTransitionMembership(null, 'suspended')).toBe(false);
+  });
+
+  it('only suspends active members', () => {
+    expect(canTransitionMembership('active', 'suspended')).toBe(true);
+    expect(canTransitionMembership('invited', 'suspended')).toBe(false);
+    expect(canTransitionMembership('suspended', 'active')).toBe(true);
+  });
+
+  it('lets former members rejoin but keeps removed users out until invited', () => {
+    expect(canTransitionMembership('left', 'pending_request')).toBe(true);
+    expect(canTransitionMembership('removed', 'pending_request')).toBe(false);
+    expect(canTransitionMembership('removed', 'active')).toBe(false);
+    expect(canTransitionMembership('removed', 'invited')).toBe(true);
+  });
+
+  it('allows staying in the same status', () => {
+    expect(canTransitionMembership('active', 'active')).toBe(true);
+    expect(canTransitionMembership('removed', 'removed')).toBe(true);
+  });
+});
+
+describe('MembershipTransitionError', () => {
+  it('reports a conflict with both statuses', () => {
+    const error = new MembershipTransitionError('removed', 'active');
+    expect(error.statusCode).toBe(409);
+    expect(error.message).toBe('Membership cannot change from removed to active');
+  });
+});
+
+describe('checkMemberRevocation', () => {
+  const owner = { userId: 'owner', role: 'owner' as const };
+  const admin = { userId: 'admin', role: 'admin' as const };
+  const member = { role: 'member', status: 'active' as const };
+
+  it('lets owners and admins remove or suspend members', () => {
+    expect(checkMemberRevocation(owner, 'member', member, 'owner')).toEqual({
+      allowed: true,
+      membership: member,
+    });
+    expect(checkMemberRevocation(admin, 'member', member, 'owner').allowed).toBe(true);
+  });
+
+  it('keeps admins to the owner', () => {
+    const otherAdmin = { role: 'admin', status: 'active' as const };
+    expect(checkMemberRevocation(owner, 'admin-2', otherAdmin, 'owner').allowed).toBe(true);
+    expect(checkMemberRevocation(admin, 'admin-2', otherAdmin, 'owner')).toEqual({
+      allowed: false,
+      statusCode: 403,
+      message: 'Only the group owner can remove or suspend an admin',
+    });
+  });
+
+  it('protects the owner, even without a membership row', () => {
+    expect(checkMemberRevocation(admin, 'owner', null, 'owner')).toMatchObject({
+      allowed: false,
+      statusCode: 409,
+    });
+  });
+
+  it('sends users removing themselves to the leave endpoint', () => {
+    expect(checkMemberRevocation(admin, 'admin', member, 'owner')).toMatchObject({
+      allowed: false,
+      statusCode: 400,
+    });
+  });
+
+  it('does not find users who are no longer in the group', () => {
+    for (const membership of [null, { ...member, status: 'left' as const }]) {
+      expect(checkMemberRevocation(owner, 'member', membership, 'owner')).toMatchObject({
+        allowed: false,
+        statusCode: 404,
+      });
+    }
+  });
+});
+
+// Revoking runs in a transaction, so these need a database
+describe.skipIf(!env.DATABASE_URL)('revokeMembership', () => {
+  const userIds = ['revoke-owner', 'revoke-member'];
+  let groupId: string;
+  let events: GroupEvent[];
+  let unsubscribe: () => void;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: { in: userIds } } });
+    await db.users.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const id of userIds) {
+      await db.users.create({ data: { id, email: `${id}@test.example.com` } });
+    }
+    const group = await db.groups.create({ data: { name: 'Revoke', owner_id: 'revoke-owner' } });
+    groupId = group.id;
+    await db.group_members.createMany({
+      data: [
+        { group_id: groupId, user_id: 'revoke-owner', status: 'active', role: 'owner' },
+        { group_id: groupId, user_id: 'revoke-member', status: 'active', role: 'member' },
+      ],
+    });
+
+    events = [];
+    unsubscribe = locationBus.subscribeForTesting(groupId, (event) => {
+      events.push(event);
+    });
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    locationBatcher.shutdown();
+    await cleanUp();
+  });
+
+  it('should end shares, drop queued updates and emit member.removed', async () => {
+    await db.location_shares.create({
+      data: {
+        id: 'revoke-share',
+        user_id: 'revoke-member',
+        group_id: groupId,
+        device_id: 'revoke-phone',
+        updated_at: new Date(),
+      },
+    });
+    const payload = {
+      id: 'revoke-location',
+      deviceId: 'revoke-phone',
+      latitude: 51.5,
+      longitude: -0.12,
+      recordedAt: new Date(),
+    };
+    locationBatcher.queueLocationUpdate(groupId, payload, 'revoke-member', 'revoke-phone', 60);
+    expect(locationBatcher.snapshot().map((state) => state.groupId)).toContain(groupId);
+
+    const membership = await revokeMembership(
+      groupId,
+      'revoke-member',
+      'suspended',
+      'revoke-owner'
+    );
+
+    expect(membership).toMatchObject({ status: 'suspended', role: 'member' });
+    expect(await db.location_shares.findUnique({ where: { id: 'revoke-share' } })).toMatchObject({
+      is_active: false,
+    });
+    // Groups without queued updates are left out of snapshots
+    expect(locationBatcher.snapshot().map((state) => state.groupId)).not.toContain(groupId);
+    expect(events.map((event) => event.type)).toEqual(['share.ended', 'member.removed']);
+    expect(events[1].data).toMatchObject({
+      userId: 'revoke-member',
+      reason: 'suspended',
+      removedBy: 'revoke-owner',
+    });
+  });
+
+  it('should withdraw a pending invitation when removing the user', async () => {
+    await db.group_members.update({
+      where: { group_id_user_id: { group_id: groupId, user_id: 'revoke-member' } },
+      data: { status: 'invited' },
+    });
+    await db.group_invitations.create({
+      data: {
+        id: 'revoke-invitation',
+        group_id: groupId,
+        user_id: 'revoke-member',
+        invited_by: 'revoke-owner',
+        updated_at: new Date(),
+      },
+    });
+
+    await revokeMembership(groupId, 'revoke-member', 'removed', 'revoke-owner');
+
+    expect(await db.group_invitations.count({ where: { id: 'revoke-invitation' } })).toBe(0);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'member.removed',
+        data: expect.objectContaining({ reason: 'removed' }),
+      }),
+    ]);
+  });
+
+  it('should not revoke a membership that cannot move to the status', async () => {
+    await db.group_members.update({
+      where: { group_id_user_id: { group_id: groupId, user_id: 'revoke-member' } },
+      data: { status: 'invited' },
+    });
+
+    await expect(
+      revokeMembership(groupId, 'revoke-member', 'suspended', 'revoke-owner')
+    ).rejects.toBeInstanceOf(MembershipTransitionError);
+    expect(events).toEqual([]);
+  });
+});
+
+describe.skipIf(!env.DATABASE_URL)('leaveInvitedMembership', () => {
+  const userIds = ['leave-invited-owner', 'leave-invited-user'];
+  let groupId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: { in: userIds } } });
+    await db.users.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  async function statusAfterLeaving(status: 'invited' | 'active'): Promise<string | undefined> {
+    await db.group_members.create({
+      data: { group_id: groupId, user_id: 'leave-invited-user', status },
+    });
+    await db.$transaction((tx) => leaveInvitedMembership(tx, groupId, 'leave-invited-user'));
+
+    const membership = await db.group_members.findUnique({
+      where: { group_id_user_id: { group_id: groupId, user_id: 'leave-invited-user' } },
+    });
+    return membership?.status;
+  }
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const id of userIds) {
+      await db.users.create({ data: { id, email: `${id}@test.example.com` } });
+    }
+    const group = await db.groups.create({
+      data: { name: 'Leave invited', owner_id: 'leave-invited-owner' },
+    });
+    groupId = group.id;
+  });
+
+  afterEach(cleanUp);
+
+  it('should move an invited membership to left', async () => {
+    expect(await statusAfterLeaving('invited')).toBe('left');
+  });
+
+  it('should keep a membership that is no longer invited', async () => {
+    expect(await statusAfterLeaving('active')).toBe('active');
+  });
+});
@@ -0,0 +1,294 @@
+import type { Prisma, invitation_status, membership_status } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { prisma as db } from '../db.js';
+import type { GroupRole } from '../utils/group-permissions.js';
+import { isUniqueViolation } from '../utils/idempotency.js';
+import { locationBus, type MemberRemovedEventData } from './bus.js';
+import { locationBatcher } from './location-batcher.js';
+import { endLocationShare } from './location-shares.js';
+
+/**
+ * Where a user stands in a group
+ * - pending_request: asked to join, waiting for an owner or admin
+ * - invited: has an open invitation (see group_invitations)
+ * - active: a member; the only status that grants the membership's role
+ * - suspended: temporarily without access, keeps their role for when they are reinstated
+ * - left: left the group, declined an invitation or withdrew a request
+ * - removed: removed by an owner or admin, or had their join request turned down
+ */
+export const MEMBERSHIP_STATUSES = [
+  'pending_request',
+  'invited',
+  'active',
+  'suspended',
+  'left',
+  'removed',
+] as const satisfies readonly membership_status[];
+
+export type MembershipStatus = membership_status;
+
+export const INVITATION_STATUSES = [
+  'pending',
+  'accepted',
+  'rejected',
+] as const satisfies readonly invitation_status[];
+
+export type InvitationStatus = invitation_status;
+
+// Statuses a membership can move to from each status; none is a user without a membership.
+// Staying in the same status is always allowed.
+const TRANSITIONS: Record<MembershipStatus | 'none', readonly MembershipStatus[]> = {
+  none: ['pending_request', 'invited', 'active'],
+  pending_request: ['invited', 'active', 'left', 'removed'],
+  invited: ['active', 'left', 'removed'],
+  active: ['suspended', 'left', 'removed'],
+  suspended: ['active', 'left', 'removed'],
+  left: ['pending_request', 'invited'],
+  // A removed user only comes back when invited
+  removed: ['invited'],
+};
+
+/**
+ * Raised when a membership cannot move to the requested status
+ * Carries a 409 status code for the error handler.
+ */
+export class MembershipTransitionError extends Error {
+  readonly statusCode = 409;
+
+  constructor(
+    readonly from: MembershipStatus | null,
+    readonly to: MembershipStatus
+  ) {
+    super(
+      from === null
+        ? `A user outside the group cannot become ${to}`
+        : `Membership cannot change from ${from} to ${to}`
+    );
+    this.name = 'MembershipTransitionError';
+  }
+}
+
+export function canTransitionMembership(
+  from: MembershipStatus | null,
+  to: MembershipStatus
+): boolean {
+  return from === to || TRANSITIONS[from ?? 'none'].includes(to);
+}
+
+/**
+ * Move a user's membership of a group to a new status, creating it when there is none
+ * The update is conditional on the status it was read with, so a concurrent change
+ * fails with MembershipTransitionError instead of being overwritten.
+ * @param options.role - Role to set along with the status (new memberships default to member)
+ * @param options.client - Transaction to run in
+ */
+export async function transitionMembership(
+  groupId: string,
+  userId: string,
+  to: MembershipStatus,
+  options: { role?: string; client?: Prisma.TransactionClient } = {}
+) {
+  const client = options.client ?? db;
+  const where = { group_id_user_id: { group_id: groupId, user_id: userId } };
+
+  const current = await client.group_members.findUnique({ where });
+  const from = current?.status ?? null;
+  if (!canTransitionMembership(from, to)) {
+    throw new MembershipTransitionError(from, to);
+  }
+
+  if (!current) {
+    try {
+      return await client.group_members.create({
+        data: { group_id: groupId, user_id: userId, status: to, role: options.role },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new MembershipTransitionError(null, to);
+      }
+      throw error;
+    }
+  }
+
+  const { count } = await client.group_members.updateMany({
+    where: { id: current.id, status: current.status },
+    data: { status: to, ...(options.role && { role: options.role }) },
+  });
+  if (count === 0) {
+    throw new MembershipTransitionError(from, to);
+  }
+
+  return { ...current, status: to, role: options.role ?? current.role };
+}
+
+/**
+ * Move a membership that is still invited to left, as when its invitation is declined or expires
+ * Memberships that moved on from invited, such as one made active meanwhile, are kept.
+ */
+export async function leaveInvitedMembership(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+  userId: string
+): Promise<void> {
+  const membership = await tx.group_members.findUnique({
+    where: { group_id_user_id: { group_id: groupId, user_id: userId } },
+    select: { status: true },
+  });
+  if (membership?.status === 'invited') {
+    await transitionMembership(groupId, userId, 'left', { client: tx });
+  }
+}
+
+/**
+ * Invite a user to a group
+ * Moves their membership to invited and opens an invitation, replacing one they already
+ * answered. Throws MembershipTransitionError when the user is a member already.
+ */
+export async function inviteToGroup(invitation: {
+  groupId: string;
+  userId: string;
+  invitedBy: string;
+  expiresAt?: Date;
+}) {
+  const { groupId, userId } = invitation;
+  const now = new Date();
+
+  return db.$transaction(async (tx) => {
+    await transitionMembership(groupId, userId, 'invited', { client: tx });
+
+    return tx.group_invitations.upsert({
+      where: { group_id_user_id: { group_id: groupId, user_id: userId } },
+      create: {
+        id: nanoid(),
+        group_id: groupId,
+        user_id: userId,
+        invited_by: invitation.invitedBy,
+        status: 'pending',
+        expires_at: invitation.expiresAt,
+        updated_at: now,
+      },
+      update: {
+        invited_by: invitation.invitedBy,
+        status: 'pending',
+        expires_at: invitation.expiresAt ?? null,
+        accepted_at: null,
+        rejected_at: null,
+        updated_at: now,
+      },
+    });
+  });
+}
+
+/**
+ * Answer a pending invitation
+ * Accepting makes the user an active member; rejecting moves a membership that is still
+ * invited to left. Throws MembershipTransitionError when the user can no longer join,
+ * such as after being removed from the group.
+ */
+export async function answerInvitation(
+  invitation: { id: string; group_id: string; user_id: string },
+  answer: 'accepted' | 'rejected'
+) {
+  const now = new Date();
+
+  return db.$transaction(async (tx) => {
+    if (answer === 'accepted') {
+      await transitionMembership(invitation.group_id, invitation.user_id, 'active', {
+        client: tx,
+      });
+    } else {
+      await leaveInvitedMembership(tx, invitation.group_id, invitation.user_id);
+    }
+
+    return tx.group_invitations.update({
+      where: { id: invitation.id },
+      data: {
+        status: answer,
+        ...(answer === 'accepted' ? { accepted_at: now } : { rejected_at: now }),
+        updated_at: now,
+      },
+    });
+  });
+}
+
+export type MemberRevocationCheck<M> =
+  | { allowed: true; membership: M }
+  | { allowed: false; statusCode: 400 | 403 | 404 | 409; message: string };
+
+/**
+ * Whether a user who manages members may remove or suspend another user of the group
+ * Users leave rather than remove themselves, the owner cannot be removed or suspended, and
+ * only the owner can act on an admin. Users without a current membership are not found.
+ * @param actor - The acting user, whose role must already grant members:manage
+ * @param membership - The target's membership, null when they have none
+ */
+export function checkMemberRevocation<M extends { role: string; status: MembershipStatus }>(
+  actor: { userId: string; role: GroupRole },
+  targetUserId: string,
+  membership: M | null,
+  ownerId: string
+): MemberRevocationCheck<M> {
+  if (targetUserId === actor.userId) {
+    return {
+      allowed: false,
+      statusCode: 400,
+      message: 'Use the leave endpoint to leave the group',
+    };
+  }
+  if (targetUserId === ownerId) {
+    return {
+      allowed: false,
+      statusCode: 409,
+      message: 'The group owner cannot be removed or suspended',
+    };
+  }
+  if (!membership || membership.status === 'left' || membership.status === 'removed') {
+    return { allowed: false, statusCode: 404, message: 'Member not found' };
+  }
+  if (actor.role !== 'owner' && membership.role === 'admin') {
+    return {
+      allowed: false,
+      statusCode: 403,
+      message: 'Only the group owner can remove or suspend an admin',
+    };
+  }
+  return { allowed: true, membership };
+}
+
+/**
+ * Suspend or remove a member of a group on behalf of an owner or admin
+ * Ends the member's active location shares and drops their batched updates, then emits
+ * `member.removed` on the group's stream. Removing a user also withdraws their pending
+ * invitation. Throws MembershipTransitionError when the membership cannot move to the status.
+ */
+export async function revokeMembership(
+  groupId: string,
+  userId: string,
+  status: MemberRemovedEventData['reason'],
+  revokedBy: string
+) {
+  const membership = await db.$transaction(async (tx) => {
+    const updated = await transitionMembership(groupId, userId, status, { client: tx });
+    if (status === 'removed') {
+      await tx.group_invitations.deleteMany({
+        where: { group_id: groupId, user_id: userId, status: 'pending' },
+      });
+    }
+    return updated;
+  });
+
+  const shares = await db.location_shares.findMany({
+    where: { group_id: groupId, user_id: userId, is_active: true },
+  });
+  for (const share of shares) {
+    await endLocationShare(share, 'revoked');
+  }
+  locationBatcher.dropQueuedUpdates(groupId, userId);
+
+  locationBus.publishEvent(groupId, {
+    type: 'member.removed',
+    data: { groupId, userId, reason: status, removedBy: revokedBy, removedAt: new Date() },
+  });
+
+  return membership;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import {
+  OWNERSHIP_TRANSFER_TTL_MS,
+  applyOwnershipTransfer,
+  isTransferExpired,
+} from './ownership-transfers.js';
+
+describe('isTransferExpired', () => {
+  const now = new Date('2026-01-01T12:00:00Z');
+
+  it('keeps a transfer open until it expires', () => {
+    const expiresAt = new Date(now.getTime() + OWNERSHIP_TRANSFER_TTL_MS);
+    expect(isTransferExpired({ expires_at: expiresAt }, now)).toBe(false);
+    expect(isTransferExpired({ expires_at: expiresAt }, expiresAt)).toBe(true);
+  });
+
+  it('never expires a transfer without an expiry', () => {
+    expect(isTransferExpired({ expires_at: null }, now)).toBe(false);
+  });
+});
+
+// Transfers run in a transaction, so these need a database
+describe.skipIf(!env.DATABASE_URL)('applyOwnershipTransfer', () => {
+  const userIds = ['transfer-owner', 'transfer-admin', 'transfer-member'];
+  let groupId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: { in: userIds } } });
+    await db.users.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  function membershipsByUser() {
+    return db.group_members
+      .findMany({ where: { group_id: groupId }, select: { user_id: true, role: true } })
+      .then((rows) => Object.fromEntries(rows.map((row) => [row.user_id, row.role])));
+  }
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const id of userIds) {
+      await db.users.create({ data: { id, email: `${id}@test.example.com` } });
+    }
+    const group = await db.groups.create({
+      data: { name: 'Transfer', owner_id: 'transfer-owner' },
+    });
+    groupId = group.id;
+    await db.group_members.createMany({
+      data: [
+        { group_id: groupId, user_id: 'transfer-owner', status: 'active', role: 'owner' },
+        { group_id: groupId, user_id: 'transfer-admin', status: 'active', role: 'admin' },
+        { group_id: groupId, user_id: 'transfer-member', status: 'active', role: 'member' },
+      ],
+    });
+  });
+
+  afterEach(cleanUp);
+
+  it('should hand the group over, keep the former owner as an admin and record it', async () => {
+    const transferred = await db.$transaction((tx) =>
+      applyOwnershipTransfer(tx, {
+        groupId,
+        fromUserId: 'transfer-owner',
+        toUserId: 'transfer-member',
+        reason: 'owner_left',
+      })
+    );
+
+    expect(transferred).toBe(true);
+    expect(await db.groups.findUnique({ where: { id: groupId } })).toMatchObject({
+      owner_id: 'transfer-member',
+    });
+    expect(await membershipsByUser()).toEqual({
+      'transfer-owner': 'admin',
+      'transfer-admin': 'admin',
+      'transfer-member': 'owner',
+    });
+    expect(await db.group_ownership_transfers.findMany({ where: { group_id: groupId } })).toEqual([
+      expect.objectContaining({
+        from_user_id: 'transfer-owner',
+        to_user_id: 'transfer-member',
+        reason: 'owner_left',
+        status: 'accepted',
+      }),
+    ]);
+  });
+
+  it('should complete the given transfer and cancel the other pending ones', async () => {
+    const [accepted, other] = await Promise.all(
+      ['transfer-admin', 'transfer-member'].map((toUserId) =>
+        db.group_ownership_transfers.create({
+          data: { group_id: groupId, from_user_id: 'transfer-owner', to_user_id: toUserId },
+        })
+      )
+    );
+
+    await db.$transaction((tx) =>
+      applyOwnershipTransfer(tx, {
+        groupId,
+        fromUserId: 'transfer-owner',
+        toUserId: 'transfer-admin',
+        reason: 'transfer',
+        transferId: accepted.id,
+      })
+    );
+
+    const statuses = await db.group_ownership_transfers.findMany({
+      where: { group_id: groupId },
+      select: { id: true, status: true },
+    });
+    expect(statuses).toEqual(
+      expect.arrayContaining([
+        { id: accepted.id, status: 'accepted' },
+        { id: other.id, status: 'cancelled' },
+      ])
+    );
+    expect(statuses).toHaveLength(2);
+  });
+
+  it('should change nothing when the user no longer owns the group', async () => {
+    const transferred = await db.$transaction((tx) =>
+      applyOwnershipTransfer(tx, {
+        groupId,
+        fromUserId: 'transfer-admin',
+        toUserId: 'transfer-member',
+        reason: 'transfer',
+      })
+    );
+
+    expect(transferred).toBe(false);
+    expect(await db.groups.findUnique({ where: { id: groupId } })).toMatchObject({
+      owner_id: 'transfer-owner',
+    });
+    expect(await membershipsByUser()).toMatchObject({ 'transfer-member': 'member' });
+    expect(await db.group_ownership_transfers.count({ where: { group_id: groupId } })).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import type { Prisma } from '@prisma/client';
+import { transitionMembership } from './memberships.js';
+
+// How long the target member has to accept a requested transfer
+export const OWNERSHIP_TRANSFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Why a group changed hands
+ * - transfer: the owner requested it and the new owner accepted
+ * - owner_left: the owner left the group and an admin took over
+ * - account_erased: the owner erased their account (see eraseUserData)
+ */
+export type OwnershipTransferReason = 'transfer' | 'owner_left' | 'account_erased';
+
+export type OwnershipTransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+/**
+ * Whether a pending transfer can no longer be accepted
+ */
+export function isTransferExpired(
+  transfer: { expires_at: Date | null },
+  now = new Date()
+): boolean {
+  return transfer.expires_at !== null && transfer.expires_at <= now;
+}
+
+/**
+ * Longest-standing active member who can take over a group
+ * @param roles - Roles to consider, in order of preference
+ */
+export async function findSuccessor(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+  ownerId: string,
+  roles: string[]
+): Promise<string | null> {
+  for (const role of roles) {
+    const member = await tx.group_members.findFirst({
+      where: {
+        group_id: groupId,
+        user_id: { not: ownerId },
+        status: 'active',
+        role,
+      },
+      orderBy: { created_at: 'asc' },
+      select: { user_id: true },
+    });
+    if (member) {
+      return member.user_id;
+    }
+  }
+  return null;
+}
+
+/**
+ * Make another member the owner of a group, within a transaction
+ * Groups have a single owner, so ownership moves rather than being shared: the new owner's
+ * membership takes the owner role and the former owner stays on as an admin
+ * (callers removing them delete that membership afterwards). Other pending transfers of the
+ * group are cancelled. The change is recorded as an accepted transfer, or completes the
+ * pending transfer given as `transferId`.
+ * @returns false when `fromUserId` no longer owns the group
+ */
+export async function applyOwnershipTransfer(
+  tx: Prisma.TransactionClient,
+  transfer: {
+    groupId: string;
+    fromUserId: string;
+    toUserId: string;
+    reason: OwnershipTransferReason;
+    transferId?: string;
+  }
+): Promise<boolean> {
+  const { groupId, fromUserId, toUserId } = transfer;
+  const now = new Date();
+
+  // Conditional on the current owner, so two concurrent transfers cannot both succeed
+  const { count } = await tx.groups.updateMany({
+    where: { id: groupId, owner_id: fromUserId },
+    data: { owner_id: toUserId },
+  });
+  if (count === 0) {
+    return false;
+  }
+
+  await transitionMembership(groupId, toUserId, 'active', { role: 'owner', client: tx });
+  await transitionMembership(groupId, fromUserId, 'active', { role: 'admin', client: tx });
+
+  if (transfer.transferId) {
+    await tx.group_ownership_transfers.update({
+      where: { id: transfer.transferId },
+      data: { status: 'accepted', responded_at: now },
+    });
+  } else {
+    await tx.group_ownership_transfers.create({
+      data: {
+        group_id: groupId,
+        from_user_id: fromUserId,
+        to_user_id: toUserId,
+        reason: transfer.reason,
+        status: 'accepted',
+        responded_at: now,
+      },
+    });
+  }
+
+  await tx.group_ownership_transfers.updateMany({
+    where: {
+      group_id: groupId,
+      status: 'pending',
+      ...(transfer.transferId && { id: { not: transfer.transferId } }),
+    },
+    data: { status: 'cancelled', responded_at: now },
+  });
+
+  return true;
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { GroupEvent } from './bus.js';
+import { createStreamFilter, matchesStreamScope, parseBoundingBox } from './stream-filters.js';
+
+function locationEvent(deviceId: string, latitude: number, longitude: number): GroupEvent {
+  return {
+    type: 'location',
+    data: { groupId: 'group-1', deviceId, latitude, longitude, recordedAt: new Date() },
+  };
+}
+
+describe('matchesStreamScope', () => {
+  it('should match every event when the scope is empty', () => {
+    expect(matchesStreamScope({}, locationEvent('device-1', 10, 10))).toBe(true);
+  });
+
+  it('should filter by device', () => {
+    const scope = { deviceIds: ['device-1'] };
+    expect(matchesStreamScope(scope, locationEvent('device-1', 0, 0))).toBe(true);
+    expect(matchesStreamScope(scope, locationEvent('device-2', 0, 0))).toBe(false);
+  });
+
+  it('should filter by bounding box', () => {
+    const scope = { bbox: [-10, -10, 10, 10] as [number, number, number, number] };
+    expect(matchesStreamScope(scope, locationEvent('device-1', 5, 5))).toBe(true);
+    expect(matchesStreamScope(scope, locationEvent('device-1', 5, 20))).toBe(false);
+  });
+
+  it('should require both device and bounding box when both are set', () => {
+    const scope = {
+      deviceIds: ['device-1'],
+      bbox: [-10, -10, 10, 10] as [number, number, number, number],
+    };
+    expect(matchesStreamScope(scope, locationEvent('device-1', 5, 5))).toBe(true);
+    expect(matchesStreamScope(scope, locationEvent('device-2', 5, 5))).toBe(false);
+    expect(matchesStreamScope(scope, locationEvent('device-1', 50, 5))).toBe(false);
+  });
+
+  it('should apply only the device part of the scope to share events', () => {
+    const shareEnded = (deviceId: string | null): GroupEvent => ({
+      type: 'share.ended',
+      data: {
+        groupId: 'group-1',
+        shareId: 'share-1',
+        userId: 'user-1',
+        deviceId,
+        reason: 'expired',
+        startedAt: new Date(),
+        endedAt: new Date(),
+      },
+    });
+    const bbox = [-10, -10, 10, 10] as [number, number, number, number];
+
+    expect(matchesStreamScope({ bbox }, shareEnded(null))).toBe(true);
+    expect(matchesStreamScope({ deviceIds: ['device-1'], bbox }, shareEnded('device-1'))).toBe(
+      true
+    );
+    expect(matchesStreamScope({ deviceIds: ['device-1'] }, shareEnded('device-2'))).toBe(false);
+    expect(matchesStreamScope({ deviceIds: ['device-1'] }, shareEnded(null))).toBe(false);
+  });
+
+  it('should only send member events to streams without a device list', () => {
+    const memberRemoved: GroupEvent = {
+      type: 'member.removed',
+      data: {
+        groupId: 'group-1',
+        userId: 'user-1',
+        reason: 'suspended',
+        removedBy: 'user-2',
+        removedAt: new Date(),
+      },
+    };
+
+    expect(matchesStreamScope({ bbox: [-10, -10, 10, 10] }, memberRemoved)).toBe(true);
+    expect(matchesStreamScope({ deviceIds: ['device-1'] }, memberRemoved)).toBe(false);
+  });
+});
+
+describe('createStreamFilter', () => {
+  const at = (deviceId: string, latitude: number, longitude: number, second: number) =>
+    ({
+      type: 'location',
+      data: {
+        groupId: 'group-1',
+        deviceId,
+        latitude,
+        longitude,
+        recordedAt: new Date(Date.UTC(2025, 0, 1, 12, 0, second)),
+      },
+    }) satisfies GroupEvent;
+
+  it('should skip locations that moved less than minDistanceMeters', () => {
+    const accepts = createStreamFilter({ minDistanceMeters: 100 });
+
+    expect(accepts(at('device-1', 0, 0, 0))).toBe(true);
+    // ~11m north
+    expect(accepts(at('device-1', 0.0001, 0, 1))).toBe(false);
+    // ~111m north of the last sent location
+    expect(accepts(at('device-1', 0.001, 0, 2))).toBe(true);
+  });
+
+  it('should skip locations recorded sooner than minIntervalSeconds', () => {
+    const accepts = createStreamFilter({ minIntervalSeconds: 10 });
+
+    expect(accepts(at('device-1', 0, 0, 0))).toBe(true);
+    expect(accepts(at('device-1', 1, 1, 5))).toBe(false);
+    expect(accepts(at('device-1', 1, 1, 10))).toBe(true);
+  });
+
+  it('should track each device separately', () => {
+    const accepts = createStreamFilter({ minIntervalSeconds: 10 });
+
+    expect(accepts(at('device-1', 0, 0, 0))).toBe(true);
+    expect(accepts(at('device-2', 0, 0, 1))).toBe(true);
+  });
+
+  it('should never throttle geofence events', () => {
+    const accepts = createStreamFilter({ minIntervalSeconds: 60 });
+    const geofenceEvent: GroupEvent = {
+      type: 'geofence.enter',
+      data: { ...at('device-1', 0, 0, 1).data, geofenceId: 'fence-1', geofenceName: 'Home' },
+    };
+
+    expect(accepts(at('device-1', 0, 0, 0))).toBe(true);
+    expect(accepts(geofenceEvent)).toBe(true);
+  });
+});
+
+describe('parseBoundingBox', () => {
+  it('should parse a comma separated box', () => {
+    expect(parseBoundingBox('-122.5, 37.7, -122.3, 37.9')).toEqual([-122.5, 37.7, -122.3, 37.9]);
+  });
+
+  it('should reject malformed or out of range boxes', () => {
+    expect(parseBoundingBox('1,2,3')).toBeNull();
+    expect(parseBoundingBox('a,b,c,d')).toBeNull();
+    expect(parseBoundingBox('0,0,200,10')).toBeNull();
+    expect(parseBoundingBox('0,10,10,0')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { haversineDistanceMeters, isInBoundingBox, type BoundingBox } from '../utils/geo.js';
+import type { GroupEvent } from './bus.js';
+
+/**
+ * Narrows a stream to part of a group
+ * - deviceIds: only events for these devices
+ * - bbox: only events located inside this box
+ * - minDistanceMeters: skip locations less than this far from the last one sent for the device
+ * - minIntervalSeconds: skip locations recorded less than this long after the last one sent
+ *   for the device
+ * All are optional; a scope with none of them matches every event of the group.
+ * The movement thresholds only apply to location events, never to geofence or share events.
+ */
+export type StreamScope = {
+  deviceIds?: string[];
+  bbox?: BoundingBox;
+  minDistanceMeters?: number;
+  minIntervalSeconds?: number;
+};
+
+/**
+ * Whether a group event falls inside the device / bounding box part of a stream scope
+ * Location and geofence events carry a device and a position. Share events have no
+ * position, so only the device part applies to them; a share that covered all of a
+ * person's devices only reaches scopes without a device list, as do member events.
+ */
+export function matchesStreamScope(scope: StreamScope, event: GroupEvent): boolean {
+  if (event.type === 'member.removed') {
+    return !scope.deviceIds;
+  }
+
+  if (event.type === 'share.ended') {
+    const { deviceId } = event.data;
+    return !scope.deviceIds || (deviceId !== null && scope.deviceIds.includes(deviceId));
+  }
+
+  const { deviceId, latitude, longitude } = event.data;
+
+  if (scope.deviceIds && !scope.deviceIds.includes(deviceId)) {
+    return false;
+  }
+
+  if (scope.bbox && !isInBoundingBox({ latitude, longitude }, scope.bbox)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Build a per-subscriber filter for a stream scope
+ * The filter remembers the last location it let through for each device, so every
+ * subscriber gets its own instance.
+ */
+export function createStreamFilter(scope: StreamScope): (event: GroupEvent) => boolean {
+  const lastSent = new Map<string, { latitude: number; longitude: number; recordedAt: Date }>();
+  const throttled = scope.minDistanceMeters !== undefined || scope.minIntervalSeconds !== undefined;
+
+  return (event) => {
+    if (!matchesStreamScope(scope, event)) {
+      return false;
+    }
+
+    if (event.type !== 'location' || !throttled) {
+      return true;
+    }
+
+    const { deviceId, latitude, longitude } = event.data;
+    const recordedAt = new Date(event.data.recordedAt);
+    const previous = lastSent.get(deviceId);
+
+    if (previous) {
+      if (
+        scope.minDistanceMeters !== undefined &&
+        haversineDistanceMeters(previous, { latitude, longitude }) < scope.minDistanceMeters
+      ) {
+        return false;
+      }
+
+      if (
+        scope.minIntervalSeconds !== undefined &&
+        recordedAt.getTime() - previous.recordedAt.getTime() < scope.minIntervalSeconds * 1000
+      ) {
+        return false;
+      }
+    }
+
+    lastSent.set(deviceId, { latitude, longitude, recordedAt });
+    return true;
+  };
+}
+
+/**
+ * Parse a comma separated "minLng,minLat,maxLng,maxLat" query value
+ * @returns The bounding box, or null when the value is malformed or out of range
+ */
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  const validLng = (lng: number) => lng >= -180 && lng <= 180;
+  const validLat = (lat: number) => lat >= -90 && lat <= 90;
+  if (!validLng(minLng) || !validLng(maxLng) || !validLat(minLat) || !validLat(maxLat)) {
+    return null;
+  }
+  if (minLat > maxLat) {
+    return null;
+  }
+
+  return [minLng, minLat, maxLng, maxLat];
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import type { GroupEvent } from './bus.js';
+import { withQualityIssues } from './location-quality.js';
+import {
+  compareStreamPositions,
+  createReplayGate,
+  decodeStreamEventId,
+  encodeStreamEventId,
+  loadReplayLocations,
+} from './stream-replay.js';
+
+describe('Stream event IDs', () => {
+  const position = { receivedAt: new Date('2025-01-01T12:00:00.000Z'), id: 'abc_123-xyz' };
+
+  it('should round-trip a stream position', () => {
+    expect(decodeStreamEventId(encodeStreamEventId(position))).toEqual(position);
+  });
+
+  it('should reject malformed IDs', () => {
+    expect(decodeStreamEventId(undefined)).toBeNull();
+    expect(decodeStreamEventId('')).toBeNull();
+    expect(decodeStreamEventId('no-separator')).toBeNull();
+    expect(decodeStreamEventId('not-a-number:abc')).toBeNull();
+    expect(decodeStreamEventId('1735732800000:')).toBeNull();
+  });
+
+  it('should order positions by time, then by id', () => {
+    const later = { receivedAt: new Date('2025-01-01T12:00:01.000Z'), id: 'aaa' };
+    const sameTime = { receivedAt: position.receivedAt, id: 'abd' };
+
+    expect(compareStreamPositions(later, position)).toBeGreaterThan(0);
+    expect(compareStreamPositions(position, later)).toBeLessThan(0);
+    expect(compareStreamPositions(sameTime, position)).toBeGreaterThan(0);
+    expect(compareStreamPositions(position, { ...position })).toBe(0);
+  });
+});
+
+describe('createReplayGate', () => {
+  const location = (id: string, second: number): GroupEvent => ({
+    type: 'location',
+    data: {
+      groupId: 'group-1',
+      id,
+      deviceId: 'device-1',
+      latitude: 1,
+      longitude: 2,
+      recordedAt: new Date(`2025-01-01T12:00:0${second}.000Z`),
+      receivedAt: new Date(`2025-01-01T12:00:0${second}.000Z`),
+    },
+  });
+
+  it('should deliver a location published during the replay only once', () => {
+    const delivered: GroupEvent[] = [];
+    const gate = createReplayGate((event) => delivered.push(event));
+
+    // Published while the replay query runs, and also returned by it
+    const duringReplay = location('loc-1', 1);
+    gate.push(duringReplay);
+    expect(delivered).toEqual([]);
+
+    // The replay sends loc-1 itself, then the gate is released
+    const replayedThrough = { receivedAt: new Date('2025-01-01T12:00:01.000Z'), id: 'loc-1' };
+    const newer = location('loc-2', 2);
+    gate.push(newer);
+    gate.finish(replayedThrough);
+
+    expect(delivered).toEqual([newer]);
+  });
+
+  it('should pass events straight through once the replay finished', () => {
+    const delivered: GroupEvent[] = [];
+    const gate = createReplayGate((event) => delivered.push(event));
+    gate.finish(null);
+
+    const event = location('loc-1', 1);
+    gate.push(event);
+    expect(delivered).toEqual([event]);
+  });
+});
+
+describe.skipIf(!env.DATABASE_URL)('loadReplayLocations', () => {
+  const ownerId = 'replay-owner';
+  let groupId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: ownerId } });
+    await db.users.deleteMany({ where: { id: ownerId } });
+  }
+
+  beforeEach(async () => {
+    await cleanUp();
+    await db.users.create({ data: { id: ownerId, email: `${ownerId}@test.example.com` } });
+    const group = await db.groups.create({ data: { name: 'Replay', owner_id: ownerId } });
+    groupId = group.id;
+  });
+
+  afterEach(cleanUp);
+
+  it('should skip locations the group suppressed', async () => {
+    const receivedAt = new Date();
+    const location = (id: string, metadata: Record<string, unknown> | null) => ({
+      id,
+      group_id: groupId,
+      device_id: 'replay-phone',
+      latitude: 1,
+      longitude: 2,
+      recorded_at: receivedAt,
+      received_at: receivedAt,
+      metadata: metadata && JSON.stringify(metadata),
+    });
+    await db.locations.createMany({
+      data: [
+        location('replay-clean', null),
+        location('replay-flagged', withQualityIssues(null, ['low_accuracy'])),
+        location('replay-suppressed', withQualityIssues(null, ['low_accuracy'], [groupId])),
+        location('replay-other', withQualityIssues(null, ['low_accuracy'], ['another-group'])),
+      ],
+    });
+
+    const rows = await loadReplayLocations(groupId, {
+      receivedAt: new Date(receivedAt.getTime() - 1000),
+      id: '',
+    });
+
+    expect(rows.map((row) => row.id)).toEqual(['replay-clean', 'replay-flagged', 'replay-other']);
+  });
+});
@@ -0,0 +1,115 @@
+import { prisma as db } from '../db.js';
+import type { GroupEvent } from './bus.js';
+import { isSuppressedFor } from './location-quality.js';
+
+/**
+ * Position of a location in a group's stream: the stored row's received_at and id
+ * Used as the SSE event ID so a reconnecting client can resume where it left off
+ */
+export type StreamPosition = { receivedAt: Date; id: string };
+
+// Suggested reconnect delay sent to clients in the SSE `retry:` field
+export const STREAM_RETRY_MS = 3000;
+// How far back a resuming client can catch up, and how many rows at most
+export const REPLAY_WINDOW_MS = 15 * 60 * 1000;
+export const REPLAY_LIMIT = 500;
+
+/**
+ * Event ID for a location: "<received_at ms>:<id>"
+ * IDs sort by time, so they increase monotonically along a stream
+ */
+export function encodeStreamEventId(position: StreamPosition): string {
+  return `${position.receivedAt.getTime()}:${position.id}`;
+}
+
+export function decodeStreamEventId(value: string | undefined): StreamPosition | null {
+  if (!value) return null;
+
+  const separator = value.indexOf(':');
+  if (separator === -1) return null;
+
+  const timestamp = Number(value.slice(0, separator));
+  const id = value.slice(separator + 1);
+  if (!Number.isFinite(timestamp) || !id) return null;
+
+  return { receivedAt: new Date(timestamp), id };
+}
+
+/**
+ * Order two stream positions by (receivedAt, id)
+ */
+export function compareStreamPositions(a: StreamPosition, b: StreamPosition): number {
+  const byTime = a.receivedAt.getTime() - b.receivedAt.getTime();
+  if (byTime !== 0) return byTime;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? -1 : 1;
+}
+
+/**
+ * Locations stored for a group after the given stream position, oldest first
+ *
+ * Bounded to REPLAY_WINDOW_MS before now and to the newest REPLAY_LIMIT rows;
+ * anything older than that is skipped and should be fetched from /locations/history.
+ * Locations the group's quality policy suppressed were never published live, so they are
+ * not replayed either.
+ */
+export async function loadReplayLocations(groupId: string, after: StreamPosition) {
+  const windowStart = new Date(Date.now() - REPLAY_WINDOW_MS);
+  const from = after.receivedAt < windowStart ? { receivedAt: windowStart, id: '' } : after;
+
+  const rows = await db.locations.findMany({
+    where: {
+      group_id: groupId,
+      OR: [
+        { received_at: { gt: from.receivedAt } },
+        { received_at: from.receivedAt, id: { gt: from.id } },
+      ],
+    },
+    orderBy: [{ received_at: 'desc' }, { id: 'desc' }],
+    take: REPLAY_LIMIT,
+  });
+
+  return rows.reverse().filter((row) => !isSuppressedFor(row.metadata, groupId));
+}
+
+/**
+ * Holds live events back while a resuming stream replays missed locations
+ * A location published while the replay query runs can also be in its results, so
+ * when the replay finishes, held locations at or before the last replayed position are
+ * dropped instead of being sent a second time; every other held event is delivered.
+ */
+export function createReplayGate(deliver: (event: GroupEvent) => void) {
+  let replaying = true;
+  const held: GroupEvent[] = [];
+
+  return {
+    push(event: GroupEvent): void {
+      if (replaying) {
+        held.push(event);
+      } else {
+        deliver(event);
+      }
+    },
+
+    /**
+     * Stop holding events and flush the held ones
+     * @param replayedThrough - Position of the last replayed location (null when none was sent)
+     */
+    finish(replayedThrough: StreamPosition | null): void {
+      replaying = false;
+      for (const event of held.splice(0)) {
+        if (event.type === 'location' && replayedThrough) {
+          const { id, receivedAt } = event.data;
+          if (
+            id &&
+            receivedAt &&
+            compareStreamPositions({ receivedAt, id }, replayedThrough) <= 0
+          ) {
+            continue;
+          }
+        }
+        deliver(event);
+      }
+    },
+  };
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import { locationBus, type GroupEvent } from './bus.js';
+import type { ExportLocationRow } from './location-export.js';
+import {
+  eraseUserData,
+  exportUserData,
+  successorRoles,
+  userExportChunks,
+  userLocationsWhere,
+} from './user-data.js';
+
+async function* source(rows: ExportLocationRow[]): AsyncGenerator<ExportLocationRow> {
+  yield* rows;
+}
+
+async function collect(chunks: AsyncIterable<string>): Promise<string> {
+  let out = '';
+  for await (const chunk of chunks) out += chunk;
+  return out;
+}
+
+describe('userExportChunks', () => {
+  const document = {
+    exportedAt: new Date('2026-01-01T00:00:00Z'),
+    user: { id: 'user-1', email: 'user@example.com', name: null },
+    deviceIds: ['user-1', 'phone-1'],
+  };
+
+  const row = (id: string, metadata: string | null): ExportLocationRow => ({
+    id,
+    device_id: 'phone-1',
+    latitude: 37.7749,
+    longitude: -122.4194,
+    accuracy: 5,
+    heading: null,
+    speed: null,
+    recorded_at: new Date('2026-01-01T12:00:00Z'),
+    metadata,
+  });
+
+  it('should produce valid JSON without locations', async () => {
+    const exported = JSON.parse(await collect(userExportChunks(document, source([]))));
+
+    expect(exported).toEqual({
+      exportedAt: '2026-01-01T00:00:00.000Z',
+      user: document.user,
+      deviceIds: document.deviceIds,
+      locations: [],
+    });
+  });
+
+  it('should append the locations as the last field', async () => {
+    const rows = [row('location-1', '{"battery":80}'), row('location-2', 'not json')];
+    const exported = JSON.parse(await collect(userExportChunks(document, source(rows))));
+
+    expect(Object.keys(exported)).toEqual(['exportedAt', 'user', 'deviceIds', 'locations']);
+    expect(exported.locations).toEqual([
+      expect.objectContaining({ id: 'location-1', deviceId: 'phone-1', metadata: { battery: 80 } }),
+      expect.objectContaining({ id: 'location-2', metadata: 'not json' }),
+    ]);
+  });
+});
+
+describe('successorRoles', () => {
+  it('should prefer admins, then members, then viewers', () => {
+    expect(successorRoles('transfer')).toEqual(['admin', 'member', 'viewer']);
+  });
+
+  it('should not hand groups on when they are deleted', () => {
+    expect(successorRoles('delete')).toEqual([]);
+  });
+});
+
+describe('userLocationsWhere', () => {
+  it('should match locations stored before the user was recorded only in their groups', () => {
+    expect(userLocationsWhere('user-1', ['group-1'], ['user-1', 'phone-1'])).toEqual({
+      OR: [
+        { user_id: 'user-1' },
+        { user_id: null, group_id: { in: ['group-1'] }, device_id: { in: ['user-1', 'phone-1'] } },
+      ],
+    });
+  });
+});
+
+// Erasure runs in a transaction, so these need a database
+describe.skipIf(!env.DATABASE_URL)('eraseUserData and exportUserData', () => {
+  const userIds = ['erase-owner', 'erase-admin', 'erase-member', 'erase-requester', 'erase-other'];
+  let transferredGroupId: string;
+  let unclaimedGroupId: string;
+
+  async function cleanUp(): Promise<void> {
+    await db.groups.deleteMany({ where: { owner_id: { in: userIds } } });
+    await db.users.deleteMany({ where: { id: { in: userIds } } });
+  }
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const id of userIds) {
+      await db.users.create({ data: { id, email: `${id}@test.example.com` } });
+    }
+
+    // The member joined first, but an admin is preferred
+    const transferred = await db.groups.create({
+      data: { name: 'Erase transferred', owner_id: 'erase-owner' },
+    });
+    transferredGroupId = transferred.id;
+    await db.group_members.createMany({
+      data: [
+        { group_id: transferred.id, user_id: 'erase-owner', status: 'active', role: 'owner' },
+        { group_id: transferred.id, user_id: 'erase-member', status: 'active', role: 'member' },
+      ],
+    });
+    await db.group_members.create({
+      data: { group_id: transferred.id, user_id: 'erase-admin', status: 'active', role: 'admin' },
+    });
+
+    // Only a pending request, so nobody can take the group over
+    const unclaimed = await db.groups.create({
+      data: { name: 'Erase unclaimed', owner_id: 'erase-owner' },
+    });
+    unclaimedGroupId = unclaimed.id;
+    await db.group_members.createMany({
+      data: [
+        { group_id: unclaimed.id, user_id: 'erase-owner', status: 'active', role: 'owner' },
+        {
+          group_id: unclaimed.id,
+          user_id: 'erase-requester',
+          status: 'pending_request',
+          role: 'member',
+        },
+      ],
+    });
+
+    await db.location_shares.create({
+      data: {
+        id: 'erase-share',
+        user_id: 'erase-owner',
+        group_id: transferred.id,
+        device_id: 'erase-phone',
+        updated_at: new Date(),
+      },
+    });
+  });
+
+  afterEach(cleanUp);
+
+  it('should hand owned groups to the preferred successor and delete the rest', async () => {
+    const report = await eraseUserData('erase-owner', 'transfer');
+
+    expect(report.groupsTransferred).toEqual([
+      { groupId: transferredGroupId, newOwnerId: 'erase-admin' },
+    ]);
+    expect(report.groupsDeleted).toEqual([unclaimedGroupId]);
+    expect(await db.groups.findUnique({ where: { id: transferredGroupId } })).toMatchObject({
+      owner_id: 'erase-admin',
+    });
+    expect(await db.users.findUnique({ where: { id: 'erase-owner' } })).toBeNull();
+  });
+
+  it('should delete every owned group when asked to', async () => {
+    const report = await eraseUserData('erase-owner', 'delete');
+
+    expect(report.groupsTransferred).toEqual([]);
+    expect(report.groupsDeleted).toEqual([transferredGroupId, unclaimedGroupId]);
+    expect(await db.groups.count({ where: { id: { in: report.groupsDeleted } } })).toBe(0);
+  });
+
+  it('should end active shares before deleting them', async () => {
+    const events: GroupEvent[] = [];
+    const unsubscribe = locationBus.subscribeForTesting(transferredGroupId, (event) => {
+      events.push(event);
+    });
+
+    try {
+      const report = await eraseUserData('erase-owner', 'transfer');
+
+      expect(report.locationSharesDeleted).toBe(1);
+      expect(events).toContainEqual(
+        expect.objectContaining({
+          type: 'share.ended',
+          data: expect.objectContaining({ shareId: 'erase-share', userId: 'erase-owner' }),
+        })
+      );
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  describe('with a device ID another user also submits from', () => {
+    let otherLocationIds: string[];
+
+    beforeEach(async () => {
+      const otherGroup = await db.groups.create({
+        data: { name: 'Erase other', owner_id: 'erase-other' },
+      });
+      const location = (groupId: string, deviceId: string, userId: string | null) => ({
+        group_id: groupId,
+        device_id: deviceId,
+        user_id: userId,
+        latitude: 37.7749,
+        longitude: -122.4194,
+        recorded_at: new Date(),
+      });
+
+      await db.locations.createMany({
+        data: [
+          location(transferredGroupId, 'erase-phone', 'erase-owner'),
+          // Never used in a share
+          location(transferredGroupId, 'erase-tablet', 'erase-owner'),
+        ],
+      });
+      const other = await db.locations.createManyAndReturn({
+        data: [
+          location(otherGroup.id, 'erase-phone', 'erase-other'),
+          // Stored before the submitting user was recorded, in a group the owner is not in
+          location(otherGroup.id, 'erase-phone', null),
+        ],
+        select: { id: true },
+      });
+      otherLocationIds = other.map((row) => row.id);
+    });
+
+    it("should export only the user's own locations", async () => {
+      const chunks = await exportUserData('erase-owner');
+      const exported = JSON.parse(await collect(chunks as AsyncIterable<string>));
+
+      expect(
+        exported.locations.map((location: { deviceId: string }) => location.deviceId).sort()
+      ).toEqual(['erase-phone', 'erase-tablet']);
+    });
+
+    it("should erase only the user's own locations", async () => {
+      const report = await eraseUserData('erase-owner', 'delete');
+
+      expect(report.locationsDeleted).toBe(2);
+      expect(await db.locations.count({ where: { id: { in: otherLocationIds } } })).toBe(2);
+    });
+  });
+});
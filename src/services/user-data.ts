@@ -0,0 +1,377 @@
+import type { Prisma } from '@prisma/client';
+import { prisma as db } from '../db.js';
+import { locationBatcher } from './location-batcher.js';
+import { iterateLocationsForExport, type ExportLocationRow } from './location-export.js';
+import { endLocationShare } from './location-shares.js';
+import { applyOwnershipTransfer, findSuccessor } from './ownership-transfers.js';
+
+/**
+ * Stands in for an erased user where a record they touched is kept (invitations they sent,
+ * ownership transfers)
+ */
+export const ERASED_USER_ID = 'erased-user';
+
+/**
+ * What to do with the groups an erased user owns
+ * - transfer: hand each group to its longest-standing admin, or else active member; groups
+ *   without one are deleted
+ * - delete: delete every owned group with its data
+ */
+export type OwnedGroupsDisposition = 'transfer' | 'delete';
+
+/**
+ * Roles an owned group may pass to, in order of preference
+ * Empty when the groups are deleted.
+ */
+export function successorRoles(disposition: OwnedGroupsDisposition): string[] {
+  return disposition === 'transfer' ? ['admin', 'member', 'viewer'] : [];
+}
+
+export interface UserErasureReport {
+  groupsTransferred: { groupId: string; newOwnerId: string }[];
+  groupsDeleted: string[];
+  locationsDeleted: number;
+  locationSharesDeleted: number;
+  membershipsDeleted: number;
+  invitationsDeleted: number;
+  shareLinksAnonymised: number;
+  apiKeysAnonymised: number;
+}
+
+/**
+ * Devices a user submitted locations from
+ * Also the devices the user shared from and the user ID itself (used for locations submitted
+ * without a device ID), which cover locations stored before the submitting user was recorded.
+ */
+export async function findUserDeviceIds(userId: string): Promise<string[]> {
+  const [locations, shares] = await Promise.all([
+    db.locations.findMany({
+      where: { user_id: userId },
+      select: { device_id: true },
+      distinct: ['device_id'],
+    }),
+    db.location_shares.findMany({
+      where: { user_id: userId, device_id: { not: null } },
+      select: { device_id: true },
+      distinct: ['device_id'],
+    }),
+  ]);
+
+  const shareDeviceIds = shares.flatMap((share) => (share.device_id ? [share.device_id] : []));
+  return [
+    ...new Set([userId, ...locations.map((location) => location.device_id), ...shareDeviceIds]),
+  ];
+}
+
+/**
+ * Locations that belong to a user
+ * Locations record the user who submitted them. Those stored before they did are matched by
+ * device, but only in groups the user is or was a member of: clients choose device IDs, so
+ * another user can submit from a device with the same ID.
+ */
+export function userLocationsWhere(
+  userId: string,
+  groupIds: string[],
+  deviceIds: string[]
+): Prisma.locationsWhereInput {
+  return {
+    OR: [
+      { user_id: userId },
+      { user_id: null, group_id: { in: groupIds }, device_id: { in: deviceIds } },
+    ],
+  };
+}
+
+function parseMetadata(metadata: string | null): unknown {
+  if (!metadata) {
+    return null;
+  }
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return metadata;
+  }
+}
+
+/**
+ * Stream an export document as JSON with the locations appended as its last field
+ * @param document - Everything but the locations
+ */
+export async function* userExportChunks(
+  document: object,
+  rows: AsyncIterable<ExportLocationRow>
+): AsyncGenerator<string, void, undefined> {
+  // The document without its closing brace, left open to append the locations array
+  yield JSON.stringify(document, null, 2).replace(/\n}$/, ',\n  "locations": [');
+
+  let first = true;
+  for await (const row of rows) {
+    const location = {
+      id: row.id,
+      deviceId: row.device_id,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      accuracy: row.accuracy,
+      heading: row.heading,
+      speed: row.speed,
+      recordedAt: row.recorded_at,
+      metadata: parseMetadata(row.metadata),
+    };
+    yield `${first ? '' : ','}\n    ${JSON.stringify(location)}`;
+    first = false;
+  }
+
+  yield '\n  ]\n}\n';
+}
+
+/**
+ * Everything stored about a user, as one JSON document
+ * Yielded in chunks so locations are streamed rather than held in memory.
+ * Resolves to null when the user does not exist.
+ */
+export async function exportUserData(
+  userId: string
+): Promise<AsyncGenerator<string, void, undefined> | null> {
+  const user = await db.users.findUnique({ where: { id: userId } });
+  if (!user) {
+    return null;
+  }
+
+  const [
+    ownedGroups,
+    memberships,
+    received,
+    sent,
+    transfers,
+    shares,
+    shareLinks,
+    apiKeys,
+    deviceIds,
+  ] = await Promise.all([
+    db.groups.findMany({ where: { owner_id: userId }, orderBy: { created_at: 'asc' } }),
+    db.group_members.findMany({
+      where: { user_id: userId },
+      include: { groups: { select: { name: true } } },
+      orderBy: { created_at: 'asc' },
+    }),
+    db.group_invitations.findMany({ where: { user_id: userId }, orderBy: { created_at: 'asc' } }),
+    db.group_invitations.findMany({
+      where: { invited_by: userId },
+      orderBy: { created_at: 'asc' },
+    }),
+    db.group_ownership_transfers.findMany({
+      where: { OR: [{ from_user_id: userId }, { to_user_id: userId }] },
+      orderBy: { created_at: 'asc' },
+    }),
+    db.location_shares.findMany({ where: { user_id: userId }, orderBy: { started_at: 'asc' } }),
+    db.share_links.findMany({
+      where: { created_by_user_id: userId },
+      orderBy: { created_at: 'asc' },
+    }),
+    db.api_keys.findMany({ where: { user_id: userId }, orderBy: { created_at: 'asc' } }),
+    findUserDeviceIds(userId),
+  ]);
+
+  const toInvitation = (invitation: (typeof received)[number]) => ({
+    id: invitation.id,
+    groupId: invitation.group_id,
+    userId: invitation.user_id,
+    invitedBy: invitation.invited_by,
+    status: invitation.status,
+    expiresAt: invitation.expires_at,
+    createdAt: invitation.created_at,
+    acceptedAt: invitation.accepted_at,
+    rejectedAt: invitation.rejected_at,
+  });
+
+  const document = {
+    exportedAt: new Date(),
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      createdAt: user.created_at,
+      updatedAt: user.updated_at,
+    },
+    ownedGroups: ownedGroups.map((group) => ({
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      createdAt: group.created_at,
+    })),
+    memberships: memberships.map((membership) => ({
+      groupId: membership.group_id,
+      groupName: membership.groups.name,
+      status: membership.status,
+      role: membership.role,
+      createdAt: membership.created_at,
+    })),
+    invitationsReceived: received.map(toInvitation),
+    invitationsSent: sent.map(toInvitation),
+    ownershipTransfers: transfers.map((transfer) => ({
+      id: transfer.id,
+      groupId: transfer.group_id,
+      fromUserId: transfer.from_user_id,
+      toUserId: transfer.to_user_id,
+      reason: transfer.reason,
+      status: transfer.status,
+      createdAt: transfer.created_at,
+      respondedAt: transfer.responded_at,
+    })),
+    locationShares: shares.map((share) => ({
+      id: share.id,
+      groupId: share.group_id,
+      deviceId: share.device_id,
+      startedAt: share.started_at,
+      endedAt: share.ended_at,
+      isActive: share.is_active,
+      duration: share.duration,
+      frequency: share.frequency,
+      expiresAt: share.expires_at,
+    })),
+    // Token hashes are left out: they are credentials, not personal data
+    shareLinks: shareLinks.map((link) => ({
+      id: link.id,
+      groupId: link.group_id,
+      reason: link.reason,
+      expiresAt: link.expires_at,
+      createdAt: link.created_at,
+    })),
+    apiKeys: apiKeys.map((key) => ({
+      id: key.id,
+      groupId: key.group_id,
+      label: key.label,
+      scopes: key.scopes,
+      createdAt: key.created_at,
+      lastUsedAt: key.last_used_at,
+      expiresAt: key.expires_at,
+      revokedAt: key.revoked_at,
+    })),
+    deviceIds,
+  };
+
+  const groupIds = memberships.map((membership) => membership.group_id);
+  return userExportChunks(
+    document,
+    iterateLocationsForExport({ where: userLocationsWhere(userId, groupIds, deviceIds) })
+  );
+}
+
+/**
+ * Erase a user and everything personal stored about them
+ * Memberships, received invitations, location shares and the user's locations (see
+ * userLocationsWhere) are deleted; share links, API keys and sent invitations belong to groups and
+ * are kept without the reference to the user. Active shares are ended first, so their
+ * groups see `share.ended`.
+ */
+export async function eraseUserData(
+  userId: string,
+  ownedGroups: OwnedGroupsDisposition
+): Promise<UserErasureReport> {
+  const deviceIds = await findUserDeviceIds(userId);
+
+  const activeShares = await db.location_shares.findMany({
+    where: { user_id: userId, is_active: true },
+  });
+  for (const share of activeShares) {
+    await endLocationShare(share, 'ended');
+  }
+
+  const report: UserErasureReport = {
+    groupsTransferred: [],
+    groupsDeleted: [],
+    locationsDeleted: 0,
+    locationSharesDeleted: 0,
+    membershipsDeleted: 0,
+    invitationsDeleted: 0,
+    shareLinksAnonymised: 0,
+    apiKeysAnonymised: 0,
+  };
+
+  const memberships = await db.group_members.findMany({
+    where: { user_id: userId },
+    select: { group_id: true },
+  });
+  const groupIds = memberships.map((membership) => membership.group_id);
+
+  // Locations go first and outside the transaction: there can be many, and if a later step
+  // fails the request can simply be repeated
+  report.locationsDeleted = (
+    await db.locations.deleteMany({ where: userLocationsWhere(userId, groupIds, deviceIds) })
+  ).count;
+  await db.geofence_device_states.deleteMany({
+    where: { device_id: { in: deviceIds }, geofences: { group_id: { in: groupIds } } },
+  });
+
+  await db.$transaction(async (tx) => {
+    const owned = await tx.groups.findMany({
+      where: { owner_id: userId },
+      select: { id: true },
+      orderBy: { created_at: 'asc' },
+    });
+
+    for (const group of owned) {
+      const successor = await findSuccessor(tx, group.id, userId, successorRoles(ownedGroups));
+
+      if (successor) {
+        await applyOwnershipTransfer(tx, {
+          groupId: group.id,
+          fromUserId: userId,
+          toUserId: successor,
+          reason: 'account_erased',
+        });
+        report.groupsTransferred.push({ groupId: group.id, newOwnerId: successor });
+      } else {
+        await tx.groups.delete({ where: { id: group.id } });
+        report.groupsDeleted.push(group.id);
+      }
+    }
+
+    report.locationSharesDeleted = (
+      await tx.location_shares.deleteMany({ where: { user_id: userId } })
+    ).count;
+    report.membershipsDeleted = (
+      await tx.group_members.deleteMany({ where: { user_id: userId } })
+    ).count;
+    report.invitationsDeleted = (
+      await tx.group_invitations.deleteMany({ where: { user_id: userId } })
+    ).count;
+    await tx.group_invitations.updateMany({
+      where: { invited_by: userId },
+      data: { invited_by: ERASED_USER_ID },
+    });
+    await tx.group_ownership_transfers.updateMany({
+      where: { to_user_id: userId, status: 'pending' },
+      data: { status: 'cancelled', responded_at: new Date() },
+    });
+    await tx.group_ownership_transfers.updateMany({
+      where: { from_user_id: userId },
+      data: { from_user_id: ERASED_USER_ID },
+    });
+    await tx.group_ownership_transfers.updateMany({
+      where: { to_user_id: userId },
+      data: { to_user_id: ERASED_USER_ID },
+    });
+    report.shareLinksAnonymised = (
+      await tx.share_links.updateMany({
+        where: { created_by_user_id: userId },
+        data: { created_by_user_id: null },
+      })
+    ).count;
+    report.apiKeysAnonymised = (
+      await tx.api_keys.updateMany({ where: { user_id: userId }, data: { user_id: null } })
+    ).count;
+
+    await tx.users.delete({ where: { id: userId } });
+  });
+
+  // Updates queued before the erasure must not be published afterwards
+  for (const { group_id } of memberships) {
+    locationBatcher.dropQueuedUpdates(group_id, userId);
+  }
+  for (const groupId of report.groupsDeleted) {
+    locationBatcher.clearGroupQueue(groupId);
+  }
+
+  return report;
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { computeRetryDelayMs } from './webhook-deliveries.js';
+
+describe('Webhook delivery backoff', () => {
+  it('should double the delay after each failed attempt', () => {
+    expect(computeRetryDelayMs(1)).toBe(10_000);
+    expect(computeRetryDelayMs(2)).toBe(20_000);
+    expect(computeRetryDelayMs(3)).toBe(40_000);
+    expect(computeRetryDelayMs(4)).toBe(80_000);
+  });
+
+  it('should cap the delay at one hour', () => {
+    expect(computeRetryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('should treat zero attempts like the first retry', () => {
+    expect(computeRetryDelayMs(0)).toBe(10_000);
+  });
+});
@@ -0,0 +1,291 @@
+import { env } from '../config/env.js';
+import { prisma as db } from '../db.js';
+import { activeApiKeyWhere } from './api-keys.js';
+import type { GroupEvent } from './bus.js';
+import { toWebhookEvent, webhookService } from './webhook.js';
+import { openWebhookSecret } from './webhook-secrets.js';
+
+/**
+ * Delivery lifecycle:
+ * - pending: queued, not attempted yet (or reset for redelivery)
+ * - failed: last attempt failed, retry scheduled at next_attempt_at
+ * - delivered: receiver answered with a 2xx
+ * - dead: gave up after WEBHOOK_MAX_ATTEMPTS (or the webhook was disabled, or its secret
+ *   cannot be decrypted)
+ */
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'failed', 'delivered', 'dead'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 50;
+const BASE_RETRY_DELAY_MS = 10 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// How long a claimed delivery is hidden from other workers while it is being attempted
+const CLAIM_LEASE_MS = 60 * 1000;
+
+/**
+ * Exponential backoff for the retry after the given number of failed attempts
+ * 1 → 10s, 2 → 20s, 3 → 40s ... capped at one hour
+ */
+export function computeRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(attempts - 1, 0);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Webhook Delivery Queue
+ *
+ * Every webhook push is persisted in `webhook_deliveries` before it is attempted,
+ * so a failing receiver never loses an event:
+ * - dispatch() writes one delivery row per matching webhook and kicks the worker
+ * - the worker polls for due deliveries, claims them and POSTs the stored body
+ * - failures are rescheduled with exponential backoff until WEBHOOK_MAX_ATTEMPTS,
+ *   after which the delivery is dead-lettered and can be redelivered via the API
+ */
+class WebhookDeliveryQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  private rerunRequested = false;
+
+  /**
+   * Queue a bus event for every active webhook registered on the group's API keys
+   * that subscribes to it
+   * Runs in the background - failures are logged and never reach the caller
+   */
+  dispatch(groupId: string, event: GroupEvent): void {
+    this.enqueue(groupId, event).catch((error) => {
+      console.error('[WebhookDeliveryQueue] Failed to queue webhook deliveries', {
+        groupId,
+        type: event.type,
+        error,
+      });
+    });
+  }
+
+  private async enqueue(groupId: string, event: GroupEvent): Promise<void> {
+    const webhookEvent = toWebhookEvent(event);
+    // Member events concern all of a person's devices
+    const deviceId = event.type === 'member.removed' ? null : event.data.deviceId;
+    const webhooks = await db.webhooks.findMany({
+      where: {
+        active: true,
+        events: { has: webhookEvent },
+        api_keys: {
+          group_id: groupId,
+          scopes: { has: 'webhooks:manage' },
+          AND: [
+            activeApiKeyWhere(),
+            // Keys with a device allow-list only hear about those devices
+            deviceId === null
+              ? { device_ids: { isEmpty: true } }
+              : {
+                  OR: [{ device_ids: { isEmpty: true } }, { device_ids: { has: deviceId } }],
+                },
+          ],
+        },
+      },
+      select: { id: true },
+    });
+
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const body = webhookService.buildBody(webhookEvent, event.data);
+    await db.webhook_deliveries.createMany({
+      data: webhooks.map((webhook) => ({
+        webhook_id: webhook.id,
+        event: webhookEvent,
+        payload: body,
+      })),
+    });
+
+    this.kick();
+  }
+
+  /**
+   * Reset deliveries so they are attempted again from scratch
+   * @returns Number of deliveries queued for redelivery
+   */
+  async redeliver(deliveryIds: string[]): Promise<number> {
+    if (deliveryIds.length === 0) {
+      return 0;
+    }
+
+    const result = await db.webhook_deliveries.updateMany({
+      where: {
+        id: { in: deliveryIds },
+        status: { not: 'delivered' satisfies WebhookDeliveryStatus },
+      },
+      data: {
+        status: 'pending' satisfies WebhookDeliveryStatus,
+        attempts: 0,
+        next_attempt_at: new Date(),
+      },
+    });
+
+    this.kick();
+    return result.count;
+  }
+
+  /**
+   * Start polling for due deliveries
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.kick(), POLL_INTERVAL_MS);
+    this.timer.unref?.();
+    this.kick();
+  }
+
+  /**
+   * Stop polling (in-flight attempts are allowed to finish)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Process due deliveries now, or right after the current run finishes
+   */
+  kick(): void {
+    if (this.processing) {
+      this.rerunRequested = true;
+      return;
+    }
+
+    this.processing = true;
+    this.processDue()
+      .catch((error) => {
+        console.error('[WebhookDeliveryQueue] Failed to process deliveries', error);
+      })
+      .finally(() => {
+        this.processing = false;
+        if (this.rerunRequested) {
+          this.rerunRequested = false;
+          this.kick();
+        }
+      });
+  }
+
+  /**
+   * Attempt one batch of deliveries whose next_attempt_at has passed
+   * @returns Number of deliveries attempted
+   */
+  private async processDue(): Promise<number> {
+    const now = new Date();
+    const due = await db.webhook_deliveries.findMany({
+      where: {
+        status: { in: ['pending', 'failed'] satisfies WebhookDeliveryStatus[] },
+        next_attempt_at: { lte: now },
+      },
+      include: { webhooks: true },
+      orderBy: { next_attempt_at: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const results = await Promise.allSettled(
+      due.map(async (delivery) => {
+        // Claim the delivery so another instance polling at the same time skips it
+        const claim = await db.webhook_deliveries.updateMany({
+          where: {
+            id: delivery.id,
+            status: delivery.status,
+            next_attempt_at: delivery.next_attempt_at,
+          },
+          data: { next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS) },
+        });
+
+        if (claim.count === 0) {
+          return false;
+        }
+
+        await this.attemptDelivery(delivery);
+        return true;
+      })
+    );
+
+    return results.filter((result) => result.status === 'fulfilled' && result.value).length;
+  }
+
+  private async attemptDelivery(delivery: {
+    id: string;
+    attempts: number;
+    payload: string;
+    webhooks: { url: string; secret: string; active: boolean };
+  }): Promise<void> {
+    if (!delivery.webhooks.active) {
+      await db.webhook_deliveries.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'dead' satisfies WebhookDeliveryStatus,
+          last_response: 'Webhook is disabled',
+        },
+      });
+      return;
+    }
+
+    let secret: string;
+    try {
+      secret = openWebhookSecret(delivery.webhooks.secret, env.WEBHOOK_SECRET_KEY);
+    } catch (error) {
+      // Nothing is sent unsigned; redeliver once the key is configured
+      const message = error instanceof Error ? error.message : String(error);
+      await db.webhook_deliveries.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'dead' satisfies WebhookDeliveryStatus,
+          last_response: `Webhook secret cannot be decrypted: ${message}`,
+        },
+      });
+      return;
+    }
+
+    const result = await webhookService.attempt(delivery.webhooks.url, delivery.payload, secret);
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date();
+
+    let status: WebhookDeliveryStatus;
+    if (result.ok) {
+      status = 'delivered';
+    } else if (attempts >= env.WEBHOOK_MAX_ATTEMPTS) {
+      status = 'dead';
+    } else {
+      status = 'failed';
+    }
+
+    await db.webhook_deliveries.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        last_attempt_at: attemptedAt,
+        last_status: result.status,
+        last_response: result.response,
+        ...(status === 'delivered' && { delivered_at: attemptedAt }),
+        ...(status === 'failed' && {
+          next_attempt_at: new Date(attemptedAt.getTime() + computeRetryDelayMs(attempts)),
+        }),
+      },
+    });
+
+    if (!result.ok) {
+      console.warn('[WebhookDeliveryQueue] Delivery attempt failed', {
+        deliveryId: delivery.id,
+        url: delivery.webhooks.url,
+        attempts,
+        status,
+        responseStatus: result.status,
+      });
+    }
+  }
+}
+
+export const webhookDeliveryQueue = new WebhookDeliveryQueue();
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { isSealedWebhookSecret, openWebhookSecret, sealWebhookSecret } from './webhook-secrets.js';
+
+const key = 'test-webhook-secret-key-0123456789abcdef';
+
+describe('Webhook secrets', () => {
+  it('should round-trip a sealed secret', () => {
+    const sealed = sealWebhookSecret('whsec_signing-secret', key);
+
+    expect(isSealedWebhookSecret(sealed)).toBe(true);
+    expect(sealed).not.toContain('whsec_signing-secret');
+    expect(openWebhookSecret(sealed, key)).toBe('whsec_signing-secret');
+  });
+
+  it('should seal the same secret differently every time', () => {
+    expect(sealWebhookSecret('whsec_signing-secret', key)).not.toBe(
+      sealWebhookSecret('whsec_signing-secret', key)
+    );
+  });
+
+  it('should pass secrets stored before encryption through', () => {
+    expect(isSealedWebhookSecret('whsec_legacy')).toBe(false);
+    expect(openWebhookSecret('whsec_legacy', undefined)).toBe('whsec_legacy');
+  });
+
+  it('should not open a sealed secret without the right key', () => {
+    const sealed = sealWebhookSecret('whsec_signing-secret', key);
+
+    expect(() => openWebhookSecret(sealed, undefined)).toThrow(
+      'WEBHOOK_SECRET_KEY is not configured'
+    );
+    expect(() => openWebhookSecret(sealed, `${key}-rotated`)).toThrow();
+  });
+});
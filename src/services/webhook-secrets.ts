@@ -0,0 +1,54 @@
+import { prisma as db } from '../db.js';
+import { decryptWithSecret, encryptWithSecret } from '../utils/encrypt.js';
+
+// Marks secrets encrypted with WEBHOOK_SECRET_KEY; rows without it were stored before
+// secrets were encrypted and hold the plain secret
+const SEALED_PREFIX = 'enc:';
+
+/**
+ * Encrypt a webhook signing secret for storage
+ */
+export function sealWebhookSecret(secret: string, key: string): string {
+  return `${SEALED_PREFIX}${encryptWithSecret(secret, key)}`;
+}
+
+export function isSealedWebhookSecret(stored: string): boolean {
+  return stored.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Recover the signing secret of a stored webhook
+ * Throws when the secret is encrypted and the key is missing or does not match.
+ */
+export function openWebhookSecret(stored: string, key: string | undefined): string {
+  if (!isSealedWebhookSecret(stored)) {
+    return stored;
+  }
+  if (!key) {
+    throw new Error('WEBHOOK_SECRET_KEY is not configured');
+  }
+  return decryptWithSecret(stored.slice(SEALED_PREFIX.length), key);
+}
+
+/**
+ * Encrypt the secrets of webhooks stored before secrets were encrypted
+ * Each row is only updated while it still holds the plain secret that was read, so a
+ * secret changed in the meantime is not overwritten.
+ * @returns Number of secrets encrypted
+ */
+export async function sealPlaintextWebhookSecrets(key: string): Promise<number> {
+  const rows = await db.webhooks.findMany({
+    where: { NOT: { secret: { startsWith: SEALED_PREFIX } } },
+    select: { id: true, secret: true },
+  });
+
+  let sealed = 0;
+  for (const row of rows) {
+    const { count } = await db.webhooks.updateMany({
+      where: { id: row.id, secret: row.secret },
+      data: { secret: sealWebhookSecret(row.secret, key) },
+    });
+    sealed += count;
+  }
+  return sealed;
+}
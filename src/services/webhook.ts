@@ -1,4 +1,19 @@
 import type { LocationUpdatePayload } from '../types/location.js';
+import type { GroupEvent } from './bus.js';
+
+/**
+ * Event types that can be delivered to webhooks
+ */
+export const WEBHOOK_EVENTS = [
+  'location.update',
+  'geofence.enter',
+  'geofence.exit',
+  'geofence.dwell',
+  'share.ended',
+  'member.removed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
 
 export interface WebhookConfig {
   url: string;
@@ -7,53 +22,95 @@ export interface WebhookConfig {
   apiKeyId: string;
 }
 
+/**
+ * Webhook event name for a bus event (bus location events are published as location.update)
+ */
+export function toWebhookEvent(event: GroupEvent): WebhookEvent {
+  return event.type === 'location' ? 'location.update' : event.type;
+}
+
+/**
+ * Outcome of a single HTTP attempt against a webhook endpoint
+ */
+export interface WebhookAttemptResult {
+  ok: boolean;
+  status: number | null;
+  response: string;
+}
+
+const RESPONSE_SNIPPET_LENGTH = 500;
+
 /**
  * Webhook delivery service for pushing location updates to external endpoints
  * Supports retries and secret signing for security
  */
 export class WebhookService {
-  private async signPayload(payload: unknown, secret: string): Promise<string> {
+  private async signPayload(body: string, secret: string): Promise<string> {
     const crypto = await import('node:crypto');
     const hmac = crypto.createHmac('sha256', secret);
-    hmac.update(JSON.stringify(payload));
+    hmac.update(body);
     return hmac.digest('hex');
   }
 
-  async deliver(
-    webhook: WebhookConfig,
-    payload: LocationUpdatePayload & { groupId: string }
-  ): Promise<void> {
+  /**
+   * Build the JSON body for an event
+   * The body is stored verbatim in the delivery log so redeliveries are identical
+   */
+  buildBody(event: WebhookEvent, payload: GroupEvent['data']): string {
+    return JSON.stringify({
+      event,
+      timestamp: new Date().toISOString(),
+      data: payload,
+    });
+  }
+
+  /**
+   * POST a prepared body to a webhook endpoint
+   * Never throws - network errors and non-2xx responses are reported in the result
+   */
+  async attempt(url: string, body: string, secret?: string): Promise<WebhookAttemptResult> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'User-Agent': 'GoFindMe-Webhook/1.0',
     };
 
-    // Add signature if secret is provided
-    if (webhook.secret) {
-      const signature = await this.signPayload(payload, webhook.secret);
+    // Sign the exact body we send so receivers can verify it byte-for-byte
+    if (secret) {
+      const signature = await this.signPayload(body, secret);
       headers['X-GoFindMe-Signature'] = `sha256=${signature}`;
     }
 
     try {
-      const response = await fetch(webhook.url, {
+      const response = await fetch(url, {
         method: 'POST',
         headers,
-        body: JSON.stringify({
-          event: 'location.update',
-          timestamp: new Date().toISOString(),
-          data: payload,
-        }),
+        body,
         // Timeout after 10 seconds
         signal: AbortSignal.timeout(10000),
       });
+      const text = await response.text().catch(() => '');
 
-      if (!response.ok) {
-        throw new Error(`Webhook delivery failed: ${response.status} ${response.statusText}`);
-      }
+      return {
+        ok: response.ok,
+        status: response.status,
+        response: text.slice(0, RESPONSE_SNIPPET_LENGTH),
+      };
     } catch (error) {
-      // Log error but don't throw - webhook failures shouldn't break location ingestion
-      console.error(`Webhook delivery failed for ${webhook.url}:`, error);
-      throw error; // Re-throw for retry logic if needed
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, status: null, response: message.slice(0, RESPONSE_SNIPPET_LENGTH) };
+    }
+  }
+
+  async deliver(
+    webhook: WebhookConfig,
+    payload: LocationUpdatePayload & { groupId: string },
+    event: WebhookEvent = 'location.update'
+  ): Promise<void> {
+    const result = await this.attempt(webhook.url, this.buildBody(event, payload), webhook.secret);
+
+    if (!result.ok) {
+      console.error(`Webhook delivery failed for ${webhook.url}:`, result);
+      throw new Error(`Webhook delivery failed: ${result.status ?? 'network error'}`);
     }
   }
 }
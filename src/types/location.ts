@@ -1,10 +1,14 @@
 export type LocationUpdatePayload = {
+  /** Stored location row ID (set once the location has been persisted) */
+  id?: string;
   latitude: number;
   longitude: number;
   accuracy?: number | null;
   heading?: number | null;
   speed?: number | null;
   recordedAt: Date;
+  /** When the server stored the location; with `id` this is the stream position */
+  receivedAt?: Date;
   deviceId: string;
   metadata?: Record<string, unknown> | null;
   payloadVersion?: string;
@@ -1,7 +1,24 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
-import { resolveApiKey } from '../services/api-keys.js';
+import { apiKeyUsage } from '../services/api-key-usage.js';
+import {
+  hasApiKeyGroup,
+  hasApiKeyScope,
+  isDeviceAllowed,
+  resolveApiKey,
+  type ApiKeyScope,
+} from '../services/api-keys.js';
 
-export async function requireApiKey(request: FastifyRequest, reply: FastifyReply) {
+/**
+ * Authenticate the X-API-Key header
+ * When a scope is given the key must carry it, and a `deviceId` query param must be
+ * on the key's device allow-list. Each accepted request counts towards the key's daily
+ * quota. Sends 401/403/429 and throws otherwise.
+ */
+export async function requireApiKey(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  scope?: ApiKeyScope
+) {
   const headerKey = request.headers['x-api-key'];
   const key =
     typeof headerKey === 'string' ? headerKey : Array.isArray(headerKey) ? headerKey[0] : undefined;
@@ -17,5 +34,33 @@ export async function requireApiKey(request: FastifyRequest, reply: FastifyReply
     throw new Error('Invalid API key');
   }
 
-  return record as typeof record & { group_id: string };
+  if (!hasApiKeyGroup(record)) {
+    reply.code(403);
+    throw new Error('API key is not bound to a group');
+  }
+
+  if (scope && !hasApiKeyScope(record, scope)) {
+    reply.code(403);
+    throw new Error(`API key is missing the ${scope} scope`);
+  }
+
+  const deviceId = (request.query as { deviceId?: unknown } | undefined)?.deviceId;
+  if (typeof deviceId === 'string' && !isDeviceAllowed(record, deviceId)) {
+    reply.code(403);
+    throw new Error('API key is not allowed to access this device');
+  }
+
+  if (!(await apiKeyUsage.consumeRequest(record.id))) {
+    reply.code(429);
+    throw new Error('Daily request quota exceeded for this API key');
+  }
+
+  return record;
+}
+
+/**
+ * Prisma location filter for the key's device allow-list (empty when every device is allowed)
+ */
+export function allowedDevicesWhere(apiKey: { device_ids: string[] }) {
+  return apiKey.device_ids.length > 0 ? { device_id: { in: apiKey.device_ids } } : {};
 }
@@ -1,5 +1,6 @@
 import { FastifyReply, FastifyRequest } from 'fastify';
 import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { env } from '../config/env.js';
 
 let jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
 let m2mTokenCache: { token: string; expiresAt: number } | null = null;
@@ -194,6 +195,23 @@ export async function requireAuth(
   }
 }
 
+/**
+ * Verify the access token and require the user to be listed in ADMIN_USER_IDS
+ */
+export async function requireAdmin(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<JWTPayload & { sub: string; email?: string; name?: string }> {
+  const auth = await requireAuth(request, reply);
+
+  if (!env.ADMIN_USER_IDS.includes(auth.sub)) {
+    reply.code(403);
+    throw new Error('Admin access required');
+  }
+
+  return auth;
+}
+
 /**
  * Get an M2M (Machine-to-Machine) access token from Auth0 Management API
  * Uses client credentials grant type
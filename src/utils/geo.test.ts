@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  haversineDistanceMeters,
+  isInBoundingBox,
+  isPointInPolygon,
+  type Position,
+} from './geo.js';
+
+describe('haversineDistanceMeters', () => {
+  it('is zero for the same point', () => {
+    const point = { latitude: 51.5007, longitude: -0.1246 };
+    expect(haversineDistanceMeters(point, point)).toBe(0);
+  });
+
+  it('measures one degree of latitude as roughly 111km', () => {
+    const distance = haversineDistanceMeters(
+      { latitude: 0, longitude: 0 },
+      { latitude: 1, longitude: 0 }
+    );
+    expect(distance).toBeGreaterThan(111000);
+    expect(distance).toBeLessThan(111400);
+  });
+
+  it('matches a known city-to-city distance', () => {
+    // London → Paris is about 344km
+    const distance = haversineDistanceMeters(
+      { latitude: 51.5074, longitude: -0.1278 },
+      { latitude: 48.8566, longitude: 2.3522 }
+    );
+    expect(Math.round(distance / 1000)).toBe(344);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const square: Position[] = [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+  ];
+
+  it('detects points inside and outside a square', () => {
+    expect(isPointInPolygon({ latitude: 5, longitude: 5 }, square)).toBe(true);
+    expect(isPointInPolygon({ latitude: 15, longitude: 5 }, square)).toBe(false);
+    expect(isPointInPolygon({ latitude: 5, longitude: -1 }, square)).toBe(false);
+  });
+
+  it('accepts a closed ring', () => {
+    expect(isPointInPolygon({ latitude: 5, longitude: 5 }, [...square, [0, 0]])).toBe(true);
+  });
+
+  it('handles concave polygons', () => {
+    // U shape open to the north
+    const u: Position[] = [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [7, 10],
+      [7, 3],
+      [3, 3],
+      [3, 10],
+      [0, 10],
+    ];
+    expect(isPointInPolygon({ latitude: 5, longitude: 5 }, u)).toBe(false);
+    expect(isPointInPolygon({ latitude: 5, longitude: 1 }, u)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1, longitude: 5 }, u)).toBe(true);
+  });
+});
+
+describe('isInBoundingBox', () => {
+  it('includes points inside and on the edge of the box', () => {
+    expect(isInBoundingBox({ latitude: 5, longitude: 5 }, [0, 0, 10, 10])).toBe(true);
+    expect(isInBoundingBox({ latitude: 10, longitude: 0 }, [0, 0, 10, 10])).toBe(true);
+    expect(isInBoundingBox({ latitude: 11, longitude: 5 }, [0, 0, 10, 10])).toBe(false);
+  });
+
+  it('handles boxes crossing the antimeridian', () => {
+    const pacific: [number, number, number, number] = [170, -10, -170, 10];
+    expect(isInBoundingBox({ latitude: 0, longitude: 175 }, pacific)).toBe(true);
+    expect(isInBoundingBox({ latitude: 0, longitude: -175 }, pacific)).toBe(true);
+    expect(isInBoundingBox({ latitude: 0, longitude: 0 }, pacific)).toBe(false);
+  });
+});
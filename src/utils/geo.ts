@@ -0,0 +1,67 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+export type LatLng = { latitude: number; longitude: number };
+
+/**
+ * [longitude, latitude] pair, the GeoJSON position order
+ */
+export type Position = [number, number];
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in meters (haversine formula)
+ */
+export function haversineDistanceMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ * The ring may be open or closed; points exactly on an edge may land either side
+ */
+export function isPointInPolygon(point: LatLng, ring: Position[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const crosses =
+      yi > point.latitude !== yj > point.latitude &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * [minLongitude, minLatitude, maxLongitude, maxLatitude], the GeoJSON bbox order
+ * A box whose minLongitude is greater than its maxLongitude crosses the antimeridian
+ */
+export type BoundingBox = [number, number, number, number];
+
+export function isInBoundingBox(point: LatLng, bbox: BoundingBox): boolean {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+
+  if (point.latitude < minLat || point.latitude > maxLat) {
+    return false;
+  }
+
+  if (minLng <= maxLng) {
+    return point.longitude >= minLng && point.longitude <= maxLng;
+  }
+  return point.longitude >= minLng || point.longitude <= maxLng;
+}
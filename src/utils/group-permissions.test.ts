@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { groupsWithPermission, roleCan, rolesWith } from './group-permissions.js';
+
+describe('roleCan', () => {
+  it('lets every role view the group', () => {
+    for (const role of ['owner', 'admin', 'member', 'viewer'] as const) {
+      expect(roleCan(role, 'group:view')).toBe(true);
+    }
+  });
+
+  it('keeps deleting the group to the owner', () => {
+    expect(roleCan('owner', 'group:delete')).toBe(true);
+    expect(roleCan('admin', 'group:delete')).toBe(false);
+  });
+
+  it('lets admins manage members, API keys and geofences', () => {
+    expect(roleCan('admin', 'members:manage')).toBe(true);
+    expect(roleCan('admin', 'api-keys:manage')).toBe(true);
+    expect(roleCan('admin', 'geofences:manage')).toBe(true);
+    expect(roleCan('member', 'members:manage')).toBe(false);
+  });
+
+  it('does not let viewers share locations', () => {
+    expect(roleCan('member', 'locations:share')).toBe(true);
+    expect(roleCan('viewer', 'locations:share')).toBe(false);
+  });
+});
+
+describe('rolesWith', () => {
+  it('lists the roles holding a permission', () => {
+    expect(rolesWith('group:update')).toEqual(['owner', 'admin']);
+    expect(rolesWith('locations:share')).toEqual(['owner', 'admin', 'member']);
+  });
+});
+
+describe('groupsWithPermission', () => {
+  it('matches owned groups and active memberships with a qualifying role', () => {
+    expect(groupsWithPermission('u1', 'members:manage')).toEqual({
+      OR: [
+        { owner_id: 'u1' },
+        {
+          group_members: {
+            some: {
+              user_id: 'u1',
+              status: 'active',
+              role: { in: ['admin'] },
+            },
+          },
+        },
+      ],
+    });
+  });
+});
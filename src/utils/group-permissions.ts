@@ -0,0 +1,141 @@
+import type { Prisma } from '@prisma/client';
+import type { FastifyReply } from 'fastify';
+import { prisma as db } from '../db.js';
+
+/**
+ * A user's role in a group
+ * The owner is the user in groups.owner_id, whether or not they also have a membership row;
+ * everyone else takes the role of their membership while it is active. A group has exactly
+ * one owner; admins share the running of it.
+ */
+export const GROUP_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+
+export type GroupRole = (typeof GROUP_ROLES)[number];
+
+/**
+ * Roles that can be given to a member; ownership only changes hands by transfer
+ * (see applyOwnershipTransfer)
+ */
+export const ASSIGNABLE_GROUP_ROLES = ['admin', 'member', 'viewer'] as const;
+
+export type AssignableGroupRole = (typeof ASSIGNABLE_GROUP_ROLES)[number];
+
+const PERMISSIONS = {
+  // See the group, its members, location shares and geofences
+  'group:view': ['owner', 'admin', 'member', 'viewer'],
+  // Change settings (name, limits, delivery, quality and retention policies)
+  'group:update': ['owner', 'admin'],
+  // Delete the group or hand it to another member
+  'group:delete': ['owner'],
+  'ownership:transfer': ['owner'],
+  // Invite users, review join requests and change roles
+  'members:manage': ['owner', 'admin'],
+  // Create, rotate and revoke API keys and their webhooks
+  'api-keys:manage': ['owner', 'admin'],
+  'geofences:manage': ['owner', 'admin'],
+  // Share own location with the group and create share links for others to
+  'locations:share': ['owner', 'admin', 'member'],
+} as const satisfies Record<string, readonly GroupRole[]>;
+
+export type GroupPermission = keyof typeof PERMISSIONS;
+
+export function roleCan(role: GroupRole, permission: GroupPermission): boolean {
+  return (PERMISSIONS[permission] as readonly GroupRole[]).includes(role);
+}
+
+/**
+ * Roles holding a permission
+ */
+export function rolesWith(permission: GroupPermission): GroupRole[] {
+  return [...PERMISSIONS[permission]];
+}
+
+/**
+ * Groups in which a user holds a permission, as a Prisma filter
+ */
+export function groupsWithPermission(
+  userId: string,
+  permission: GroupPermission
+): Prisma.groupsWhereInput {
+  return {
+    OR: [
+      ...(roleCan('owner', permission) ? [{ owner_id: userId }] : []),
+      {
+        group_members: {
+          some: {
+            user_id: userId,
+            status: 'active',
+            role: { in: rolesWith(permission).filter((role) => role !== 'owner') },
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Load a group with the user's role in it (null when the user has none)
+ */
+export async function getGroupRole(groupId: string, userId: string) {
+  const group = await db.groups.findUnique({
+    where: { id: groupId },
+    include: {
+      group_members: {
+        where: { user_id: userId },
+        select: { role: true, status: true },
+      },
+    },
+  });
+  if (!group) {
+    return null;
+  }
+
+  const { group_members: memberships, ...row } = group;
+  const membership = memberships[0];
+  let role: GroupRole | null = null;
+  if (row.owner_id === userId) {
+    role = 'owner';
+  } else if (membership?.status === 'active') {
+    role = membership.role as GroupRole;
+  }
+
+  return { group: row, role };
+}
+
+/**
+ * Whether a user holds a permission in a group (false when either does not exist)
+ */
+export async function hasGroupPermission(
+  groupId: string,
+  userId: string,
+  permission: GroupPermission
+): Promise<boolean> {
+  const access = await getGroupRole(groupId, userId);
+  return access?.role != null && roleCan(access.role, permission);
+}
+
+/**
+ * Load a group and check the user may act on it
+ * Sends 404 when the group does not exist or the user has no role in it (so its existence
+ * is not revealed), and 403 when their role lacks the permission.
+ */
+export async function requireGroupPermission(
+  reply: FastifyReply,
+  groupId: string,
+  userId: string,
+  permission: GroupPermission
+) {
+  const access = await getGroupRole(groupId, userId);
+  if (!access || access.role === null) {
+    reply.code(404);
+    throw new Error('Group not found');
+  }
+
+  const { group, role } = access;
+  if (!roleCan(role, permission)) {
+    reply.code(403);
+    throw new Error(`This requires one of the roles: ${rolesWith(permission).join(', ')}`);
+  }
+
+  return { group, role };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { getIdempotencyKey, isUniqueViolation, submissionKey } from './idempotency.js';
+
+function fakeRequest(headers: Record<string, string> = {}): FastifyRequest {
+  return { headers } as unknown as FastifyRequest;
+}
+
+function fakeReply(): FastifyReply & { statusCode: number } {
+  const reply = {
+    statusCode: 200,
+    code(status: number) {
+      reply.statusCode = status;
+      return reply;
+    },
+  };
+  return reply as unknown as FastifyReply & { statusCode: number };
+}
+
+describe('getIdempotencyKey', () => {
+  it('is undefined without a header or clientId', () => {
+    expect(getIdempotencyKey(fakeRequest(), fakeReply())).toBeUndefined();
+  });
+
+  it('reads the Idempotency-Key header', () => {
+    const request = fakeRequest({ 'idempotency-key': 'retry-1' });
+    expect(getIdempotencyKey(request, fakeReply())).toBe('retry-1');
+  });
+
+  it('falls back to the body clientId', () => {
+    expect(getIdempotencyKey(fakeRequest(), fakeReply(), 'fix-42')).toBe('fix-42');
+  });
+
+  it('accepts a header and clientId that match', () => {
+    const request = fakeRequest({ 'idempotency-key': 'fix-42' });
+    expect(getIdempotencyKey(request, fakeReply(), 'fix-42')).toBe('fix-42');
+  });
+
+  it('rejects a header and clientId that differ with 400', () => {
+    const reply = fakeReply();
+    const request = fakeRequest({ 'idempotency-key': 'fix-41' });
+    expect(() => getIdempotencyKey(request, reply, 'fix-42')).toThrow(/must match/);
+    expect(reply.statusCode).toBe(400);
+  });
+
+  it('rejects an empty or overly long header with 400', () => {
+    const empty = fakeReply();
+    expect(() => getIdempotencyKey(fakeRequest({ 'idempotency-key': '' }), empty)).toThrow();
+    expect(empty.statusCode).toBe(400);
+
+    const long = fakeReply();
+    const request = fakeRequest({ 'idempotency-key': 'x'.repeat(129) });
+    expect(() => getIdempotencyKey(request, long)).toThrow();
+    expect(long.statusCode).toBe(400);
+  });
+});
+
+describe('submissionKey', () => {
+  it('does not collide when the separator could be ambiguous', () => {
+    expect(submissionKey('a:b', 'c')).not.toBe(submissionKey('a', 'b:c'));
+  });
+});
+
+describe('isUniqueViolation', () => {
+  it('recognises Prisma P2002 errors only', () => {
+    expect(isUniqueViolation(Object.assign(new Error('dup'), { code: 'P2002' }))).toBe(true);
+    expect(isUniqueViolation(Object.assign(new Error('missing'), { code: 'P2025' }))).toBe(false);
+    expect(isUniqueViolation(null)).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { prisma as db } from '../db.js';
+
+const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+/**
+ * Read the client-supplied key of a location submission
+ * The Idempotency-Key header and the body's clientId are interchangeable; when both are
+ * sent they must be equal. Sends 400 and throws otherwise.
+ */
+export function getIdempotencyKey(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  clientId?: string
+): string | undefined {
+  const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+  const headerKey = Array.isArray(header) ? header[0] : header;
+
+  if (headerKey !== undefined) {
+    if (headerKey.length === 0 || headerKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      reply.code(400);
+      throw new Error(`Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+    if (clientId !== undefined && clientId !== headerKey) {
+      reply.code(400);
+      throw new Error('Idempotency-Key header and clientId must match');
+    }
+  }
+
+  return headerKey ?? clientId;
+}
+
+/**
+ * The location a device already submitted with this key, if any
+ */
+export function findSubmittedLocation(deviceId: string, clientId: string) {
+  return db.locations.findUnique({
+    where: { device_id_client_id: { device_id: deviceId, client_id: clientId } },
+    select: { id: true, received_at: true },
+  });
+}
+
+export function submissionKey(deviceId: string, clientId: string): string {
+  return `${deviceId}\u0000${clientId}`;
+}
+
+/**
+ * Locations already submitted with any of these keys, by submissionKey()
+ */
+export async function findSubmittedLocations(
+  keys: { deviceId: string; clientId: string }[]
+): Promise<Map<string, { id: string; received_at: Date }>> {
+  if (keys.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db.locations.findMany({
+    where: { OR: keys.map((key) => ({ device_id: key.deviceId, client_id: key.clientId })) },
+    select: { id: true, device_id: true, client_id: true, received_at: true },
+  });
+  return new Map(
+    rows.map((row) => [
+      submissionKey(row.device_id, row.client_id as string),
+      { id: row.id, received_at: row.received_at },
+    ])
+  );
+}
+
+/**
+ * Answer a repeated submission with the original 202 response, without storing or publishing
+ */
+export function replaySubmittedLocation(
+  reply: FastifyReply,
+  location: { id: string; received_at: Date }
+): void {
+  reply
+    .code(202)
+    .header('Idempotent-Replayed', 'true')
+    .send({ id: location.id, receivedAt: location.received_at.toISOString() });
+}
+
+/**
+ * Whether a Prisma error is a unique constraint violation (P2002)
+ * Two retries racing each other both miss the lookup; the loser hits the constraint.
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002';
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  invitationAcceptUrl,
+  signInvitationToken,
+  verifyInvitationToken,
+} from './invitation-links.js';
+
+const secret = 'a-secret-of-at-least-thirty-two-characters';
+
+describe('invitation tokens', () => {
+  const expiresAt = new Date('2026-02-01T00:00:00Z');
+
+  it('accepts a token signed for the invitation until it expires', () => {
+    const token = signInvitationToken('inv-1', expiresAt, secret);
+
+    expect(verifyInvitationToken('inv-1', token, secret, new Date('2026-01-31T23:59:59Z'))).toBe(
+      true
+    );
+    expect(verifyInvitationToken('inv-1', token, secret, expiresAt)).toBe(false);
+  });
+
+  it('never expires a token for an invitation without an expiry', () => {
+    const token = signInvitationToken('inv-1', null, secret);
+    expect(verifyInvitationToken('inv-1', token, secret, new Date('2100-01-01T00:00:00Z'))).toBe(
+      true
+    );
+  });
+
+  it('rejects tokens for another invitation, secret or expiry', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const token = signInvitationToken('inv-1', expiresAt, secret);
+    const [, signature] = token.split('.');
+
+    expect(verifyInvitationToken('inv-2', token, secret, now)).toBe(false);
+    expect(verifyInvitationToken('inv-1', token, `${secret}x`, now)).toBe(false);
+    expect(verifyInvitationToken('inv-1', `0.${signature}`, secret, now)).toBe(false);
+    expect(verifyInvitationToken('inv-1', 'garbage', secret, now)).toBe(false);
+  });
+});
+
+describe('invitationAcceptUrl', () => {
+  it('points at the accept page of the app with the token', () => {
+    expect(invitationAcceptUrl('https://app.example.com/', 'inv-1', '123.abc')).toBe(
+      'https://app.example.com/invitations/inv-1/accept?token=123.abc'
+    );
+  });
+});
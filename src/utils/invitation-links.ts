@@ -0,0 +1,59 @@
+import crypto from 'node:crypto';
+
+/**
+ * Sign an invitation for its accept link
+ * The token is "<expiry>.<signature>": the expiry in Unix seconds (0 when the invitation
+ * does not expire) and an HMAC-SHA256 over the invitation ID and that expiry. Re-inviting
+ * with another expiry therefore invalidates links sent earlier.
+ */
+export function signInvitationToken(
+  invitationId: string,
+  expiresAt: Date | null,
+  secret: string
+): string {
+  const expiry = expiresAt ? Math.floor(expiresAt.getTime() / 1000) : 0;
+  return `${expiry}.${signature(invitationId, expiry, secret)}`;
+}
+
+/**
+ * Whether a token was signed for the invitation and has not expired
+ */
+export function verifyInvitationToken(
+  invitationId: string,
+  token: string,
+  secret: string,
+  now = new Date()
+): boolean {
+  const [expiryPart, given, ...rest] = token.split('.');
+  const expiry = Number(expiryPart);
+  if (rest.length > 0 || !given || !Number.isInteger(expiry) || expiry < 0) {
+    return false;
+  }
+
+  const expected = Buffer.from(signature(invitationId, expiry, secret));
+  const actual = Buffer.from(given);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return false;
+  }
+
+  return expiry === 0 || expiry * 1000 > now.getTime();
+}
+
+/**
+ * Link to the frontend page that accepts an invitation
+ */
+export function invitationAcceptUrl(baseUrl: string, invitationId: string, token: string): string {
+  const url = new URL(
+    `invitations/${encodeURIComponent(invitationId)}/accept`,
+    `${baseUrl.replace(/\/$/, '')}/`
+  );
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+function signature(invitationId: string, expiry: number, secret: string): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${invitationId}.${expiry}`)
+    .digest('base64url');
+}